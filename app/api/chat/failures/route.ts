@@ -0,0 +1,24 @@
+import { timingSafeEqual } from "crypto"
+import { NextRequest, NextResponse } from "next/server"
+import { getIntentFailureCounts } from "@/lib/llm/failures"
+
+export const dynamic = "force-dynamic"
+
+// With CHAT_ADMIN_SECRET set, callers send it as a bearer token; without it the
+// counts are only served in development
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CHAT_ADMIN_SECRET
+  if (!secret) return process.env.NODE_ENV === "development"
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const given = Buffer.from(request.headers.get("authorization") || "")
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// Intent-resolution failure counts by reason, since the server started
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+  return NextResponse.json({ failures: getIntentFailureCounts() })
+}
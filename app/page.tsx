@@ -3,6 +3,8 @@
 import { Suspense } from "react"
 import { HomeContent } from "./home-content"
 import { Dashboard } from "@/components/dashboard"
+import { Settings } from "@/components/settings"
+import { TransactionHistory } from "@/components/transaction-history"
 
 // Create a client component that uses useSearchParams
 function HomeWithParams() {
@@ -13,7 +15,7 @@ function HomeWithParams() {
 
   return (
     <main className="flex flex-1 flex-col h-screen overflow-auto">
-      {tab === "dashboard" ? <Dashboard /> : <HomeContent />}
+      {tab === "dashboard" ? <Dashboard /> : tab === "settings" ? <Settings /> : tab === "history" ? <TransactionHistory /> : <HomeContent />}
     </main>
   )
 }
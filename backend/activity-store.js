@@ -0,0 +1,98 @@
+const path = require('path');
+const fs = require('fs');
+const Database = require('better-sqlite3');
+
+// Swaps and Solend deposits the browser signs itself, reported here by signature
+// so they show up in the wallet's history. Reports are checked on-chain before
+// they are recorded, as 'confirmed' or 'failed'. Records from before that
+// start 'pending' and are settled the same way; a signature the wallet didn't
+// sign is marked 'rejected' and never listed.
+
+const ACTIVITY_KINDS = ['swap', 'solend_deposit'];
+const ACTIVITY_STATUSES = ['pending', 'confirmed', 'failed', 'rejected'];
+
+function createActivityStore(dbPath = process.env.ACTIVITY_DB_PATH || path.join(__dirname, 'data', 'activity.db')) {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS wallet_activity (
+      signature TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      status TEXT NOT NULL,
+      fee_lamports INTEGER,
+      details TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS wallet_activity_wallet ON wallet_activity (wallet_address);
+  `);
+
+  // Reporting the same signature again keeps the first record
+  const insertActivity = db.prepare(`
+    INSERT OR IGNORE INTO wallet_activity (signature, wallet_address, kind, status, fee_lamports, details, created_at, updated_at)
+    VALUES (@signature, @walletAddress, @kind, @status, @feeLamports, @details, @at, @at)
+  `);
+  const selectActivity = db.prepare('SELECT * FROM wallet_activity WHERE signature = ?');
+  const updateStatus = db.prepare('UPDATE wallet_activity SET status = ?, fee_lamports = ?, updated_at = ? WHERE signature = ?');
+
+  function toActivity(row) {
+    if (!row) return null;
+    return {
+      signature: row.signature,
+      walletAddress: row.wallet_address,
+      kind: row.kind,
+      status: row.status,
+      feeLamports: row.fee_lamports,
+      details: JSON.parse(row.details),
+      timestamp: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  function record({ signature, walletAddress, kind, status = 'pending', feeLamports = null, details = {} }) {
+    if (!ACTIVITY_KINDS.includes(kind)) {
+      throw new Error(`Unknown activity kind: ${kind}`);
+    }
+    if (!ACTIVITY_STATUSES.includes(status)) {
+      throw new Error(`Unknown activity status: ${status}`);
+    }
+    insertActivity.run({ signature, walletAddress, kind, status, feeLamports, details: JSON.stringify(details), at: new Date().toISOString() });
+    return get(signature);
+  }
+
+  function get(signature) {
+    return toActivity(selectActivity.get(signature));
+  }
+
+  function setStatus(signature, status, feeLamports = null) {
+    if (!ACTIVITY_STATUSES.includes(status)) {
+      throw new Error(`Unknown activity status: ${status}`);
+    }
+    updateStatus.run(status, feeLamports, new Date().toISOString(), signature);
+    return get(signature);
+  }
+
+  // Newest first
+  function forWallet(walletAddress) {
+    return db.prepare('SELECT * FROM wallet_activity WHERE wallet_address = ? ORDER BY created_at DESC').all(walletAddress).map(toActivity);
+  }
+
+  return {
+    record,
+    get,
+    setStatus,
+    forWallet,
+    close: () => db.close()
+  };
+}
+
+module.exports = {
+  ACTIVITY_KINDS,
+  ACTIVITY_STATUSES,
+  createActivityStore
+};
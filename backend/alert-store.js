@@ -0,0 +1,219 @@
+const path = require('path');
+const fs = require('fs');
+const Database = require('better-sqlite3');
+
+// Price alerts and watchlists, per wallet. An alert stays 'active' until the
+// evaluator sees the price cross its target and marks it 'triggered' (or the
+// wallet cancels it); triggered alerts stay unseen until the app has shown them.
+// The latest price the evaluator read for each mint is kept alongside.
+
+const ALERT_DIRECTIONS = ['above', 'below'];
+const MAX_ACTIVE_ALERTS_PER_WALLET = 50;
+const MAX_WATCHLIST_PER_WALLET = 50;
+// Each followed mint costs the evaluator a price read every round, whoever asked
+const MAX_TRACKED_MINTS = parseInt(process.env.ALERT_MAX_TRACKED_MINTS, 10) || 200;
+
+class AlertLimitError extends Error {}
+
+function createAlertStore(dbPath = process.env.ALERTS_DB_PATH || path.join(__dirname, 'data', 'alerts.db')) {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS price_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      wallet_address TEXT NOT NULL,
+      mint TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      target_price REAL NOT NULL,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      triggered_at TEXT,
+      triggered_price REAL,
+      seen INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS price_alerts_wallet ON price_alerts (wallet_address);
+    CREATE INDEX IF NOT EXISTS price_alerts_status ON price_alerts (status);
+    CREATE TABLE IF NOT EXISTS watchlist (
+      wallet_address TEXT NOT NULL,
+      mint TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      added_at TEXT NOT NULL,
+      PRIMARY KEY (wallet_address, mint)
+    );
+    CREATE TABLE IF NOT EXISTS latest_prices (
+      mint TEXT PRIMARY KEY,
+      price REAL NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+
+  const insertAlert = db.prepare(`
+    INSERT INTO price_alerts (wallet_address, mint, symbol, direction, target_price, status, created_at)
+    VALUES (@walletAddress, @mint, @symbol, @direction, @targetPrice, 'active', @at)
+  `);
+  const selectAlert = db.prepare('SELECT * FROM price_alerts WHERE id = ?');
+  const countActive = db.prepare("SELECT COUNT(*) AS count FROM price_alerts WHERE wallet_address = ? AND status = 'active'");
+  const cancelAlert = db.prepare("UPDATE price_alerts SET status = 'cancelled' WHERE id = ? AND wallet_address = ? AND status = 'active'");
+  // Only an alert that is still active can trigger, so a cancel racing the evaluator wins
+  const triggerAlert = db.prepare(`
+    UPDATE price_alerts SET status = 'triggered', triggered_at = ?, triggered_price = ?, seen = 0
+    WHERE id = ? AND status = 'active'
+  `);
+  const upsertWatch = db.prepare(`
+    INSERT INTO watchlist (wallet_address, mint, symbol, added_at) VALUES (@walletAddress, @mint, @symbol, @at)
+    ON CONFLICT (wallet_address, mint) DO UPDATE SET symbol = excluded.symbol
+  `);
+  const countWatched = db.prepare('SELECT COUNT(*) AS count FROM watchlist WHERE wallet_address = ?');
+  const upsertPrice = db.prepare(`
+    INSERT INTO latest_prices (mint, price, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT (mint) DO UPDATE SET price = excluded.price, updated_at = excluded.updated_at
+  `);
+
+  function toAlert(row) {
+    if (!row) return null;
+    return {
+      id: row.id,
+      walletAddress: row.wallet_address,
+      mint: row.mint,
+      symbol: row.symbol,
+      direction: row.direction,
+      targetPrice: row.target_price,
+      status: row.status,
+      createdAt: row.created_at,
+      triggeredAt: row.triggered_at,
+      triggeredPrice: row.triggered_price,
+      seen: row.seen === 1
+    };
+  }
+
+  // A mint nothing follows yet is only taken on while there is room for it
+  function assertTrackable(mint) {
+    const tracked = trackedTokens();
+    if (tracked.length >= MAX_TRACKED_MINTS && !tracked.some(token => token.mint === mint)) {
+      throw new AlertLimitError("Price alerts can't follow any more tokens right now");
+    }
+  }
+
+  const createAlert = db.transaction(({ walletAddress, mint, symbol, direction, targetPrice }) => {
+    if (!ALERT_DIRECTIONS.includes(direction)) {
+      throw new Error(`Unknown alert direction: ${direction}`);
+    }
+    if (countActive.get(walletAddress).count >= MAX_ACTIVE_ALERTS_PER_WALLET) {
+      throw new AlertLimitError(`A wallet can have at most ${MAX_ACTIVE_ALERTS_PER_WALLET} active alerts`);
+    }
+    assertTrackable(mint);
+    const { lastInsertRowid } = insertAlert.run({ walletAddress, mint, symbol, direction, targetPrice, at: new Date().toISOString() });
+    return getAlert(lastInsertRowid);
+  });
+
+  function getAlert(id) {
+    return toAlert(selectAlert.get(id));
+  }
+
+  // False when the wallet has no such active alert
+  function cancel(walletAddress, id) {
+    return cancelAlert.run(id, walletAddress).changes > 0;
+  }
+
+  // Active and triggered alerts, newest first
+  function forWallet(walletAddress) {
+    return db.prepare(`
+      SELECT * FROM price_alerts WHERE wallet_address = ? AND status != 'cancelled' ORDER BY created_at DESC, id DESC
+    `).all(walletAddress).map(toAlert);
+  }
+
+  function active() {
+    return db.prepare("SELECT * FROM price_alerts WHERE status = 'active'").all().map(toAlert);
+  }
+
+  function markTriggered(id, price) {
+    return triggerAlert.run(new Date().toISOString(), price, id).changes > 0;
+  }
+
+  function unseenTriggered(walletAddress) {
+    return db.prepare(`
+      SELECT * FROM price_alerts WHERE wallet_address = ? AND status = 'triggered' AND seen = 0 ORDER BY triggered_at
+    `).all(walletAddress).map(toAlert);
+  }
+
+  const markSeen = db.transaction((walletAddress, ids) => {
+    const update = db.prepare('UPDATE price_alerts SET seen = 1 WHERE id = ? AND wallet_address = ?');
+    ids.forEach(id => update.run(id, walletAddress));
+  });
+
+  const watch = db.transaction(({ walletAddress, mint, symbol }) => {
+    const watched = db.prepare('SELECT 1 FROM watchlist WHERE wallet_address = ? AND mint = ?').get(walletAddress, mint);
+    if (!watched && countWatched.get(walletAddress).count >= MAX_WATCHLIST_PER_WALLET) {
+      throw new AlertLimitError(`A watchlist can hold at most ${MAX_WATCHLIST_PER_WALLET} tokens`);
+    }
+    assertTrackable(mint);
+    upsertWatch.run({ walletAddress, mint, symbol, at: new Date().toISOString() });
+  });
+
+  function unwatch(walletAddress, mint) {
+    return db.prepare('DELETE FROM watchlist WHERE wallet_address = ? AND mint = ?').run(walletAddress, mint).changes > 0;
+  }
+
+  // Oldest first, with the last price the evaluator read (null until it has)
+  function watchlist(walletAddress) {
+    return db.prepare(`
+      SELECT w.mint, w.symbol, w.added_at, p.price, p.updated_at
+      FROM watchlist w LEFT JOIN latest_prices p ON p.mint = w.mint
+      WHERE w.wallet_address = ? ORDER BY w.added_at
+    `).all(walletAddress).map(row => ({
+      mint: row.mint,
+      symbol: row.symbol,
+      addedAt: row.added_at,
+      price: row.price,
+      priceUpdatedAt: row.updated_at
+    }));
+  }
+
+  // Every mint an active alert or a watchlist follows, with a symbol for it
+  function trackedTokens() {
+    return db.prepare(`
+      SELECT mint, MIN(symbol) AS symbol FROM (
+        SELECT mint, symbol FROM price_alerts WHERE status = 'active'
+        UNION SELECT mint, symbol FROM watchlist
+      ) GROUP BY mint
+    `).all();
+  }
+
+  function recordPrice(mint, price) {
+    upsertPrice.run(mint, price, new Date().toISOString());
+  }
+
+  function latestPrice(mint) {
+    const row = db.prepare('SELECT price, updated_at FROM latest_prices WHERE mint = ?').get(mint);
+    return row ? { price: row.price, updatedAt: row.updated_at } : null;
+  }
+
+  return {
+    createAlert,
+    getAlert,
+    cancel,
+    forWallet,
+    active,
+    markTriggered,
+    unseenTriggered,
+    markSeen,
+    watch,
+    unwatch,
+    watchlist,
+    trackedTokens,
+    recordPrice,
+    latestPrice,
+    close: () => db.close()
+  };
+}
+
+module.exports = {
+  ALERT_DIRECTIONS,
+  AlertLimitError,
+  createAlertStore
+};
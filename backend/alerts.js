@@ -0,0 +1,65 @@
+// Polls the price of every token an active alert or a watchlist follows,
+// records it, and triggers the alerts whose target it has crossed. A token whose
+// price can't be read is skipped until the next round.
+
+const crossed = (alert, price) => alert.direction === 'above' ? price >= alert.targetPrice : price <= alert.targetPrice;
+
+function createAlertEvaluator({ alerts, prices, intervalMs = parseInt(process.env.ALERT_POLL_INTERVAL_MS, 10) || 60 * 1000 }) {
+  let timer = null;
+  let running = false;
+
+  // Returns the alerts this round triggered
+  async function evaluate() {
+    const latest = new Map();
+    for (const token of alerts.trackedTokens()) {
+      try {
+        const price = await prices.priceOf(token);
+        alerts.recordPrice(token.mint, price);
+        latest.set(token.mint, price);
+      } catch (error) {
+        console.warn(`Could not read the price of ${token.symbol} (${token.mint}):`, error.message);
+      }
+    }
+
+    const triggered = [];
+    for (const alert of alerts.active()) {
+      const price = latest.get(alert.mint);
+      if (price !== undefined && crossed(alert, price) && alerts.markTriggered(alert.id, price)) {
+        triggered.push(alerts.getAlert(alert.id));
+      }
+    }
+    return triggered;
+  }
+
+  // A slow round is never overlapped by the next one
+  async function tick() {
+    if (running) return;
+    running = true;
+    try {
+      const triggered = await evaluate();
+      if (triggered.length > 0) {
+        console.log(`Triggered ${triggered.length} price alert(s)`);
+      }
+    } catch (error) {
+      console.error('Price alert evaluation failed:', error);
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    evaluate,
+    start() {
+      if (!timer) {
+        timer = setInterval(tick, intervalMs);
+        tick();
+      }
+    },
+    stop() {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+}
+
+module.exports = { createAlertEvaluator };
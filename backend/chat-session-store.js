@@ -0,0 +1,101 @@
+const path = require('path');
+const fs = require('fs');
+const Database = require('better-sqlite3');
+
+// Server copy of the chat sessions the frontend keeps in IndexedDB, per wallet.
+// The browser stays the source of truth: a write older than the stored copy is
+// ignored, and the oldest sessions are dropped once a wallet is over its cap.
+// Sessions are stored as the JSON the app sent, with their size counted so one
+// wallet, and the store as a whole, stay within bounds.
+
+const MAX_CHAT_SESSIONS_PER_WALLET = 100;
+// The JSON body limit caps a single session at about 2 MB already
+const MAX_CHAT_SESSION_BYTES = 2 * 1024 * 1024;
+const MAX_WALLET_CHAT_BYTES = 20 * 1024 * 1024;
+const MAX_TOTAL_CHAT_BYTES = parseInt(process.env.CHAT_SESSIONS_MAX_BYTES, 10) || 1024 * 1024 * 1024;
+
+class ChatSessionLimitError extends Error {}
+
+function createChatSessionStore(dbPath = process.env.CHAT_SESSIONS_DB_PATH || path.join(__dirname, 'data', 'chat-sessions.db')) {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chat_sessions (
+      wallet_address TEXT NOT NULL,
+      id TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      size INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (wallet_address, id)
+    );
+    CREATE INDEX IF NOT EXISTS chat_sessions_updated ON chat_sessions (wallet_address, updated_at);
+  `);
+
+  const selectSession = db.prepare('SELECT updated_at, size FROM chat_sessions WHERE wallet_address = ? AND id = ?');
+  const upsertSession = db.prepare(`
+    INSERT INTO chat_sessions (wallet_address, id, updated_at, size, data)
+    VALUES (@walletAddress, @id, @updatedAt, @size, @data)
+    ON CONFLICT (wallet_address, id) DO UPDATE SET updated_at = excluded.updated_at, size = excluded.size, data = excluded.data
+  `);
+  const walletBytes = db.prepare('SELECT COALESCE(SUM(size), 0) AS bytes FROM chat_sessions WHERE wallet_address = ?');
+  const totalBytes = db.prepare('SELECT COALESCE(SUM(size), 0) AS bytes FROM chat_sessions');
+  const deleteSession = db.prepare('DELETE FROM chat_sessions WHERE wallet_address = ? AND id = ?');
+  const trimWallet = db.prepare(`
+    DELETE FROM chat_sessions WHERE wallet_address = @walletAddress AND id NOT IN (
+      SELECT id FROM chat_sessions WHERE wallet_address = @walletAddress ORDER BY updated_at DESC LIMIT @keep
+    )
+  `);
+
+  // Newest first
+  function forWallet(walletAddress) {
+    return db.prepare('SELECT data FROM chat_sessions WHERE wallet_address = ? ORDER BY updated_at DESC')
+      .all(walletAddress)
+      .map(row => JSON.parse(row.data));
+  }
+
+  // Returns false when the stored copy is newer. Throws ChatSessionLimitError
+  // when the session, the wallet or the store would grow past its limit.
+  const save = db.transaction(session => {
+    const { walletAddress, id, updatedAt } = session;
+    const data = JSON.stringify(session);
+    const size = Buffer.byteLength(data);
+    if (size > MAX_CHAT_SESSION_BYTES) {
+      throw new ChatSessionLimitError('This chat is too long to sync; start a new one');
+    }
+
+    const existing = selectSession.get(walletAddress, id);
+    if (existing && existing.updated_at > updatedAt) return false;
+
+    const growth = size - (existing ? existing.size : 0);
+    if (walletBytes.get(walletAddress).bytes + growth > MAX_WALLET_CHAT_BYTES) {
+      throw new ChatSessionLimitError('This wallet has no room for more chat history; delete some chats first');
+    }
+    if (totalBytes.get().bytes + growth > MAX_TOTAL_CHAT_BYTES) {
+      throw new ChatSessionLimitError('Chat history sync is full right now');
+    }
+
+    upsertSession.run({ walletAddress, id, updatedAt, size, data });
+    trimWallet.run({ walletAddress, keep: MAX_CHAT_SESSIONS_PER_WALLET });
+    return true;
+  });
+
+  function remove(walletAddress, id) {
+    return deleteSession.run(walletAddress, id).changes > 0;
+  }
+
+  return {
+    forWallet,
+    save,
+    remove,
+    close: () => db.close()
+  };
+}
+
+module.exports = {
+  ChatSessionLimitError,
+  createChatSessionStore
+};
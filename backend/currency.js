@@ -0,0 +1,139 @@
+const fs = require('fs');
+const path = require('path');
+const fetch = require('node-fetch');
+
+// Fiat currencies we charge in, with Stripe's minimum charge for each. Prices are
+// fetched in USD and converted with rates from the configured FX provider.
+
+const CURRENCIES = {
+  usd: { minimum: 0.5 },
+  eur: { minimum: 0.5 },
+  gbp: { minimum: 0.3 },
+  inr: { minimum: 0.5 },
+  cad: { minimum: 0.5 },
+  aud: { minimum: 0.5 },
+  sgd: { minimum: 0.5 },
+  chf: { minimum: 0.5 }
+};
+
+const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES);
+
+const EURO_COUNTRIES = ['AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'];
+const COUNTRY_CURRENCIES = { IN: 'inr', GB: 'gbp', CA: 'cad', AU: 'aud', SG: 'sgd', CH: 'chf' };
+
+const FX_CACHE_TTL_MS = parseInt(process.env.FX_CACHE_TTL_MS, 10) || 10 * 60 * 1000;
+
+function isSupportedCurrency(currency) {
+  return SUPPORTED_CURRENCIES.includes(currency);
+}
+
+function minimumAmount(currency) {
+  return CURRENCIES[currency].minimum;
+}
+
+// Charge currency for a two-letter country code, USD when we don't price in theirs
+function currencyForCountry(country) {
+  if (!country) return 'usd';
+  if (EURO_COUNTRIES.includes(country)) return 'eur';
+  return COUNTRY_CURRENCIES[country] || 'usd';
+}
+
+// An FX provider returns `{ [currency]: units per 1 USD }` from getRates().
+
+// Live rates from an open exchange-rate API
+function createHttpFxProvider(url = process.env.FX_API_URL || 'https://open.er-api.com/v6/latest/USD') {
+  return {
+    name: 'http',
+    async getRates() {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`FX API error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      if (!data || !data.rates) {
+        throw new Error('Invalid data format from FX API');
+      }
+      const rates = {};
+      for (const [code, rate] of Object.entries(data.rates)) {
+        rates[code.toLowerCase()] = rate;
+      }
+      return rates;
+    }
+  };
+}
+
+// Fixed rates from a JSON file, for tests and local development
+function createFixtureFxProvider(file = process.env.FX_FIXTURE_PATH || path.join(__dirname, 'fixtures', 'fx', 'usd-rates.json')) {
+  return {
+    name: 'fixture',
+    async getRates() {
+      return JSON.parse(fs.readFileSync(file, 'utf8')).rates;
+    }
+  };
+}
+
+function createFxProvider(name = process.env.FX_PROVIDER || 'http') {
+  switch (name) {
+    case 'http':
+      return createHttpFxProvider();
+    case 'fixture':
+      return createFixtureFxProvider();
+    default:
+      throw new Error(`Unknown FX provider: ${name}`);
+  }
+}
+
+// Converts USD amounts with cached provider rates. If a refresh fails, the last
+// rates are kept until one succeeds.
+function createCurrencyConverter(provider = createFxProvider(), { ttlMs = FX_CACHE_TTL_MS } = {}) {
+  let cached = null;
+  let fetchedAt = 0;
+
+  async function rates() {
+    if (cached && Date.now() - fetchedAt < ttlMs) return cached;
+    try {
+      cached = await provider.getRates();
+      fetchedAt = Date.now();
+      console.log(`Loaded FX rates from ${provider.name} provider`);
+    } catch (error) {
+      if (!cached) throw error;
+      console.warn(`Could not refresh FX rates from ${provider.name}, using cached rates:`, error.message);
+    }
+    return cached;
+  }
+
+  async function rate(currency) {
+    if (currency === 'usd') return 1;
+    const value = (await rates())[currency];
+    if (typeof value !== 'number' || value <= 0) {
+      throw new Error(`No FX rate for ${currency}`);
+    }
+    return value;
+  }
+
+  async function fromUsd(amount, currency) {
+    return amount * await rate(currency);
+  }
+
+  // A USD price in every supported currency
+  async function pricesFromUsd(usdPrice) {
+    const prices = {};
+    for (const currency of SUPPORTED_CURRENCIES) {
+      prices[currency] = await fromUsd(usdPrice, currency);
+    }
+    return prices;
+  }
+
+  return { rate, fromUsd, pricesFromUsd, provider: provider.name };
+}
+
+module.exports = {
+  SUPPORTED_CURRENCIES,
+  isSupportedCurrency,
+  minimumAmount,
+  currencyForCountry,
+  createHttpFxProvider,
+  createFixtureFxProvider,
+  createFxProvider,
+  createCurrencyConverter
+};
@@ -0,0 +1,232 @@
+// A wallet's history: fiat purchases from the payment store (with the ledger's
+// on-chain signatures) and the swaps and Solend deposits in the activity store.
+// Activity still pending is checked on-chain each time the history is read.
+
+const { OnrampError } = require('./onramp');
+
+const EXPLORER_TX_URL = 'https://solscan.io/tx/';
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LAMPORTS_PER_SOL = 1e9;
+
+// How long a report waits for its transaction to show up on-chain
+const ACTIVITY_LOOKUP_TIMEOUT_MS = parseInt(process.env.ACTIVITY_LOOKUP_TIMEOUT_MS, 10) || 60 * 1000;
+const ACTIVITY_LOOKUP_POLL_MS = 2000;
+
+const LEDGER_LABELS = {
+  sol_transfer: 'SOL transfer',
+  token_swap: 'Token swap',
+  token_transfer: 'Token transfer'
+};
+
+function purchaseStatus(status) {
+  switch (status) {
+    case 'sol_transferred':
+    case 'token_swap_completed':
+      return 'completed';
+    case 'refunded':
+      return 'refunded';
+    case 'error':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+const txLink = (label, signature) => ({ label, url: `${EXPLORER_TX_URL}${signature}` });
+
+function purchaseEntry(session, transfers) {
+  const paid = (session.amount || 0) / 100;
+  const received = session.isTokenSwap
+    ? parseFloat(session.tokenAmount) || null
+    : parseFloat(session.transferredSolAmount || session.solAmount) || null;
+  const symbol = session.isTokenSwap ? session.tokenSymbol || 'Token' : 'SOL';
+
+  // Ledger signatures that landed; providers that deliver themselves only give us a link
+  const explorerLinks = transfers
+    .filter(transfer => transfer.status === 'confirmed' || transfer.status === 'sent')
+    .map(transfer => txLink(LEDGER_LABELS[transfer.kind] || transfer.kind, transfer.signature));
+  if (!explorerLinks.length && session.explorerLink) {
+    explorerLinks.push({ label: 'Delivery', url: session.explorerLink });
+  }
+
+  return {
+    id: session.id,
+    kind: 'fiat_purchase',
+    timestamp: session.timestamp,
+    status: purchaseStatus(session.status),
+    description: `Bought ${symbol}`,
+    provider: session.provider || 'stripe',
+    paid: { amount: paid, currency: session.currency || 'usd' },
+    received: received ? { amount: received, symbol } : null,
+    effectivePrice: received ? paid / received : null,
+    fees: session.fees ? { amount: session.fees.total, currency: session.currency || 'usd' } : null,
+    explorerLinks,
+    refundReason: session.refundReason || null
+  };
+}
+
+function activityEntry(activity) {
+  const { details } = activity;
+  const status = activity.status === 'confirmed' ? 'completed' : activity.status;
+  const fees = activity.feeLamports != null ? { amount: activity.feeLamports / 1e9, currency: 'SOL' } : null;
+
+  if (activity.kind === 'swap') {
+    return {
+      id: activity.signature,
+      kind: 'swap',
+      timestamp: activity.timestamp,
+      status,
+      description: `Swapped ${details.inputToken} for ${details.outputToken}`,
+      provider: 'jupiter',
+      paid: { amount: details.inputAmount, currency: details.inputToken },
+      received: { amount: details.outputAmount, symbol: details.outputToken },
+      effectivePrice: details.outputAmount ? details.inputAmount / details.outputAmount : null,
+      fees,
+      explorerLinks: [txLink('Swap', activity.signature)],
+      refundReason: null
+    };
+  }
+
+  return {
+    id: activity.signature,
+    kind: 'solend_deposit',
+    timestamp: activity.timestamp,
+    status,
+    description: `Deposited ${details.tokenSymbol} on Solend${details.apy ? ` at ${details.apy}% APY` : ''}`,
+    provider: 'solend',
+    paid: { amount: details.amount, currency: details.tokenSymbol },
+    received: null,
+    effectivePrice: null,
+    fees,
+    explorerLinks: [txLink('Deposit', activity.signature)],
+    refundReason: null
+  };
+}
+
+// How much of each token the fee payer gained (positive) or spent (negative) in
+// a transaction, keyed by mint with SOL as 'SOL'. Wrapped SOL counts as SOL and
+// the network fee is left out, so a swap's SOL side is what went into the swap.
+function balanceChanges(transaction, owner) {
+  const { meta } = transaction;
+  const changes = new Map();
+  const add = (mint, amount) => changes.set(mint, (changes.get(mint) || 0) + amount);
+
+  add('SOL', (meta.postBalances[0] - meta.preBalances[0] + meta.fee) / LAMPORTS_PER_SOL);
+  const tokenAmounts = (balances, sign) => (balances || [])
+    .filter(balance => balance.owner === owner)
+    .forEach(balance => add(
+      balance.mint === WRAPPED_SOL_MINT ? 'SOL' : balance.mint,
+      sign * Number(balance.uiTokenAmount.amount) / Math.pow(10, balance.uiTokenAmount.decimals)
+    ));
+  tokenAmounts(meta.postTokenBalances, 1);
+  tokenAmounts(meta.preTokenBalances, -1);
+  return changes;
+}
+
+// The token a transaction took the most of (or gave the most of, with
+// `direction` 1). Tokens win over SOL, whose balance also pays account rent.
+function largestChange(changes, direction) {
+  const moved = [...changes.entries()]
+    .filter(([, amount]) => amount * direction > 0)
+    .sort(([mintA, a], [mintB, b]) => (mintA === 'SOL') - (mintB === 'SOL') || Math.abs(b) - Math.abs(a));
+  return moved.length ? Math.abs(moved[0][1]) : 0;
+}
+
+// The amounts of a reported transaction, read from the chain. Symbols are the
+// app's labels for the tokens; the amounts never come from the report.
+const ACTIVITY_AMOUNTS = {
+  swap: (changes, { inputToken, outputToken }) => ({
+    inputToken,
+    inputAmount: largestChange(changes, -1),
+    outputToken,
+    outputAmount: largestChange(changes, 1)
+  }),
+  solend_deposit: (changes, { tokenSymbol, apy }) => ({
+    tokenSymbol,
+    amount: largestChange(changes, -1),
+    apy
+  })
+};
+
+function createHistory({ paymentSessions, activity, connection }) {
+  async function loadTransaction(signature) {
+    const deadline = Date.now() + ACTIVITY_LOOKUP_TIMEOUT_MS;
+    for (;;) {
+      const transaction = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+      if (transaction?.meta) return transaction;
+      if (Date.now() >= deadline) return null;
+      await new Promise(resolve => setTimeout(resolve, ACTIVITY_LOOKUP_POLL_MS));
+    }
+  }
+
+  // Record a transaction the app signed for the wallet. It is looked up on-chain
+  // first: only the wallet that paid its fee can put it in a history, and what
+  // was paid and received is read from its balance changes.
+  async function record(walletAddress, { kind, signature, labels }) {
+    const transaction = await loadTransaction(signature);
+    if (!transaction) {
+      throw new OnrampError(404, { error: 'Transaction not found on-chain; report it again once it has confirmed' });
+    }
+    const feePayer = transaction.transaction.message.staticAccountKeys[0].toBase58();
+    if (feePayer !== walletAddress) {
+      throw new OnrampError(403, { error: 'This transaction was not signed by the wallet' });
+    }
+
+    const details = ACTIVITY_AMOUNTS[kind](balanceChanges(transaction, walletAddress), labels);
+    return activity.record({
+      signature,
+      walletAddress,
+      kind,
+      status: transaction.meta.err ? 'failed' : 'confirmed',
+      feeLamports: transaction.meta.fee,
+      details
+    });
+  }
+
+  // Settle activity recorded before reports were checked on-chain. A
+  // transaction the wallet didn't sign is rejected.
+  async function reconcile(walletAddress, pending) {
+    if (!pending.length) return;
+    const { value: statuses } = await connection.getSignatureStatuses(pending.map(item => item.signature), { searchTransactionHistory: true });
+
+    for (const [index, item] of pending.entries()) {
+      const status = statuses[index];
+      if (!status || !['confirmed', 'finalized'].includes(status.confirmationStatus)) continue;
+      if (status.err) {
+        activity.setStatus(item.signature, 'failed');
+        continue;
+      }
+
+      const transaction = await connection.getTransaction(item.signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+      if (!transaction) continue;
+      const { message } = transaction.transaction;
+      // Signers are always static keys, so lookup tables don't need loading
+      const signers = message.staticAccountKeys
+        .slice(0, message.header.numRequiredSignatures)
+        .map(key => key.toBase58());
+      activity.setStatus(item.signature, signers.includes(walletAddress) ? 'confirmed' : 'rejected', transaction.meta?.fee ?? null);
+    }
+  }
+
+  // Newest first. Checkouts that were never paid are left out.
+  async function entries(walletAddress) {
+    const sessions = paymentSessions.sessionsSince({ walletAddress, since: new Date(0).toISOString() })
+      .filter(session => session.walletAddress === walletAddress && session.status !== 'created');
+
+    try {
+      await reconcile(walletAddress, activity.forWallet(walletAddress).filter(item => item.status === 'pending'));
+    } catch (error) {
+      // Unchecked activity stays pending until the next read
+      console.error('Error checking wallet activity on-chain:', error);
+    }
+
+    return [
+      ...sessions.map(session => purchaseEntry(session, paymentSessions.transfers(session.id))),
+      ...activity.forWallet(walletAddress).filter(item => item.status !== 'rejected').map(activityEntry)
+    ].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  return { record, entries };
+}
+
+module.exports = { createHistory };
@@ -9,17 +9,36 @@ const crypto = require('crypto');
 const bs58 = require('bs58');
 const fetch = require('node-fetch');
 const { TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID, createAssociatedTokenAccountInstruction, getAssociatedTokenAddress } = require('@solana/spl-token');
+const { createPaymentStore, InvalidTransitionError, TERMINAL_STATUSES } = require('./payment-store');
+const { SUPPORTED_CURRENCIES, isSupportedCurrency, minimumAmount, currencyForCountry, createCurrencyConverter } = require('./currency');
+const { createPrivyVerifier } = require('./privy');
+const { createPurchaseLimits } = require('./purchase-limits');
+const { ACTIVITY_KINDS, createActivityStore } = require('./activity-store');
+const { createHistory } = require('./history');
+const { historyCsv, receiptPdf } = require('./receipts');
+const { ALERT_DIRECTIONS, AlertLimitError, createAlertStore } = require('./alert-store');
+const { createAlertEvaluator } = require('./alerts');
+const { createPriceSource } = require('./prices');
+const { ChatSessionLimitError, createChatSessionStore } = require('./chat-session-store');
+const { OnrampError, createOnrampRegistry, createQuoteBook, createRampProvider, createFakeProvider, parseQuoteRequest, belowMinimumError } = require('./onramp');
 
 require('dotenv').config();
 
 const app = express();
 app.use(cors());
 
-// Global JSON parser
-app.use(express.json());
+// Global JSON parser. The raw body is kept for Stripe webhook signature checks.
+app.use(express.json({
+  limit: '2mb', // chat sessions can be large
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 
 // Initialize Stripe
 const stripe = Stripe(process.env.STRIPE_SECRET_KEY_LIVE);
+// Test-mode events are only honoured with a test key, and live ones with a live key
+const STRIPE_LIVEMODE = /^(sk|rk)_live_/.test(process.env.STRIPE_SECRET_KEY_LIVE || '');
 
 // Load the funding wallet (mainnet) from env.
 const FUNDING_SECRET = process.env.FUNDING_WALLET_SECRET;
@@ -38,6 +57,9 @@ try {
   console.error("Error initializing funding wallet:", error);
 }
 
+// Fiat conversion for prices quoted in USD (FX_PROVIDER picks live or fixture rates)
+const currencyConverter = createCurrencyConverter();
+
 // Base URLs for Birdeye API
 const BIRDEYE_API_BASE = 'https://public-api.birdeye.so';
 const SOL_TOKEN_ADDRESS = 'So11111111111111111111111111111111111111112'; // SOL token address
@@ -79,18 +101,13 @@ async function getCurrentSolPrice(retries = 3, delay = 1000) {
 
       const data = await response.json();
       if (data && data.data && data.data.value) {
-        // For SOL/INR, convert from USD since Birdeye doesn't directly provide INR
-        // Get USD to INR conversion rate - in a production app, you should use a forex API
-        const usdToInrRate = 83.5; // Approximate USD to INR rate (this should ideally be fetched from a forex API)
+        // Birdeye prices in USD; every other currency goes through the FX rates
         const usdPrice = data.data.value;
-        const inrPrice = usdPrice * usdToInrRate;
+        const prices = await currencyConverter.pricesFromUsd(usdPrice);
         
-        console.log(`Got SOL price from Birdeye: $${usdPrice} USD (₹${inrPrice} INR)`);
+        console.log(`Got SOL price from Birdeye: $${usdPrice} USD`, prices);
         
-        return {
-          usd: usdPrice,
-          inr: inrPrice
-        };
+        return prices;
       }
       throw new Error('Invalid data format from Birdeye API');
     } catch (error) {
@@ -109,10 +126,134 @@ async function getCurrentSolPrice(retries = 3, delay = 1000) {
 // Default prices (if not defined in .env)
 const PRICE_USD = process.env.PRICE_USD || 100; // $1.00 in cents
 const PRICE_INR = process.env.PRICE_INR || 100; // ₹1.00 in paisa
-const SOL_AMOUNT = 0.1; // Amount of SOL to transfer (fixed at 0.1 SOL)
 
-// Store payment sessions for processing
-const paymentSessions = new Map();
+// Default charge in minor units (cents, paisa, ...) when no amount is given
+function defaultPrice(currency) {
+  if (currency === 'usd') return PRICE_USD;
+  if (currency === 'inr') return PRICE_INR;
+  return 100;
+}
+
+
+// Payment sessions, persisted so in-flight purchases survive a restart
+const paymentSessions = createPaymentStore();
+
+// Spending limits per wallet and verified email, counted from the sessions above
+const purchaseLimits = createPurchaseLimits({ paymentSessions, currencyConverter });
+const privy = createPrivyVerifier();
+
+// The buyer behind a checkout request: their wallet, and their email if they
+// verified one through Privy
+async function identifyBuyer(req) {
+  return {
+    walletAddress: req.body.walletAddress || req.params.walletAddress,
+    email: await privy.verifiedEmail(req)
+  };
+}
+
+function isWalletAddress(value) {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
+
+// Routes under /:walletAddress only answer the Privy user that wallet is linked to
+async function requireWalletOwner(req, res, next) {
+  if (!isWalletAddress(req.params.walletAddress)) {
+    return res.status(400).json({ error: 'Invalid wallet address' });
+  }
+  try {
+    if (await privy.ownsWallet(req, req.params.walletAddress)) return next();
+    res.status(401).json({ error: 'Sign in with this wallet to access its data' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Checkouts only open for the Privy user the paying wallet is linked to, so a
+// purchase (and what it holds against the limits) can't be put on someone else's wallet
+async function requireBuyerWallet(req, res, next) {
+  const walletAddress = req.body?.walletAddress;
+  if (typeof walletAddress !== 'string' || !isWalletAddress(walletAddress)) {
+    return res.status(400).json({ error: 'Missing or invalid walletAddress' });
+  }
+  try {
+    if (await privy.ownsWallet(req, walletAddress)) return next();
+    res.status(401).json({ error: 'Sign in with this wallet to buy with it' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Routes under /:sessionId only answer the owner of the session's wallet; the
+// session is left on `req.paymentSession`
+async function requireSessionOwner(req, res, next) {
+  try {
+    const session = paymentSessions.get(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!(await privy.ownsWallet(req, session.walletAddress))) {
+      return res.status(401).json({ error: 'Sign in with the wallet this purchase was for' });
+    }
+    req.paymentSession = session;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// The fields of a payment session the app is shown. Emails, Stripe and payment
+// intent ids and the like stay on the server.
+const PUBLIC_SESSION_FIELDS = [
+  'id', 'provider', 'status', 'walletAddress', 'timestamp', 'updatedAt',
+  'amount', 'currency', 'solAmount', 'isTokenSwap', 'tokenSymbol', 'tokenAddress', 'tokenAmount',
+  'explorerLink', 'error', 'refundReason'
+];
+
+function publicSession(session) {
+  const fields = {};
+  for (const field of PUBLIC_SESSION_FIELDS) {
+    if (session[field] !== undefined) fields[field] = session[field];
+  }
+  return fields;
+}
+
+// Record a status change; a move the transition table rejects is logged, not fatal,
+// since the on-chain side effect has already happened by the time we record it
+function recordPaymentStatus(sessionId, status, fields) {
+  try {
+    return paymentSessions.transition(sessionId, status, fields);
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      console.warn(error.message);
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Answer with what an onramp operation returns, or the OnrampError it throws.
+// Anything else is logged and reported as `failure`.
+async function respondWith(res, operation, failure) {
+  try {
+    res.json(await operation());
+  } catch (error) {
+    if (error instanceof OnrampError) {
+      return res.status(error.status).json(error.body);
+    }
+    console.error(`${failure}:`, error);
+    res.status(500).json({ error: failure });
+  }
+}
+
+// Providers that deliver themselves may not report a transaction
+const explorerSuffix = sessionData => sessionData.explorerLink
+  ? ` View the transaction on Solana Explorer: ${sessionData.explorerLink}`
+  : '';
 
 // Helper function to generate appropriate status messages
 function getStatusMessage(sessionData) {
@@ -121,10 +262,14 @@ function getStatusMessage(sessionData) {
       return 'Your payment is being processed.';
     case 'payment_completed':
       return 'Payment received. Sending SOL to your wallet...';
+    case 'sol_received':
+      return 'SOL received. Swapping it to your tokens...';
     case 'sol_transferred':
-      return `SOL successfully sent to your wallet! View the transaction on Solana Explorer: ${sessionData.explorerLink}`;
+      return `SOL successfully sent to your wallet!${explorerSuffix(sessionData)}`;
     case 'token_swap_completed':
-      return `Tokens successfully swapped and sent to your wallet! View the transaction on Solana Explorer: ${sessionData.explorerLink}`;
+      return `Tokens successfully swapped and sent to your wallet!${explorerSuffix(sessionData)}`;
+    case 'refunded':
+      return `${sessionData.refundReason}, so your payment has been refunded.`;
     case 'error':
       return `There was an error: ${sessionData.error}`;
     default:
@@ -141,107 +286,326 @@ app.get('/api/health', (req, res) => {
   });
 });
 
-// === 1. Create Stripe Checkout Session with country-specific pricing ===
-app.post('/api/create-checkout-session', async (req, res) => {
+// Currencies checkout can charge in, with their minimums and current USD rates
+app.get('/api/currencies', async (req, res) => {
   try {
-    const { walletAddress, email, country, dollarAmount, solAmount, tokenSymbol, tokenAddress, tokenAmount } = req.body;
-    
-    // Validate required fields
-    if (!walletAddress || typeof walletAddress !== 'string') {
-      return res.status(400).json({ error: 'Missing or invalid walletAddress' });
+    const currencies = [];
+    for (const code of SUPPORTED_CURRENCIES) {
+      currencies.push({ code, minimum: minimumAmount(code), usdRate: await currencyConverter.rate(code) });
     }
+    res.json({ provider: currencyConverter.provider, currencies });
+  } catch (error) {
+    console.error('Error loading currencies:', error);
+    res.status(500).json({ error: 'Could not load exchange rates' });
+  }
+});
 
-    // Validate email format if provided
-    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
-      return res.status(400).json({ error: 'Invalid email format' });
-    }
+// === Locked quotes for fiat token purchases ===
+// A quote fixes what the buyer will receive for a fiat amount. Checkout has to be
+// opened before it expires, and fulfilment refuses to swap (and refunds) if the
+// market has since moved past the slippage band.
+const FIAT_QUOTE_TTL_MS = parseInt(process.env.FIAT_QUOTE_TTL_MS, 10) || 2 * 60 * 1000;
+const FIAT_QUOTE_SLIPPAGE_BPS = parseInt(process.env.FIAT_QUOTE_SLIPPAGE_BPS, 10) || 100; // 1%
 
-    // Validate country code
-    if (country && typeof country !== 'string' || (country && country.length !== 2)) {
-      return res.status(400).json({ error: 'Invalid country code' });
-    }
+const quoteBook = createQuoteBook(FIAT_QUOTE_TTL_MS);
 
-    // Get current SOL price
-    const solPrice = await getCurrentSolPrice();
-    if (!solPrice) {
-      return res.status(500).json({ error: 'Unable to fetch current SOL price' });
-    }
+async function fetchJupiterQuote(outputMint, lamports, slippageBps = 50) {
+  const params = new URLSearchParams({
+    inputMint: SOL_TOKEN_ADDRESS,
+    outputMint,
+    amount: Math.round(lamports).toString(),
+    slippageBps: slippageBps.toString()
+  });
+  const response = await fetch(`https://quote-api.jup.ag/v6/quote?${params}`);
+  if (!response.ok) {
+    throw new Error(`Jupiter API returned error: ${await response.text()}`);
+  }
+  return response.json();
+}
 
-    // Determine currency and price based on country (default to USD)
-    let currency = 'usd';
-    let amount = PRICE_USD; // Default $1 USD (in cents)
+async function getMintDecimals(connection, mint) {
+  const { value } = await connection.getParsedAccountInfo(new PublicKey(mint));
+  const decimals = value?.data?.parsed?.info?.decimals;
+  if (typeof decimals !== 'number') {
+    throw new Error(`Could not read decimals for mint ${mint}`);
+  }
+  return decimals;
+}
 
-    // If country is India, use INR
-    if (country === 'IN') {
-      currency = 'inr';
-      amount = PRICE_INR; // ₹100 INR (in paisa)
-    }
+// === Onramp fees ===
+// Everything between the buyer's payment and the tokens they receive. Stripe's
+// fee, the network fees and our spread come out of the payment before it is
+// converted; Jupiter's route fee is already priced into its quote.
 
-    // Handle custom amount cases
-    let finalSolAmount;
-    
-    // Case 1: If solAmount is specified, we calculate the fiat amount needed
-    if (solAmount && typeof solAmount === 'number' && solAmount > 0) {
-      finalSolAmount = solAmount;
-      // Convert SOL amount to fiat (in smallest currency unit - cents or paisa)
-      amount = Math.round(solAmount * (currency === 'usd' ? solPrice.usd : solPrice.inr) * 100);
-    } 
-    // Case 2: If dollarAmount is specified, calculate SOL equivalent
-    else if (dollarAmount && typeof dollarAmount === 'number' && dollarAmount > 0) {
-      // Convert dollarAmount to cents for Stripe
-      amount = Math.round(dollarAmount * 100);
-      // Calculate SOL amount from the dollar amount
-      const paymentAmount = amount / 100; // Convert cents/paisa to dollars/rupees
-      finalSolAmount = currency === 'usd' 
-        ? paymentAmount / solPrice.usd
-        : paymentAmount / solPrice.inr;
-    } 
-    // Case 3: Use default values if neither is specified
-    else {
-      // Calculate SOL amount based on default payment amount
+function envNumber(name, fallback) {
+  const value = parseFloat(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const STRIPE_FEE_PERCENT = envNumber('STRIPE_FEE_PERCENT', 2.9);
+const STRIPE_FEE_FIXED_USD = envNumber('STRIPE_FEE_FIXED_USD', 0.3);
+const ONRAMP_SPREAD_BPS = envNumber('ONRAMP_SPREAD_BPS', 0);
+const BASE_FEE_LAMPORTS = 5000; // per signature
+const TOKEN_ACCOUNT_SIZE = 165;
+
+// Variable and fixed parts of the charges taken from a payment, in its currency
+async function paymentChargeRates(currency) {
+  return {
+    variable: STRIPE_FEE_PERCENT / 100 + ONRAMP_SPREAD_BPS / 10000,
+    stripeFixed: await currencyConverter.fromUsd(STRIPE_FEE_FIXED_USD, currency)
+  };
+}
+
+// Solana fees for delivering a token purchase: a swap and a transfer, each with
+// the priority fee we'd attach now, plus rent if the buyer needs a token account
+async function estimateDeliveryFees(connection, walletAddress, tokenAddress) {
+  const priorityFee = await getDynamicPriorityFee(connection);
+  const userTokenAccount = await getAssociatedTokenAddress(new PublicKey(tokenAddress), new PublicKey(walletAddress));
+  const accountInfo = await connection.getAccountInfo(userTokenAccount);
+  const rent = accountInfo ? 0 : await connection.getMinimumBalanceForRentExemption(TOKEN_ACCOUNT_SIZE);
+  return {
+    networkLamports: 2 * BASE_FEE_LAMPORTS + rent,
+    priorityLamports: 2 * priorityFee,
+    createsTokenAccount: !accountInfo
+  };
+}
+
+// Fiat value of the fees taken along a Jupiter route. Each hop charges in its
+// input or output mint; the fee's share of that side is applied to the hop's
+// share of the trade.
+function routeFeeValue(jupiterQuote, tradeValue) {
+  return (jupiterQuote.routePlan || []).reduce((total, hop) => {
+    const { swapInfo, percent = 100 } = hop;
+    const side = swapInfo.feeMint === swapInfo.inputMint ? swapInfo.inAmount : swapInfo.outAmount;
+    const share = parseFloat(side) > 0 ? parseFloat(swapInfo.feeAmount) / parseFloat(side) : 0;
+    return total + share * tradeValue * (percent / 100);
+  }, 0);
+}
+
+const roundCents = amount => Math.round(amount * 100) / 100;
+
+// Stripe's quote: the payment buys SOL from our funding wallet, which Jupiter
+// swaps to the token, so the locked amount is what Jupiter quotes right now
+async function quoteStripePurchase(body) {
+  const { walletAddress, tokenSymbol, tokenAddress, fiatAmount: requestedFiatAmount, tokenAmount, currency } = parseQuoteRequest(body);
+
+  const solPrice = await getCurrentSolPrice();
+  if (!solPrice) {
+    throw new OnrampError(500, { error: 'Unable to fetch current SOL price' });
+  }
+  const fiatPerSol = solPrice[currency];
+
+  const connection = new Connection('https://api.mainnet-beta.solana.com', 'confirmed');
+  const decimals = await getMintDecimals(connection, tokenAddress);
+
+  const rates = await paymentChargeRates(currency);
+  const delivery = await estimateDeliveryFees(connection, walletAddress, tokenAddress);
+  const networkFee = (delivery.networkLamports / 1e9) * fiatPerSol;
+  const priorityFee = (delivery.priorityLamports / 1e9) * fiatPerSol;
+
+  // A token amount is priced from Jupiter's rate for 1 SOL, grossed up so the
+  // charges still leave enough to buy it, then charged in whole cents
+  let fiatAmount = requestedFiatAmount;
+  if (!fiatAmount) {
+    const sample = await fetchJupiterQuote(tokenAddress, 1e9);
+    const tokensPerSol = parseFloat(sample.outAmount) / Math.pow(10, decimals);
+    const tradeValue = (tokenAmount / tokensPerSol) * fiatPerSol;
+    fiatAmount = Math.ceil(((tradeValue + networkFee + priorityFee + rates.stripeFixed) / (1 - rates.variable)) * 100) / 100;
+  }
+  if (fiatAmount < minimumAmount(currency)) {
+    throw belowMinimumError(currency);
+  }
+
+  const stripeFee = roundCents(fiatAmount * STRIPE_FEE_PERCENT / 100 + rates.stripeFixed);
+  const spread = roundCents(fiatAmount * ONRAMP_SPREAD_BPS / 10000);
+  const tradeValue = fiatAmount - stripeFee - spread - networkFee - priorityFee;
+  if (tradeValue <= 0) {
+    throw new OnrampError(400, {
+      ...belowMinimumError(currency).body,
+      error: `${fiatAmount.toFixed(2)} ${currency.toUpperCase()} doesn't cover the fees for this purchase`
+    });
+  }
+  const solAmount = parseFloat((tradeValue / fiatPerSol).toFixed(8));
+
+  // The locked amount is what Jupiter quotes for that SOL right now
+  const jupiterQuote = await fetchJupiterQuote(tokenAddress, solAmount * 1e9);
+  const lockedOutAmount = BigInt(jupiterQuote.outAmount);
+  const minOutAmount = lockedOutAmount * BigInt(10000 - FIAT_QUOTE_SLIPPAGE_BPS) / 10000n;
+  const lockedTokenAmount = Number(lockedOutAmount) / Math.pow(10, decimals);
+  const routeFee = routeFeeValue(jupiterQuote, tradeValue);
+
+  const quote = quoteBook.issue({
+    provider: 'stripe',
+    providerName: 'Stripe',
+    walletAddress,
+    tokenSymbol,
+    tokenAddress,
+    fiatAmount,
+    fiatCurrency: currency,
+    solAmount,
+    tokenAmount: lockedTokenAmount,
+    minTokenAmount: Number(minOutAmount) / Math.pow(10, decimals),
+    minOutAmount: minOutAmount.toString(),
+    pricePerToken: fiatAmount / lockedTokenAmount,
+    // Price before any fees, from the SOL rate and Jupiter's route
+    marketPricePerToken: (tradeValue + routeFee) / lockedTokenAmount,
+    fees: {
+      provider: stripeFee,
+      network: networkFee,
+      priority: priorityFee,
+      route: routeFee,
+      spread,
+      total: stripeFee + networkFee + priorityFee + routeFee + spread
+    },
+    createsTokenAccount: delivery.createsTokenAccount,
+    slippageBps: FIAT_QUOTE_SLIPPAGE_BPS,
+    estimatedProcessingTime: '1-2 minutes',
+    minimumAmount: minimumAmount(currency)
+  });
+
+  console.log(`Locked quote ${quote.quoteId}: ${fiatAmount} ${currency} -> ${lockedTokenAmount} ${tokenSymbol} until ${quote.expiresAt}`);
+  return quote;
+}
+
+app.post('/api/fiat-quote', (req, res) => respondWith(res, () => quoteStripePurchase(req.body), 'Could not create a quote'));
+
+// === 1. Create Stripe Checkout Session with country-specific pricing ===
+async function createStripeCheckout(body = {}, buyer = {}) {
+  const { walletAddress, email, country, quoteId } = body;
+  const { dollarAmount, solAmount } = body;
+  let { currency: requestedCurrency, tokenSymbol, tokenAddress, tokenAmount } = body;
+  
+  // Validate required fields
+  if (!walletAddress || typeof walletAddress !== 'string') {
+    throw new OnrampError(400, { error: 'Missing or invalid walletAddress' });
+  }
+
+  // A locked quote decides the amounts; it can only be used once, before it expires.
+  // Token purchases need one, so their price is always one we quoted.
+  if ((tokenSymbol || tokenAddress) && !quoteId) {
+    throw new OnrampError(400, { error: 'Token purchases need a quote; request one first' });
+  }
+  let quote = null;
+  if (quoteId) {
+    quote = quoteBook.take(quoteId, walletAddress, 'stripe');
+    ({ fiatCurrency: requestedCurrency, tokenSymbol, tokenAddress, tokenAmount } = quote);
+  }
+
+  // Validate email format if provided
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new OnrampError(400, { error: 'Invalid email format' });
+  }
+
+  // Validate country code
+  if (country && typeof country !== 'string' || (country && country.length !== 2)) {
+    throw new OnrampError(400, { error: 'Invalid country code' });
+  }
+
+  // Validate explicit currency (e.g. "buy ₹500 of SOL")
+  if (requestedCurrency && !isSupportedCurrency(requestedCurrency)) {
+    throw new OnrampError(400, { error: 'Unsupported currency' });
+  }
+
+  // Get current SOL price
+  const solPrice = await getCurrentSolPrice();
+  if (!solPrice) {
+    throw new OnrampError(500, { error: 'Unable to fetch current SOL price' });
+  }
+
+  // An explicit currency from the buy request wins over the country default
+  const currency = requestedCurrency || currencyForCountry(country);
+  let amount = defaultPrice(currency);
+
+  // Handle custom amount cases
+  let finalSolAmount;
+  
+  // A locked quote already fixed both sides
+  if (quote) {
+    amount = Math.round(quote.fiatAmount * 100);
+    finalSolAmount = quote.solAmount;
+  }
+  // Case 1: If solAmount is specified, we calculate the fiat amount needed
+  else if (solAmount && typeof solAmount === 'number' && solAmount > 0) {
+    finalSolAmount = solAmount;
+    // Convert SOL amount to fiat (in smallest currency unit - cents or paisa)
+    amount = Math.round(solAmount * solPrice[currency] * 100);
+  } 
+  // Case 2: If dollarAmount is specified, calculate SOL equivalent
+  else if (dollarAmount && typeof dollarAmount === 'number' && dollarAmount > 0) {
+    // Convert dollarAmount to cents for Stripe
+    amount = Math.round(dollarAmount * 100);
+    // Calculate SOL amount from the dollar amount
     const paymentAmount = amount / 100; // Convert cents/paisa to dollars/rupees
-      finalSolAmount = currency === 'usd' 
-      ? paymentAmount / solPrice.usd
-      : paymentAmount / solPrice.inr;
-    }
+    finalSolAmount = paymentAmount / solPrice[currency];
+  } 
+  // Case 3: Use default values if neither is specified
+  else {
+    // Calculate SOL amount based on default payment amount
+    const paymentAmount = amount / 100; // Convert cents/paisa to dollars/rupees
+    finalSolAmount = paymentAmount / solPrice[currency];
+  }
 
-    // Validate amount is a positive number
-    if (typeof amount !== 'number' || amount <= 0) {
-      return res.status(500).json({ error: 'Invalid price configuration' });
-    }
+  // Validate amount is a positive number
+  if (typeof amount !== 'number' || amount <= 0) {
+    throw new OnrampError(500, { error: 'Invalid price configuration' });
+  }
 
-    // Validate and get URLs
-    const backendUrl = process.env.BACKEND_URL || 'http://localhost:4000';
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    
-    if (!backendUrl || !frontendUrl) {
-      return res.status(500).json({ error: 'Missing required URL configuration' });
-    }
+  if (amount / 100 < minimumAmount(currency)) {
+    throw belowMinimumError(currency);
+  }
 
-    // Round the finalSolAmount to 8 decimal places for precision
-    finalSolAmount = parseFloat(finalSolAmount.toFixed(8));
+  // Validate and get URLs
+  const backendUrl = process.env.BACKEND_URL || 'http://localhost:4000';
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  
+  if (!backendUrl || !frontendUrl) {
+    throw new OnrampError(500, { error: 'Missing required URL configuration' });
+  }
 
-    // Format sol amount for display with 4 decimal places
-    const displaySolAmount = finalSolAmount.toFixed(4);
+  // Round the finalSolAmount to 8 decimal places for precision
+  finalSolAmount = parseFloat(finalSolAmount.toFixed(8));
 
-    // Create a unique session ID
-    const uniqueSessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-    
-    // Determine if this is a token swap based on whether it's a Solana token
-    const isTokenSwap = Boolean(tokenSymbol);
-    
-    // Prepare product name and description based on purchase type
-    let productName, productDescription;
-    
-    if (isTokenSwap) {
-      productName = `${tokenSymbol} Token Purchase (via SOL)`;
-      productDescription = `Buy ${tokenAmount || 'tokens'} ${tokenSymbol} using SOL on Solana Mainnet`;
-    } else {
-      productName = `Solana Mainnet Top-up (${displaySolAmount} SOL)`;
-      productDescription = `Adds ${displaySolAmount} SOL to your Solana wallet on Mainnet`;
-    }
+  // Format sol amount for display with 4 decimal places
+  const displaySolAmount = finalSolAmount.toFixed(4);
 
-    const session = await stripe.checkout.sessions.create({
+  // Create a unique session ID
+  const uniqueSessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+  
+  // Determine if this is a token swap based on whether it's a Solana token
+  const isTokenSwap = Boolean(tokenSymbol);
+  
+  // Prepare product name and description based on purchase type
+  let productName, productDescription;
+  
+  if (isTokenSwap) {
+    productName = `${tokenSymbol} Token Purchase (via SOL)`;
+    productDescription = `Buy ${tokenAmount || 'tokens'} ${tokenSymbol} using SOL on Solana Mainnet`;
+  } else {
+    productName = `Solana Mainnet Top-up (${displaySolAmount} SOL)`;
+    productDescription = `Adds ${displaySolAmount} SOL to your Solana wallet on Mainnet`;
+  }
+
+  // The session holds its amount against the purchase limits from here on
+  await purchaseLimits.reserve({ walletAddress, email: buyer.email }, amount / 100, currency, {
+    id: uniqueSessionId,
+    provider: 'stripe',
+    walletAddress,
+    email: buyer.email || null,
+    amount,
+    currency,
+    solAmount: finalSolAmount,
+    isTokenSwap: isTokenSwap,
+    tokenSymbol: tokenSymbol || null,
+    tokenAddress: tokenAddress || null,
+    tokenAmount: tokenAmount || null,
+    quoteId: quote ? quote.quoteId : null,
+    fees: quote ? quote.fees : null,
+    minOutAmount: quote ? quote.minOutAmount : null
+  });
+
+  let session;
+  try {
+    session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       mode: 'payment',
       line_items: [
@@ -267,80 +631,381 @@ app.post('/api/create-checkout-session', async (req, res) => {
         tokenSymbol: tokenSymbol || '',
         tokenAddress: tokenAddress || '',
         tokenAmount: tokenAmount ? tokenAmount.toString() : '',
+        ...(quote ? {
+          quoteId: quote.quoteId,
+          minOutAmount: quote.minOutAmount,
+          slippageBps: quote.slippageBps.toString(),
+          quoteExpiresAt: quote.expiresAt
+        } : {})
       },
-      success_url: `${backendUrl}/payment-success?amount=${finalSolAmount}&wallet=${walletAddress}&success=true&session_id=${uniqueSessionId}${isTokenSwap ? `&token_swap=true&token_symbol=${tokenSymbol}&token_address=${tokenAddress}` : ''}`,
+      success_url: `${backendUrl}/payment-success?session_id=${uniqueSessionId}`,
+      // Unpaid checkouts stop counting against purchase limits after 30 minutes
+      expires_at: Math.floor(Date.now() / 1000) + 30 * 60,
       cancel_url: `${frontendUrl}?canceled=true`,
       customer_email: email || undefined,
     });
+  } catch (error) {
+    // Nothing was charged, so the session and its hold go away
+    paymentSessions.discard(uniqueSessionId);
+    throw error;
+  }
+  paymentSessions.setStripeSessionId(uniqueSessionId, session.id);
 
-    // Store session for later reference
-    paymentSessions.set(uniqueSessionId, {
-      id: uniqueSessionId,
-      stripeSessionId: session.id,
-      walletAddress,
-      amount: session.amount_total,
-      currency: session.currency,
-      status: 'created',
-      timestamp: new Date().toISOString(),
-      solAmount: finalSolAmount,
-      isTokenSwap: isTokenSwap,
-      tokenSymbol: tokenSymbol || null,
-      tokenAddress: tokenAddress || null,
-      tokenAmount: tokenAmount || null
-    });
+  return {
+    provider: 'stripe',
+    url: session.url,
+    solAmount: finalSolAmount,
+    fiatAmount: amount / 100,
+    fiatCurrency: currency,
+    sessionId: uniqueSessionId,
+    isTokenSwap: isTokenSwap,
+    tokenSymbol: tokenSymbol || null,
+    tokenAmount: tokenAmount || null
+  };
+}
+
+app.post('/api/create-checkout-session', requireBuyerWallet, (req, res) => respondWith(res, async () => createStripeCheckout(req.body, await identifyBuyer(req)), 'Could not create checkout session'));
 
-    res.json({ 
-      url: session.url, 
-      solAmount: finalSolAmount,
-      fiatAmount: amount / 100,
-      fiatCurrency: currency,
-      sessionId: uniqueSessionId,
-      isTokenSwap: isTokenSwap,
-      tokenSymbol: tokenSymbol || null,
-      tokenAmount: tokenAmount || null
+// === 2. Stripe webhook: fulfil paid checkout sessions ===
+// Delivery uses only the wallet and amounts Stripe holds in the session metadata,
+// so nothing the browser sends can change what gets delivered or to whom.
+async function handleStripeWebhook(req) {
+  let event;
+  try {
+    event = stripe.webhooks.constructEvent(req.rawBody, req.headers['stripe-signature'], process.env.STRIPE_WEBHOOK_SECRET);
+  } catch (error) {
+    console.error('Stripe webhook signature verification failed:', error.message);
+    throw new OnrampError(400, { error: 'Invalid signature' });
+  }
+  if (event.livemode !== STRIPE_LIVEMODE) {
+    console.error(`Rejecting ${event.livemode ? 'live' : 'test'} mode webhook ${event.id} on a ${STRIPE_LIVEMODE ? 'live' : 'test'} mode backend`);
+    throw new OnrampError(400, { error: 'Webhook mode does not match this backend' });
+  }
+
+  if (event.type === 'checkout.session.completed') {
+    // Acknowledge right away; Stripe retries webhooks that take too long
+    handleCheckoutCompleted(event.data.object)
+      .catch(error => console.error('Error handling checkout.session.completed:', error));
+  }
+
+  return { received: true };
+}
+
+app.post('/api/stripe/webhook', (req, res) => respondWith(res, () => handleStripeWebhook(req), 'Could not handle webhook'));
+
+async function handleCheckoutCompleted(checkoutSession) {
+  const metadata = checkoutSession.metadata || {};
+  const sessionId = metadata.sessionId;
+  if (!sessionId || !metadata.walletAddress) {
+    console.warn(`Checkout session ${checkoutSession.id} has no payment session metadata, ignoring`);
+    return;
+  }
+  if (checkoutSession.payment_status !== 'paid') {
+    console.log(`Checkout session ${checkoutSession.id} is ${checkoutSession.payment_status}, waiting for payment`);
+    return;
+  }
+
+  // Sessions the store doesn't know (e.g. created before it existed) are rebuilt from metadata
+  if (!paymentSessions.get(sessionId)) {
+    paymentSessions.create({
+      id: sessionId,
+      stripeSessionId: checkoutSession.id,
+      walletAddress: metadata.walletAddress,
+      amount: checkoutSession.amount_total,
+      currency: checkoutSession.currency,
+      solAmount: parseFloat(metadata.solAmount),
+      isTokenSwap: metadata.isTokenSwap === 'true',
+      tokenSymbol: metadata.tokenSymbol || null,
+      tokenAddress: metadata.tokenAddress || null,
+      tokenAmount: metadata.tokenAmount ? parseFloat(metadata.tokenAmount) : null,
+      quoteId: metadata.quoteId || null,
+      minOutAmount: metadata.minOutAmount || null
     });
-  } catch (e) {
-    console.error('Stripe session error:', e);
-    // Don't expose internal error details to client
-    res.status(500).json({ error: 'Could not create checkout session' });
   }
+
+  // Stripe can deliver the same event more than once; only the first one fulfils
+  if (!recordPaymentStatus(sessionId, 'payment_completed', { paymentIntentId: checkoutSession.payment_intent })) return;
+  await fulfilPaymentSession(sessionId, {
+    walletAddress: metadata.walletAddress,
+    solAmount: parseFloat(metadata.solAmount),
+    isTokenSwap: metadata.isTokenSwap === 'true',
+    tokenAddress: metadata.tokenAddress,
+    tokenSymbol: metadata.tokenSymbol,
+    minOutAmount: metadata.minOutAmount || null
+  });
+}
+
+// === Onramp providers ===
+// Stripe is implemented above; see onramp/index.js for the provider interface
+const stripeOnramp = {
+  id: 'stripe',
+  name: 'Stripe',
+  enabled: Boolean(process.env.STRIPE_SECRET_KEY_LIVE),
+  deliversTokens: false,
+  quote: quoteStripePurchase,
+  checkout: createStripeCheckout,
+  status: async session => session,
+  webhook: handleStripeWebhook
+};
+
+const onrampProviders = createOnrampRegistry([
+  stripeOnramp,
+  createRampProvider({
+    paymentSessions,
+    recordPaymentStatus,
+    purchaseLimits,
+    quotes: quoteBook,
+    backendUrl: process.env.BACKEND_URL || 'http://localhost:4000',
+    frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000'
+  }),
+  createFakeProvider({ paymentSessions, recordPaymentStatus, purchaseLimits, quotes: quoteBook, currencyConverter })
+]);
+
+// What a buyer can still spend, in `currency`, and what verifying an email unlocks
+app.get('/api/purchase-limits/:walletAddress', requireWalletOwner, (req, res) => {
+  const currency = req.query.currency || 'usd';
+  if (!isSupportedCurrency(currency)) {
+    return res.status(400).json({ error: 'Unsupported currency' });
+  }
+  respondWith(res, async () => purchaseLimits.allowance(await identifyBuyer(req), currency), 'Could not load purchase limits');
 });
 
-// === New endpoint to handle payment success and trigger SOL transfer ===
-app.get('/payment-success', async (req, res) => {
-  const { session_id, wallet, amount, token_swap, token_symbol, token_address } = req.query;
-  
-  console.log(`Payment success for session: ${session_id}, wallet: ${wallet}, amount: ${amount}, token_swap: ${token_swap}`);
-  
-  // Create minimal session data
-  const sessionData = { 
-    walletAddress: wallet || 'unknown',
-    status: 'payment_completed',
-    amount: amount || 0.1,
-    sessionId: session_id || '',
-    isTokenSwap: false, // default to false
-    tokenSymbol: token_symbol || '',
-    tokenAddress: token_address || ''
+app.get('/api/onramp/providers', (req, res) => {
+  res.json({ providers: onrampProviders.list().map(({ id, name }) => ({ id, name })) });
+});
+
+// Quote the same purchase with every provider, most tokens first. Providers that
+// can't quote it are listed as unavailable; if none can, the first refusal is returned.
+app.post('/api/onramp/quotes', async (req, res) => {
+  const providers = onrampProviders.list();
+  const results = await Promise.allSettled(providers.map(provider => provider.quote(req.body)));
+
+  const quotes = [];
+  const unavailable = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      quotes.push(result.value);
+      return;
+    }
+    const { id, name } = providers[i];
+    if (!(result.reason instanceof OnrampError)) {
+      console.error(`Error quoting with ${name}:`, result.reason);
+    }
+    unavailable.push({ provider: id, providerName: name, error: result.reason.body || { error: 'Could not create a quote' } });
+  });
+
+  if (quotes.length === 0) {
+    const refusal = results.find(result => result.reason instanceof OnrampError);
+    return refusal
+      ? res.status(refusal.reason.status).json(refusal.reason.body)
+      : res.status(500).json({ error: 'Could not create a quote' });
+  }
+  quotes.sort((a, b) => b.tokenAmount - a.tokenAmount);
+  res.json({ quotes, unavailable });
+});
+
+app.post('/api/onramp/:provider/quote', (req, res) => {
+  const provider = onrampProviders.get(req.params.provider);
+  if (!provider) {
+    return res.status(404).json({ error: 'Unknown onramp provider' });
+  }
+  respondWith(res, () => provider.quote(req.body), 'Could not create a quote');
+});
+
+app.post('/api/onramp/:provider/checkout', requireBuyerWallet, (req, res) => {
+  const provider = onrampProviders.get(req.params.provider);
+  if (!provider) {
+    return res.status(404).json({ error: 'Unknown onramp provider' });
+  }
+  respondWith(res, async () => provider.checkout(req.body, await identifyBuyer(req)), 'Could not start checkout');
+});
+
+app.post('/api/onramp/:provider/webhook', (req, res) => {
+  const provider = onrampProviders.get(req.params.provider);
+  if (!provider) {
+    return res.status(404).json({ error: 'Unknown onramp provider' });
+  }
+  respondWith(res, () => provider.webhook(req), 'Could not handle webhook');
+});
+
+// Fulfilments running in this process, so a retry joins the one in flight
+// instead of racing it to the ledger
+const fulfilmentsInFlight = new Map(); // sessionId -> Promise
+
+// Failed deliveries a paid session gets before its payment is refunded
+const MAX_DELIVERY_ATTEMPTS = parseInt(process.env.MAX_DELIVERY_ATTEMPTS, 10) || 3;
+
+// Deliver a paid session. Safe to call again for the same session: the ledger
+// makes every transaction go out at most once. Resolves to whether the delivery
+// had already happened before this call.
+function fulfilPaymentSession(sessionId, order) {
+  if (!fulfilmentsInFlight.has(sessionId)) {
+    const fulfilment = deliverOrder(sessionId, order)
+      .finally(() => fulfilmentsInFlight.delete(sessionId));
+    fulfilmentsInFlight.set(sessionId, fulfilment);
+  }
+  return fulfilmentsInFlight.get(sessionId);
+}
+
+async function deliverOrder(sessionId, order) {
+  try {
+    if (order.isTokenSwap) {
+      const result = await swapSolToToken(order.walletAddress, order.tokenAddress, order.solAmount, sessionId, order.tokenSymbol || 'Token', order.minOutAmount);
+      recordPaymentStatus(sessionId, 'token_swap_completed', {
+        swapTxId: result.swapTxId,
+        transferTxId: result.transferTxId,
+        tokenAmount: result.outputAmount,
+        explorerLink: result.explorerLink
+      });
+      paymentSessions.recordAudit({ sessionId, action: 'delivered', details: { swapTxId: result.swapTxId, transferTxId: result.transferTxId } });
+      return result.alreadySent;
+    }
+
+    const { signature, explorerLink, alreadySent } = await transferSol(order.walletAddress, order.solAmount, sessionId);
+    recordPaymentStatus(sessionId, 'sol_transferred', {
+      signature,
+      explorerLink,
+      transferTimestamp: new Date().toISOString(),
+      transferredSolAmount: order.solAmount
+    });
+    paymentSessions.recordAudit({ sessionId, action: 'delivered', details: { signature } });
+    return alreadySent;
+  } catch (error) {
+    if (error instanceof QuoteOutOfBandError) {
+      await refundPaymentSession(sessionId, error.message);
+      return false;
+    }
+    console.error(`Error fulfilling payment session ${sessionId}:`, error);
+
+    // A transaction that may still land isn't a failed attempt
+    if (error instanceof TransferPendingError) {
+      recordPaymentStatus(sessionId, 'error', { error: error.message });
+      paymentSessions.recordAudit({ sessionId, action: 'delivery_pending', details: { signature: error.signature } });
+      return false;
+    }
+
+    const deliveryAttempts = (paymentSessions.get(sessionId).deliveryAttempts || 0) + 1;
+    recordPaymentStatus(sessionId, 'error', { error: error.message, deliveryAttempts });
+    paymentSessions.recordAudit({ sessionId, action: 'delivery_failed', details: { attempt: deliveryAttempts, error: error.message } });
+    if (deliveryAttempts >= MAX_DELIVERY_ATTEMPTS) {
+      await refundPaymentSession(sessionId, `We couldn't deliver your purchase after ${deliveryAttempts} attempts`);
+    }
+    return false;
+  }
+}
+
+// Ledger entries for a session that could still land on-chain, reconciled first
+async function pendingTransfers(sessionId) {
+  const connection = new Connection('https://api.mainnet-beta.solana.com', 'confirmed');
+  const pending = [];
+  for (const transfer of paymentSessions.transfers(sessionId).filter(transfer => transfer.status === 'sent')) {
+    const status = await reconcileTransfer(connection, transfer);
+    paymentSessions.setTransferStatus(transfer.key, status);
+    if (status === 'sent') pending.push(transfer);
+  }
+  return pending;
+}
+
+// Return the buyer's payment in full when delivery is refused or keeps failing.
+// The idempotency key stops a retried fulfilment from refunding twice, and no
+// refund goes out while one of our transactions for the session may still land.
+async function refundPaymentSession(sessionId, reason) {
+  const session = paymentSessions.get(sessionId);
+  try {
+    const pending = await pendingTransfers(sessionId);
+    if (pending.length) {
+      console.warn(`Not refunding payment session ${sessionId} yet: ${pending.map(transfer => transfer.signature).join(', ')} may still land`);
+      paymentSessions.recordAudit({ sessionId, action: 'refund_deferred', details: { reason, pending: pending.map(transfer => transfer.signature) } });
+      return;
+    }
+
+    const refund = await stripe.refunds.create(
+      { payment_intent: session.paymentIntentId },
+      { idempotencyKey: `refund_${sessionId}` }
+    );
+    console.log(`Refunded payment session ${sessionId} (${refund.id}): ${reason}`);
+    recordPaymentStatus(sessionId, 'refunded', { refundId: refund.id, refundReason: reason });
+    paymentSessions.recordAudit({ sessionId, action: 'refunded', details: { refundId: refund.id, reason } });
+  } catch (error) {
+    console.error(`Error refunding payment session ${sessionId}:`, error);
+    recordPaymentStatus(sessionId, 'error', { error: `${reason}. The refund failed: ${error.message}` });
+    paymentSessions.recordAudit({ sessionId, action: 'refund_failed', details: { reason, error: error.message } });
+  }
+}
+
+// What the chat needs to show a paid session and offer a retry
+function deliveryState(session) {
+  return {
+    ...publicSession(session),
+    explorerLink: session.explorerLink || null,
+    message: getStatusMessage(session),
+    deliveryAttempts: session.deliveryAttempts || 0,
+    maxDeliveryAttempts: MAX_DELIVERY_ATTEMPTS,
+    deliveryInProgress: fulfilmentsInFlight.has(session.id)
   };
-  
-  // Get session data if available for additional info
-  if (session_id && paymentSessions.has(session_id)) {
-    const storedSession = paymentSessions.get(session_id);
-    sessionData.status = 'payment_completed';
-    sessionData.solAmount = storedSession.solAmount;
-    sessionData.isTokenSwap = !!storedSession.isTokenSwap; // force boolean
-    sessionData.tokenSymbol = storedSession.tokenSymbol;
-    sessionData.tokenAddress = storedSession.tokenAddress;
-    sessionData.tokenAmount = storedSession.tokenAmount;
-  } else if (token_swap) {
-    sessionData.isTokenSwap = token_swap === 'true';
-    sessionData.tokenSymbol = token_symbol;
-    sessionData.tokenAddress = token_address;
+}
+
+// Retry delivery of a paid session, e.g. after an error. The ledger is reconciled
+// against the chain first, so a transfer that actually landed is reported as
+// already fulfilled instead of being sent again. A session out of delivery
+// attempts is refunded instead.
+app.post('/api/payment-status/:sessionId/fulfil', requireSessionOwner, async (req, res) => {
+  const { sessionId } = req.params;
+  const session = req.paymentSession;
+  if (session.status === 'created') {
+    return res.status(409).json({ error: 'Payment has not completed yet' });
+  }
+  const provider = onrampProviders.get(session.provider || 'stripe');
+  if (provider?.deliversTokens) {
+    return res.status(409).json({ error: `${provider.name} delivers this purchase itself` });
+  }
+
+  let alreadyFulfilled = TERMINAL_STATUSES.includes(session.status);
+  if (!alreadyFulfilled && (session.deliveryAttempts || 0) >= MAX_DELIVERY_ATTEMPTS) {
+    // Out of attempts and the refund didn't go through last time
+    paymentSessions.recordAudit({ sessionId, action: 'refund_requested', actor: 'customer' });
+    await refundPaymentSession(sessionId, `We couldn't deliver your purchase after ${session.deliveryAttempts} attempts`);
+  } else if (!alreadyFulfilled) {
+    console.log(`Retrying fulfilment for session ${sessionId} (${session.status})`);
+    paymentSessions.recordAudit({ sessionId, action: 'retry_requested', actor: 'customer', details: { status: session.status } });
+    alreadyFulfilled = await fulfilPaymentSession(sessionId, {
+      walletAddress: session.walletAddress,
+      solAmount: parseFloat(session.solAmount),
+      isTokenSwap: Boolean(session.isTokenSwap),
+      tokenAddress: session.tokenAddress,
+      tokenSymbol: session.tokenSymbol,
+      minOutAmount: session.minOutAmount || null
+    });
   }
+
+  res.json({ ...deliveryState(paymentSessions.get(sessionId)), alreadyFulfilled });
+});
+
+// === Delivery recovery ===
+// A wallet's paid purchases we haven't delivered yet, which the chat offers to retry
+app.get('/api/recovery/:walletAddress', requireWalletOwner, (req, res) => {
+  const payments = paymentSessions.undelivered(req.params.walletAddress)
+    // Providers that deliver themselves recover on their side
+    .filter(session => !onrampProviders.get(session.provider || 'stripe')?.deliversTokens)
+    .map(deliveryState);
+  res.json({ payments, maxDeliveryAttempts: MAX_DELIVERY_ATTEMPTS });
+});
+
+// Everything recovery did for a session, for support
+app.get('/api/payment-status/:sessionId/audit', requireSessionOwner, (req, res) => {
+  const { sessionId } = req.params;
+  res.json({ sessionId, entries: paymentSessions.auditLog(sessionId), history: paymentSessions.history(sessionId) });
+});
+
+// === Page Stripe redirects to after checkout; fulfilment happens in the webhook ===
+app.get('/payment-success', (req, res) => {
+  const { session_id } = req.query;
+  
+  console.log(`Checkout returned for session: ${session_id}`);
   
   const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
   
-  // Send HTML that immediately notifies parent window and closes itself
+  // The chat follows the session status itself, so this tab only needs to close
   res.send(`
     <!DOCTYPE html>
     <html>
@@ -351,49 +1016,17 @@ app.get('/payment-success', async (req, res) => {
         .success { color: #4CAF50; }
       </style>
       <script>
-        // Execute immediately when page loads
-        function notifyParentAndClose() {
-          console.log('Attempting to close payment window...');
-          try {
-            if (window.opener && !window.opener.closed) {
-              window.opener.postMessage({
-                type: 'PAYMENT_COMPLETE',
-                sessionId: '${session_id || ''}',
-                walletAddress: '${wallet || ''}',
-                amount: ${amount || 0.1},
-                status: 'payment_completed',
-                isTokenSwap: ${sessionData.isTokenSwap ? 'true' : 'false'},
-                tokenSymbol: '${sessionData.tokenSymbol || ''}',
-                tokenAddress: '${sessionData.tokenAddress || ''}',
-                tokenAmount: ${sessionData.tokenAmount || 0}
-              }, '*');
-              console.log('Sent payment complete message to parent');
-              
-              // Close this tab immediately
-              window.close();
-              
-              // Fallback redirect after 500ms if window.close() doesn't work
-              setTimeout(function() {
-                window.location.href = "${frontendUrl}";
-              }, 500);
-            } else {
-              // If opener is not available, just redirect
-              window.location.href = "${frontendUrl}";
-            }
-          } catch (err) {
-            console.error('Error:', err);
-            // Redirect on error
-            window.location.href = "${frontendUrl}";
-          }
-        }
+        window.close();
         
-        // Call immediately without waiting for DOMContentLoaded
-        notifyParentAndClose();
+        // Fallback redirect if the tab wasn't opened by the app
+        setTimeout(function() {
+          window.location.href = "${frontendUrl}";
+        }, 500);
       </script>
     </head>
     <body>
       <h1 class="success">Payment Successful!</h1>
-      <p>Redirecting to the app...</p>
+      <p>Your purchase is being delivered. You can return to the app.</p>
     </body>
     </html>
   `);
@@ -406,14 +1039,19 @@ app.get('/api/payment-status/:sessionId', async (req, res) => {
   console.log(`Checking payment status for session: ${sessionId}`);
   
   try {
-    // First check our local cache
-    if (paymentSessions.has(sessionId)) {
-      const sessionData = paymentSessions.get(sessionId);
-      console.log(`Found session ${sessionId} in cache:`, sessionData);
+    // First check our session store
+    const stored = paymentSessions.get(sessionId);
+    if (stored) {
+      if (!(await privy.ownsWallet(req, stored.walletAddress))) {
+        return res.status(401).json({ error: 'Sign in with the wallet this purchase was for' });
+      }
+      const provider = onrampProviders.get(stored.provider || 'stripe');
+      const sessionData = provider ? await provider.status(stored) : stored;
+      console.log(`Found session ${sessionId} in store: ${sessionData.status}`);
       
       // Format response with explorer link if available
       const response = {
-        ...sessionData,
+        ...publicSession(sessionData),
         explorerLink: sessionData.explorerLink || null,
         message: getStatusMessage(sessionData)
       };
@@ -421,8 +1059,8 @@ app.get('/api/payment-status/:sessionId', async (req, res) => {
       return res.json(response);
     }
     
-    // If not in cache, try to fetch from Stripe
-    console.log(`Session ${sessionId} not found in cache, checking Stripe...`);
+    // If not in the store, try to fetch from Stripe
+    console.log(`Session ${sessionId} not found in store, checking Stripe...`);
     const session = await stripe.checkout.sessions.retrieve(sessionId);
     if (!session) {
       console.log(`Session ${sessionId} not found in Stripe`);
@@ -430,6 +1068,9 @@ app.get('/api/payment-status/:sessionId', async (req, res) => {
     }
     
     console.log(`Retrieved session ${sessionId} from Stripe`);
+    if (!(await privy.ownsWallet(req, session.metadata?.walletAddress))) {
+      return res.status(401).json({ error: 'Sign in with the wallet this purchase was for' });
+    }
     
     // Return basic session info
     return res.json({
@@ -451,65 +1092,158 @@ app.get('/api/payment-status/:sessionId', async (req, res) => {
   }
 });
 
-// API endpoint to transfer SOL directly to a wallet
-app.post('/api/transfer-sol', async (req, res) => {
-  try {
-    const { walletAddress, amount = SOL_AMOUNT, sessionId, retryCount = 0 } = req.body;
-    
-    if (!walletAddress) {
-      return res.status(400).json({ 
-        status: 'error', 
-        error: 'Wallet address is required' 
-      });
+// === Exactly-once delivery ===
+// Every outbound transaction is written to the fulfilment ledger under an
+// idempotency key (`<payment session>:<kind>`) before it is broadcast. A key
+// that is already in the ledger is only sent again once the chain shows the
+// earlier transaction failed or can no longer land.
+
+// The market moved past a locked quote's slippage band before the swap
+class QuoteOutOfBandError extends Error {
+  constructor(tokenSymbol, minOutAmount, quotedOutAmount) {
+    super(`The price of ${tokenSymbol} moved beyond the quoted slippage band`);
+    this.name = 'QuoteOutOfBandError';
+    this.minOutAmount = minOutAmount;
+    this.quotedOutAmount = quotedOutAmount;
+  }
+}
+
+class TransferPendingError extends Error {
+  constructor(transfer) {
+    super(`Transaction ${transfer.signature} for ${transfer.key} is still pending; not sending it again`);
+    this.name = 'TransferPendingError';
+    this.signature = transfer.signature;
+  }
+}
+
+// A sent transaction failed on-chain or expired without landing, so it is safe
+// to build and send a new one
+class TransferDroppedError extends Error {
+  constructor(transfer, status) {
+    super(`Transaction ${transfer.signature} for ${transfer.key} ${status === 'failed' ? 'failed' : 'expired before it landed'}`);
+    this.name = 'TransferDroppedError';
+    this.signature = transfer.signature;
+  }
+}
+
+// How long a send waits for its transaction to confirm before leaving it pending
+const CONFIRMATION_TIMEOUT_MS = parseInt(process.env.CONFIRMATION_TIMEOUT_MS, 10) || 120 * 1000;
+const CONFIRMATION_POLL_MS = 2000;
+
+// Look up a ledger entry on-chain: 'confirmed', 'failed', 'expired' (never
+// landed and its blockhash is too old to) or 'sent' (may still land)
+async function reconcileTransfer(connection, transfer) {
+  const { value } = await connection.getSignatureStatus(transfer.signature, { searchTransactionHistory: true });
+  if (value) {
+    if (value.err) return 'failed';
+    return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized' ? 'confirmed' : 'sent';
+  }
+  if (transfer.lastValidBlockHeight == null) return 'sent';
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  return blockHeight > transfer.lastValidBlockHeight ? 'expired' : 'sent';
+}
+
+// Reconcile a ledger entry until it settles. Resolves once it is confirmed; a
+// failed or expired one throws TransferDroppedError, and one that is still
+// pending at the timeout throws TransferPendingError, so the session stays
+// retryable instead of being reported as delivered.
+async function awaitConfirmation(connection, transfer) {
+  const deadline = Date.now() + CONFIRMATION_TIMEOUT_MS;
+  for (;;) {
+    const status = await reconcileTransfer(connection, transfer);
+    if (status !== 'sent') {
+      paymentSessions.setTransferStatus(transfer.key, status);
+      if (status === 'confirmed') return;
+      throw new TransferDroppedError(transfer, status);
     }
-    
-    if (!fundingKeypair) {
-      return res.status(500).json({ 
-        status: 'error', 
-        error: 'Funding wallet not initialized. Check FUNDING_WALLET_SECRET environment variable.' 
-      });
+    if (Date.now() >= deadline) {
+      throw new TransferPendingError(transfer);
     }
-    
-    // Connect to Solana with WebSocket configuration
-    const solConnection = new Connection('https://api.mainnet-beta.solana.com', {
-      commitment: 'confirmed',
-      wsEndpoint: 'wss://api.mainnet-beta.solana.com',
-      confirmTransactionInitialTimeout: 60000,
-      disableRetryOnRateLimit: false
-    });
-    
-    // Verify the recipient wallet address
-    let recipientPubkey;
-    try {
-      recipientPubkey = new PublicKey(walletAddress);
-    } catch (err) {
-      return res.status(400).json({ 
-        status: 'error', 
-        error: `Invalid wallet address: ${walletAddress}` 
-      });
+    await new Promise(resolve => setTimeout(resolve, CONFIRMATION_POLL_MS));
+  }
+}
+
+// Send the transaction built by `prepare` unless the ledger already has one for
+// `key` that went through, and wait for it to confirm. `prepare` returns a fully
+// signed transaction; sending it raw keeps its signature (and so the ledger
+// entry) stable.
+async function sendOnce(connection, { key, sessionId, kind, walletAddress }, prepare) {
+  const existing = paymentSessions.getTransfer(key);
+  if (existing) {
+    const status = await reconcileTransfer(connection, existing);
+    paymentSessions.setTransferStatus(key, status);
+    console.log(`Ledger entry ${key} (${existing.signature}) reconciled as ${status}`);
+    if (status === 'confirmed') {
+      return { signature: existing.signature, details: existing.details, alreadySent: true };
     }
-    
-    // Validate amount
-    if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
-      return res.status(400).json({ 
-        status: 'error', 
-        error: `Invalid amount: ${amount}` 
-      });
+    if (status === 'sent') {
+      throw new TransferPendingError(existing);
     }
-    
-    console.log(`Sending ${amount} SOL to ${walletAddress}`);
-    
-    // Set up transaction with exact lamports
-    const lamports = Math.round(amount * 1e9);
-    const transaction = new Transaction().add(
-      SystemProgram.transfer({
-        fromPubkey: fundingKeypair.publicKey,
-        toPubkey: recipientPubkey,
-        lamports,
-      })
-    );
-    
-    try {
+  }
+
+  const { transaction, lastValidBlockHeight, amount, details = {} } = await prepare();
+  const signature = bs58.default.encode(
+    transaction instanceof VersionedTransaction ? transaction.signatures[0] : transaction.signature
+  );
+  paymentSessions.recordTransfer({ key, sessionId, kind, walletAddress, amount, signature, lastValidBlockHeight, details });
+
+  await connection.sendRawTransaction(transaction.serialize(), {
+    skipPreflight: true,
+    preflightCommitment: 'processed',
+    maxRetries: 1
+  });
+  await awaitConfirmation(connection, { key, signature, lastValidBlockHeight });
+  return { signature, details, alreadySent: false };
+}
+
+// Send SOL from the funding wallet, at most once per payment session. Only called
+// by fulfilment, never directly from a client request. Expired blockhashes and
+// timeouts are retried after the ledger entry has been reconciled.
+async function transferSol(walletAddress, amount, sessionId, retryCount = 0) {
+  if (!fundingKeypair) {
+    throw new Error('Funding wallet not initialized. Check FUNDING_WALLET_SECRET environment variable.');
+  }
+  
+  // Connect to Solana with WebSocket configuration
+  const solConnection = new Connection('https://api.mainnet-beta.solana.com', {
+    commitment: 'confirmed',
+    wsEndpoint: 'wss://api.mainnet-beta.solana.com',
+    confirmTransactionInitialTimeout: 60000,
+    disableRetryOnRateLimit: false
+  });
+  
+  // Verify the recipient wallet address
+  let recipientPubkey;
+  try {
+    recipientPubkey = new PublicKey(walletAddress);
+  } catch (err) {
+    throw new Error(`Invalid wallet address: ${walletAddress}`);
+  }
+  
+  // Validate amount
+  if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  try {
+    const { signature, alreadySent } = await sendOnce(solConnection, {
+      key: `${sessionId}:sol_transfer`,
+      sessionId,
+      kind: 'sol_transfer',
+      walletAddress
+    }, async () => {
+      console.log(`Sending ${amount} SOL to ${walletAddress}`);
+      
+      // Set up transaction with exact lamports
+      const lamports = Math.round(amount * 1e9);
+      const transaction = new Transaction().add(
+        SystemProgram.transfer({
+          fromPubkey: fundingKeypair.publicKey,
+          toPubkey: recipientPubkey,
+          lamports,
+        })
+      );
+      
       // Use longer-lasting blockhash and additional retries
       const { blockhash, lastValidBlockHeight } = await solConnection.getLatestBlockhash('confirmed');
       transaction.recentBlockhash = blockhash;
@@ -523,83 +1257,36 @@ app.post('/api/transfer-sol', async (req, res) => {
       transaction.feePayer = fundingKeypair.publicKey;
       transaction.sign(fundingKeypair);
       
-      // Send transaction without waiting for confirmation
       console.log('Sending SOL transfer transaction...');
-      const signature = await solConnection.sendTransaction(transaction, [fundingKeypair], {
-        skipPreflight: true,
-        preflightCommitment: 'processed',
-        maxRetries: 1,
-        priorityFee: priorityFee
-      });
-      
-      console.log('SOL transfer transaction sent:', signature);
-      
-      // Quick status check without waiting for full confirmation
-      console.log('Performing quick status check...');
-      const statusCheck = await solConnection.getSignatureStatus(signature);
-      console.log('Initial transaction status:', statusCheck?.value?.confirmationStatus || 'pending');
-      
-      // Create explorer link
-      const explorerLink = `https://solscan.io/tx/${signature}`;
-      console.log(`SOL transfer initiated! Transaction: ${signature}`);
-      
-      // Update session if available
-      if (sessionId && paymentSessions.has(sessionId)) {
-        const session = paymentSessions.get(sessionId);
-        
-        // Check if this is a token swap or direct SOL transfer
-        if (session.isTokenSwap) {
-          session.status = 'sol_received';
-          session.solSignature = signature;
-          session.solExplorerLink = explorerLink;
-        } else {
-          session.status = 'sol_transferred';
-          session.signature = signature;
-          session.explorerLink = explorerLink;
-        }
-        
-        session.transferTimestamp = new Date().toISOString();
-        session.transferredSolAmount = amount;
-      }
+      return { transaction, lastValidBlockHeight, amount };
+    });
     
-      return res.status(200).json({
-        status: 'success',
-        transaction: signature,
-        explorerLink,
-        amount,
-        message: `SOL transfer of ${amount} initiated successfully. Transaction sent to network.`
-      });
-    } catch (txError) {
-      console.error('Error sending transaction:', txError);
-      
-      // Only retry for certain errors
-      if ((txError.message?.includes('BlockheightExceededError') || 
-           txError.message?.includes('TimeoutError') || 
-           txError.message?.includes('block height exceeded')) && 
-           retryCount < 3) {
-        console.log(`Will retry transfer automatically, attempt ${retryCount + 1}`);
-        return res.status(500).json({
-          status: 'error',
-          error: 'Transaction failed but will be retried automatically',
-          retryScheduled: true,
-          retryCount: retryCount + 1
-        });
-      } else {
-        return res.status(500).json({
-          status: 'error',
-          error: `Transaction failed: ${txError.message}`,
-          details: txError.message
-        });
-      }
+    if (alreadySent) {
+      console.log(`SOL for session ${sessionId} was already delivered: ${signature}`);
+    } else {
+      console.log('SOL transfer confirmed:', signature);
     }
-  } catch (error) {
-    console.error('Error transferring SOL:', error);
-    return res.status(500).json({ 
-      status: 'error', 
-      error: 'Failed to transfer SOL: ' + error.message
-    });
+    
+    // Create explorer link
+    const explorerLink = `https://solscan.io/tx/${signature}`;
+    
+    return { signature, explorerLink, alreadySent };
+  } catch (txError) {
+    console.error('Error sending transaction:', txError);
+    if (txError instanceof TransferPendingError) throw txError;
+    
+    // Only retry for certain errors
+    if ((txError instanceof TransferDroppedError ||
+         txError.message?.includes('BlockheightExceededError') || 
+         txError.message?.includes('TimeoutError') || 
+         txError.message?.includes('block height exceeded')) && 
+         retryCount < 3) {
+      console.log(`Retrying transfer, attempt ${retryCount + 1}`);
+      return transferSol(walletAddress, amount, sessionId, retryCount + 1);
+    }
+    throw new Error(`Transaction failed: ${txError.message}`);
   }
-});
+}
 
 // API endpoint to query Jupiter for swap quote
 app.post('/api/get-swap-quote', async (req, res) => {
@@ -676,56 +1363,66 @@ async function getDynamicPriorityFee(connection) {
   }
 }
 
-// API endpoint to swap SOL to token via Jupiter
-app.post('/api/swap-tokens', async (req, res) => {
-  console.log('Swap tokens request received:', req.body);
+// How much of `mint` a confirmed transaction added to `owner`'s token balance, in
+// base units. The RPC can take a moment to serve a transaction it just confirmed.
+async function swapOutput(connection, signature, mint, owner, attempt = 0) {
+  const tx = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+  if (!tx?.meta) {
+    if (attempt >= 5) throw new Error(`Could not load swap transaction ${signature}`);
+    await new Promise(resolve => setTimeout(resolve, CONFIRMATION_POLL_MS));
+    return swapOutput(connection, signature, mint, owner, attempt + 1);
+  }
+  const balanceOf = balances => (balances || [])
+    .filter(balance => balance.mint === mint && balance.owner === owner)
+    .reduce((sum, balance) => sum + BigInt(balance.uiTokenAmount.amount), 0n);
+  const post = (tx.meta.postTokenBalances || []).find(balance => balance.mint === mint && balance.owner === owner);
+  const rawAmount = balanceOf(tx.meta.postTokenBalances) - balanceOf(tx.meta.preTokenBalances);
+  if (!post || rawAmount <= 0n) {
+    throw new Error(`Swap ${signature} did not add any ${mint} to the funding wallet`);
+  }
+  return { rawAmount, decimals: post.uiTokenAmount.decimals };
+}
+
+// Swap SOL to a token via Jupiter with the funding wallet, then send the tokens
+// to the buyer. Only called by fulfilment, never directly from a client request.
+// The swap and the transfer each go out at most once per payment session. With a
+// locked quote, `minOutAmount` (base units) is the least the swap may guarantee.
+async function swapSolToToken(walletAddress, toToken, amount, sessionId, tokenSymbol = 'Token', minOutAmount = null) {
+  if (!toToken) {
+    throw new Error('Destination token address is required');
+  }
+  
+  if (!amount || isNaN(amount) || amount <= 0) {
+    throw new Error('Valid SOL amount is required');
+  }
+  
+  // Check if funding wallet is available
+  if (!fundingKeypair) {
+    throw new Error('Funding wallet not initialized. Check FUNDING_WALLET_SECRET environment variable.');
+  }
+  
+  // Establish connection to Solana with WebSocket configuration
+  const swapConnection = new Connection('https://api.mainnet-beta.solana.com', {
+    commitment: 'confirmed',
+    wsEndpoint: 'wss://api.mainnet-beta.solana.com',
+    confirmTransactionInitialTimeout: 60000,
+    disableRetryOnRateLimit: false
+  });
   
+  // Verify the recipient wallet address
   try {
-    const { walletAddress, sessionId, toToken, amount } = req.body;
-    
-    // Validate required parameters
-    if (!walletAddress) {
-      return res.status(400).json({ error: 'Wallet address is required' });
-    }
-    
-    if (!toToken) {
-      return res.status(400).json({ error: 'Destination token address is required' });
-    }
-    
-    if (!amount || isNaN(amount) || amount <= 0) {
-      return res.status(400).json({ error: 'Valid SOL amount is required' });
-    }
-    
-    // Check if funding wallet is available
-    if (!fundingKeypair) {
-      return res.status(500).json({ 
-        error: 'Funding wallet not initialized. Check FUNDING_WALLET_SECRET environment variable.' 
-      });
-    }
-    
-    // Get session info if available
-    let sessionInfo = null;
-    if (sessionId && paymentSessions.has(sessionId)) {
-      sessionInfo = paymentSessions.get(sessionId);
-    }
-    
-    // Establish connection to Solana with WebSocket configuration
-    const swapConnection = new Connection('https://api.mainnet-beta.solana.com', {
-      commitment: 'confirmed',
-      wsEndpoint: 'wss://api.mainnet-beta.solana.com',
-      confirmTransactionInitialTimeout: 60000,
-      disableRetryOnRateLimit: false
-    });
-    
-    // Verify the recipient wallet address
-    try {
-      new PublicKey(walletAddress);
-    } catch (err) {
-      return res.status(400).json({ 
-        error: `Invalid wallet address: ${walletAddress}` 
-      });
-    }
-    
+    new PublicKey(walletAddress);
+  } catch (err) {
+    throw new Error(`Invalid wallet address: ${walletAddress}`);
+  }
+  
+  // Quote, build and sign the swap; skipped when the ledger shows it already landed
+  const swap = await sendOnce(swapConnection, {
+    key: `${sessionId}:token_swap`,
+    sessionId,
+    kind: 'token_swap',
+    walletAddress
+  }, async () => {
     // Get Jupiter quote for SOL to target token
     const jupiterQuoteUrl = "https://quote-api.jup.ag/v6/quote";
     const quoteParams = new URLSearchParams({
@@ -760,21 +1457,18 @@ app.post('/api/swap-tokens', async (req, res) => {
       } catch (error) {
         quoteRetries++;
         if (quoteRetries >= maxQuoteRetries) {
-          return res.status(503).json({
-            error: 'Jupiter API unavailable',
-            details: 'Could not get a quote from Jupiter exchange after multiple attempts.'
-          });
+          throw new Error('Jupiter API unavailable: could not get a quote after multiple attempts');
         }
         await new Promise(resolve => setTimeout(resolve, Math.min(1000 * Math.pow(2, quoteRetries), 8000)));
       }
     }
     
-    // Calculate output token amount
-    const outputDecimals = quoteData.outputDecimals || 6;
-    const outputAmount = parseFloat(quoteData.outAmount) / Math.pow(10, outputDecimals);
-    const tokenSymbol = sessionInfo?.tokenSymbol || 'Token';
+    // Refuse before anything is signed if the swap can't honour the locked quote
+    if (minOutAmount && BigInt(quoteData.otherAmountThreshold) < BigInt(minOutAmount)) {
+      throw new QuoteOutOfBandError(tokenSymbol, minOutAmount, quoteData.otherAmountThreshold);
+    }
     
-    console.log(`Quote received: ${amount} SOL ≈ ${outputAmount} ${tokenSymbol}`);
+    console.log(`Quote received: ${amount} SOL for ${quoteData.outAmount} base units of ${tokenSymbol}`);
     
     // Get swap transaction from Jupiter
     const swapUrl = "https://quote-api.jup.ag/v6/swap";
@@ -812,199 +1506,134 @@ app.post('/api/swap-tokens', async (req, res) => {
       } catch (error) {
         swapRetries++;
         if (swapRetries >= maxSwapRetries) {
-          return res.status(503).json({
-            error: 'Jupiter API unavailable',
-            details: 'Could not get a swap transaction from Jupiter exchange after multiple attempts.'
-          });
+          throw new Error('Jupiter API unavailable: could not get a swap transaction after multiple attempts');
         }
         await new Promise(resolve => setTimeout(resolve, Math.min(1000 * Math.pow(2, swapRetries), 8000)));
       }
     }
     
-    // Execute the swap transaction
+    // Sign the swap transaction with the funding wallet
+    const transactionBuffer = Buffer.from(swapResponseData.swapTransaction, 'base64');
+    const transaction = VersionedTransaction.deserialize(transactionBuffer);
+    transaction.sign([fundingKeypair]);
+    
+    // Jupiter reports how long its blockhash stays valid; fall back to the latest one
+    const { lastValidBlockHeight } = await swapConnection.getLatestBlockhash('confirmed');
+    
+    // Get dynamic priority fee
+    const priorityFee = await getDynamicPriorityFee(swapConnection);
+    console.log(`Using priority fee: ${priorityFee} lamports (${priorityFee / 1e9} SOL)`);
+    
+    console.log('Sending swap transaction...');
+    return {
+      transaction,
+      lastValidBlockHeight: swapResponseData.lastValidBlockHeight || lastValidBlockHeight,
+      amount
+    };
+  });
+  
+  const swapTxId = swap.signature;
+  console.log(swap.alreadySent ? `Swap for session ${sessionId} already landed: ${swapTxId}` : `Swap confirmed: ${swapTxId}`);
+  
+  // Send on what the confirmed swap actually produced, not what was quoted
+  const { rawAmount, decimals: outputDecimals } = await swapOutput(swapConnection, swapTxId, toToken, fundingKeypair.publicKey.toString());
+  const outputAmount = Number(rawAmount) / Math.pow(10, outputDecimals);
+  console.log(`Swap produced ${outputAmount} ${tokenSymbol}, transferring it to user wallet:`, walletAddress);
+  
+  const transfer = await sendOnce(swapConnection, {
+    key: `${sessionId}:token_transfer`,
+    sessionId,
+    kind: 'token_transfer',
+    walletAddress
+  }, async () => {
+    // Create token transfer transaction
+    const tokenMint = new PublicKey(toToken);
+    const userPublicKey = new PublicKey(walletAddress);
+    
+    // Get the token account for the funding wallet
+    const fundingTokenAccount = await getAssociatedTokenAddress(
+      tokenMint,
+      fundingKeypair.publicKey
+    );
+    
+    // Get the user's token account
+    const userTokenAccount = await getAssociatedTokenAddress(
+      tokenMint,
+      userPublicKey
+    );
+    
+    // Check if user's token account exists, if not, create it
+    let accountInfo;
     try {
-      const transactionBuffer = Buffer.from(swapResponseData.swapTransaction, 'base64');
-      const transaction = VersionedTransaction.deserialize(transactionBuffer);
-      
-      // Sign with funding wallet
-      transaction.sign([fundingKeypair]);
-      
-      // Get latest blockhash before sending
-      const { blockhash, lastValidBlockHeight } = await swapConnection.getLatestBlockhash('confirmed');
-      
-      // Get dynamic priority fee
-      const priorityFee = await getDynamicPriorityFee(swapConnection);
-      console.log(`Using priority fee: ${priorityFee} lamports (${priorityFee / 1e9} SOL)`);
-      
-      // Send transaction with updated blockhash
-      console.log('Sending swap transaction...');
-      let swapTxId;
-      try {
-        // Send transaction with updated blockhash
-        swapTxId = await swapConnection.sendTransaction(transaction, {
-          skipPreflight: true, // Skip preflight to speed up execution
-          preflightCommitment: 'processed',
-          maxRetries: 1,
-          // Add dynamic priority fees for faster confirmation
-          priorityFee: priorityFee,
-        });
-        
-        console.log('Transaction sent:', swapTxId);
-        
-        // Do a quick status check instead of waiting for full confirmation
-        console.log('Performing quick status check...');
-        const quickCheck = await swapConnection.getSignatureStatus(swapTxId);
-        console.log('Initial transaction status:', quickCheck?.value?.confirmationStatus || 'pending');
-        
-        // Continue regardless of confirmation status to speed up processing
-      } catch (error) {
-        console.error('Error sending swap transaction:', error);
-        throw error;
-      }
-      
-      // After successful swap, transfer tokens to user's wallet
-      console.log('Swap successful, transferring tokens to user wallet:', walletAddress);
-      
-      // Create token transfer transaction
-      const tokenMint = new PublicKey(toToken);
-      const userPublicKey = new PublicKey(walletAddress);
-      
-      // Get the token account for the funding wallet
-      const fundingTokenAccount = await getAssociatedTokenAddress(
-        tokenMint,
-        fundingKeypair.publicKey
-      );
-      
-      // Get the user's token account
-      const userTokenAccount = await getAssociatedTokenAddress(
-        tokenMint,
-        userPublicKey
-      );
-      
-      // Check if user's token account exists, if not, create it
-      let accountInfo;
-      try {
-        accountInfo = await swapConnection.getAccountInfo(userTokenAccount);
-      } catch (error) {
-        console.log('Error checking token account:', error);
-        accountInfo = null;
-      }
-      
-      let instructions = [];
-      
-      // If account doesn't exist, add instruction to create it
-      if (!accountInfo) {
-        console.log('User token account does not exist, creating it...');
-        instructions.push(
-          createAssociatedTokenAccountInstruction(
-            fundingKeypair.publicKey, // payer
-            userTokenAccount, // associatedToken
-            userPublicKey, // owner
-            tokenMint // mint
-          )
-        );
-      } else {
-        console.log('User token account exists, proceeding with transfer');
-      }
-      
-      // Add transfer instruction
-      instructions.push({
-        programId: TOKEN_PROGRAM_ID,
-        keys: [
-          { pubkey: fundingTokenAccount, isSigner: false, isWritable: true },
-          { pubkey: userTokenAccount, isSigner: false, isWritable: true },
-          { pubkey: fundingKeypair.publicKey, isSigner: true, isWritable: false }
-        ],
-        data: Buffer.from([
-          3, // Transfer instruction
-          ...new BN(Math.round(outputAmount * Math.pow(10, outputDecimals))).toArray('le', 8)
-        ])
-      });
-      
-      // Create and send transfer transaction
-      const transferTransaction = new Transaction().add(...instructions);
-      const { blockhash: transferBlockhash, lastValidBlockHeight: transferLastValidBlockHeight } = await swapConnection.getLatestBlockhash('confirmed');
-      transferTransaction.recentBlockhash = transferBlockhash;
-      transferTransaction.feePayer = fundingKeypair.publicKey;
-      
-      // Get dynamic priority fee for token transfer
-      const transferPriorityFee = await getDynamicPriorityFee(swapConnection);
-      console.log(`Using token transfer priority fee: ${transferPriorityFee} lamports (${transferPriorityFee / 1e9} SOL)`);
-      
-      // Sign and send transfer transaction
-      transferTransaction.sign(fundingKeypair);
-      let transferTxId;
-      try {
-        transferTxId = await swapConnection.sendTransaction(transferTransaction, [fundingKeypair], {
-          skipPreflight: true, // Skip preflight to speed up execution
-          preflightCommitment: 'processed',
-          maxRetries: 1,
-          priorityFee: transferPriorityFee
-        });
-        
-        // Quick status check without waiting for full confirmation
-        console.log('Token transfer sent:', transferTxId);
-        console.log('Performing quick token transfer status check...');
-        const transferCheck = await swapConnection.getSignatureStatus(transferTxId);
-        console.log('Initial token transfer status:', transferCheck?.value?.confirmationStatus || 'pending');
-        
-        // Continue regardless of status to speed up processing
-      } catch (error) {
-        console.error('Error sending token transfer:', error);
-        throw error;
-      }
-      
-      // Update session info
-      if (sessionInfo) {
-        sessionInfo.swapTxId = swapTxId;
-        sessionInfo.transferTxId = transferTxId;
-        sessionInfo.tokenAmount = outputAmount;
-        sessionInfo.status = 'completed';
-      }
-      
-      return res.json({
-        status: 'success',
-        transactions: [
-          {
-            id: swapTxId,
-            type: 'swap',
-            status: 'SENT',
-            description: `Swapped ${amount} SOL to ${outputAmount} ${tokenSymbol}`,
-            explorerLink: `https://solscan.io/tx/${swapTxId}`
-          },
-          {
-            id: transferTxId,
-            type: 'transfer',
-            status: 'SENT',
-            description: `Transferred ${outputAmount} ${tokenSymbol} to your wallet`,
-            explorerLink: `https://solscan.io/tx/${transferTxId}`,
-            tokenAccountCreated: !accountInfo
-          }
-        ],
-        finalToken: {
-          symbol: tokenSymbol,
-          mint: toToken,
-          amount: outputAmount,
-          associatedTokenAccount: userTokenAccount.toString()
-        },
-        message: `Successfully processed SOL to ${tokenSymbol} swap and transfer to your wallet.`
-      });
-      
+      accountInfo = await swapConnection.getAccountInfo(userTokenAccount);
     } catch (error) {
-      console.error('Error executing swap:', error);
-      return res.status(500).json({
-        error: 'Failed to execute swap',
-        details: error.message
-      });
+      console.log('Error checking token account:', error);
+      accountInfo = null;
     }
-  } catch (error) {
-    console.error('Error processing token swap:', error);
-    return res.status(500).json({
-      error: 'Failed to process token swap',
-      details: error.message
+    
+    let instructions = [];
+    
+    // If account doesn't exist, add instruction to create it
+    if (!accountInfo) {
+      console.log('User token account does not exist, creating it...');
+      instructions.push(
+        createAssociatedTokenAccountInstruction(
+          fundingKeypair.publicKey, // payer
+          userTokenAccount, // associatedToken
+          userPublicKey, // owner
+          tokenMint // mint
+        )
+      );
+    } else {
+      console.log('User token account exists, proceeding with transfer');
+    }
+    
+    // Add transfer instruction
+    instructions.push({
+      programId: TOKEN_PROGRAM_ID,
+      keys: [
+        { pubkey: fundingTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: userTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: fundingKeypair.publicKey, isSigner: true, isWritable: false }
+      ],
+      data: Buffer.from([
+        3, // Transfer instruction
+        ...new BN(rawAmount.toString()).toArray('le', 8)
+      ])
     });
-  }
-});
+    
+    // Create and sign transfer transaction
+    const transferTransaction = new Transaction().add(...instructions);
+    const { blockhash: transferBlockhash, lastValidBlockHeight: transferLastValidBlockHeight } = await swapConnection.getLatestBlockhash('confirmed');
+    transferTransaction.recentBlockhash = transferBlockhash;
+    transferTransaction.feePayer = fundingKeypair.publicKey;
+    
+    // Get dynamic priority fee for token transfer
+    const transferPriorityFee = await getDynamicPriorityFee(swapConnection);
+    console.log(`Using token transfer priority fee: ${transferPriorityFee} lamports (${transferPriorityFee / 1e9} SOL)`);
+    
+    transferTransaction.sign(fundingKeypair);
+    return {
+      transaction: transferTransaction,
+      lastValidBlockHeight: transferLastValidBlockHeight,
+      amount: outputAmount,
+      details: { tokenAccountCreated: !accountInfo }
+    };
+  });
+  
+  const transferTxId = transfer.signature;
+  console.log(transfer.alreadySent ? `Tokens for session ${sessionId} were already delivered: ${transferTxId}` : `Token transfer confirmed: ${transferTxId}`);
+  
+  console.log(`Swapped ${amount} SOL to ${outputAmount} ${tokenSymbol} and sent it to ${walletAddress}`);
+  return {
+    swapTxId,
+    transferTxId,
+    outputAmount,
+    explorerLink: `https://solscan.io/tx/${transferTxId}`,
+    tokenAccountCreated: Boolean(transfer.details.tokenAccountCreated),
+    alreadySent: transfer.alreadySent
+  };
+}
 
 // === Solend lending integration ===
 app.post('/api/solend-lend', async (req, res) => {
@@ -1075,6 +1704,198 @@ app.post('/api/solend-lend', async (req, res) => {
   }
 });
 
+// === Transaction history ===
+// Swaps and Solend deposits are signed in the browser, which reports them here.
+// What they moved is read from the chain, not taken from the report. Every
+// route needs the wallet's Privy sign-in.
+const walletActivity = createActivityStore();
+const transactionHistory = createHistory({
+  paymentSessions,
+  activity: walletActivity,
+  connection: new Connection('https://api.mainnet-beta.solana.com', 'confirmed')
+});
+
+const isSignature = value => typeof value === 'string' && /^[1-9A-HJ-NP-Za-km-z]{64,88}$/.test(value);
+const isLabel = value => typeof value === 'string' && value.length > 0 && value.length <= 20;
+
+// The labels each kind of activity keeps. Amounts are read from the chain.
+const ACTIVITY_LABELS = {
+  swap: ({ inputToken, outputToken }) =>
+    isLabel(inputToken) && isLabel(outputToken) ? { inputToken, outputToken } : null,
+  solend_deposit: ({ tokenSymbol, apy }) =>
+    isLabel(tokenSymbol)
+      ? { tokenSymbol, apy: typeof apy === 'number' && Number.isFinite(apy) && apy >= 0 ? apy : null }
+      : null
+};
+
+app.post('/api/history/:walletAddress', requireWalletOwner, (req, res) => {
+  const { kind, signature, details = {} } = req.body || {};
+  if (!ACTIVITY_KINDS.includes(kind)) {
+    return res.status(400).json({ error: `kind must be one of ${ACTIVITY_KINDS.join(', ')}` });
+  }
+  if (!isSignature(signature)) {
+    return res.status(400).json({ error: 'A transaction signature is required' });
+  }
+  const labels = ACTIVITY_LABELS[kind](details);
+  if (!labels) {
+    return res.status(400).json({ error: `Invalid ${kind} details` });
+  }
+  respondWith(res, () => transactionHistory.record(req.params.walletAddress, { kind, signature, labels }), 'Could not record the transaction');
+});
+
+app.get('/api/history/:walletAddress', requireWalletOwner, (req, res) =>
+  respondWith(res, async () => ({ entries: await transactionHistory.entries(req.params.walletAddress) }), 'Could not load history'));
+
+app.get('/api/history/:walletAddress/export.csv', requireWalletOwner, async (req, res) => {
+  try {
+    const entries = await transactionHistory.entries(req.params.walletAddress);
+    res.attachment('how3-history.csv').type('text/csv').send(historyCsv(entries));
+  } catch (error) {
+    console.error('Error exporting history:', error);
+    res.status(500).json({ error: 'Could not export history' });
+  }
+});
+
+app.get('/api/history/:walletAddress/:entryId/receipt.pdf', requireWalletOwner, async (req, res) => {
+  try {
+    const { walletAddress, entryId } = req.params;
+    const entry = (await transactionHistory.entries(walletAddress)).find(item => item.id === entryId);
+    if (!entry) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+    res.attachment(`how3-receipt-${entryId.slice(0, 16)}.pdf`).type('application/pdf').send(receiptPdf(entry, walletAddress));
+  } catch (error) {
+    console.error('Error creating receipt:', error);
+    res.status(500).json({ error: 'Could not create receipt' });
+  }
+});
+
+// === Price alerts and watchlists ===
+// The evaluator polls prices server-side; the app picks up triggered alerts
+// from /triggered and acknowledges them once it has shown them. It only runs
+// when PRICE_ALERTS_ENABLED is "true"; otherwise no new alerts are taken.
+const PRICE_ALERTS_ENABLED = process.env.PRICE_ALERTS_ENABLED === 'true';
+const priceAlerts = createAlertStore();
+const alertConnection = new Connection('https://api.mainnet-beta.solana.com', 'confirmed');
+const alertPrices = createPriceSource({ getDecimals: mint => getMintDecimals(alertConnection, mint) });
+const alertEvaluator = createAlertEvaluator({ alerts: priceAlerts, prices: alertPrices });
+
+const isMint = value => typeof value === 'string' && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value);
+const isSymbol = value => typeof value === 'string' && value.length > 0 && value.length <= 20;
+
+// The tracked token a request names, or null when it is malformed
+function alertToken({ mint, symbol } = {}) {
+  return isMint(mint) && isSymbol(symbol) ? { mint, symbol: symbol.toUpperCase() } : null;
+}
+
+// Alerts and watchlist entries would never be checked with the evaluator off
+function requireAlertsEnabled(req, res, next) {
+  if (PRICE_ALERTS_ENABLED) return next();
+  res.status(503).json({ error: 'Price alerts are turned off on this server' });
+}
+
+app.get('/api/alerts/:walletAddress', requireWalletOwner, (req, res) => {
+  const { walletAddress } = req.params;
+  const alerts = priceAlerts.forWallet(walletAddress).map(alert => ({
+    ...alert,
+    currentPrice: priceAlerts.latestPrice(alert.mint)?.price ?? null
+  }));
+  res.json({ alerts, watchlist: priceAlerts.watchlist(walletAddress) });
+});
+
+// Without a direction the alert fires when the price moves from where it is now
+// to the target, so "tell me when SOL hits 120" works either way
+app.post('/api/alerts/:walletAddress', requireWalletOwner, requireAlertsEnabled, async (req, res) => {
+  const token = alertToken(req.body);
+  if (!token) {
+    return res.status(400).json({ error: 'A token mint and symbol are required' });
+  }
+  const { targetPrice } = req.body;
+  let { direction } = req.body;
+  if (typeof targetPrice !== 'number' || !Number.isFinite(targetPrice) || targetPrice <= 0) {
+    return res.status(400).json({ error: 'targetPrice must be a positive number' });
+  }
+  if (direction !== undefined && !ALERT_DIRECTIONS.includes(direction)) {
+    return res.status(400).json({ error: `direction must be one of ${ALERT_DIRECTIONS.join(', ')}` });
+  }
+
+  try {
+    let currentPrice = null;
+    try {
+      currentPrice = await alertPrices.priceOf(token);
+      priceAlerts.recordPrice(token.mint, currentPrice);
+    } catch (error) {
+      console.warn(`Could not read the price of ${token.symbol}:`, error.message);
+    }
+    if (!direction) {
+      if (currentPrice === null) {
+        return res.status(400).json({ error: `Could not read the price of ${token.symbol}; say whether to alert above or below ${targetPrice}` });
+      }
+      direction = targetPrice >= currentPrice ? 'above' : 'below';
+    }
+    const alert = priceAlerts.createAlert({ walletAddress: req.params.walletAddress, ...token, direction, targetPrice });
+    res.json({ ...alert, currentPrice });
+  } catch (error) {
+    if (error instanceof AlertLimitError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error creating price alert:', error);
+    res.status(500).json({ error: 'Could not create the alert' });
+  }
+});
+
+app.delete('/api/alerts/:walletAddress/:alertId', requireWalletOwner, (req, res) => {
+  const alertId = Number(req.params.alertId);
+  if (!Number.isInteger(alertId) || !priceAlerts.cancel(req.params.walletAddress, alertId)) {
+    return res.status(404).json({ error: 'Alert not found' });
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/alerts/:walletAddress/watchlist', requireWalletOwner, requireAlertsEnabled, (req, res) => {
+  const token = alertToken(req.body);
+  if (!token) {
+    return res.status(400).json({ error: 'A token mint and symbol are required' });
+  }
+  try {
+    priceAlerts.watch({ walletAddress: req.params.walletAddress, ...token });
+  } catch (error) {
+    if (error instanceof AlertLimitError) {
+      return res.status(409).json({ error: error.message });
+    }
+    throw error;
+  }
+  // Read a first price now rather than at the next poll
+  alertPrices.priceOf(token)
+    .then(price => priceAlerts.recordPrice(token.mint, price))
+    .catch(error => console.warn(`Could not read the price of ${token.symbol}:`, error.message));
+  res.json({ watchlist: priceAlerts.watchlist(req.params.walletAddress) });
+});
+
+app.delete('/api/alerts/:walletAddress/watchlist/:mint', requireWalletOwner, (req, res) => {
+  if (!priceAlerts.unwatch(req.params.walletAddress, req.params.mint)) {
+    return res.status(404).json({ error: 'Token not on the watchlist' });
+  }
+  res.json({ success: true });
+});
+
+app.get('/api/alerts/:walletAddress/triggered', requireWalletOwner, (req, res) => {
+  res.json({ alerts: priceAlerts.unseenTriggered(req.params.walletAddress) });
+});
+
+app.post('/api/alerts/:walletAddress/triggered/ack', requireWalletOwner, (req, res) => {
+  const { ids } = req.body || {};
+  if (!Array.isArray(ids) || !ids.every(Number.isInteger)) {
+    return res.status(400).json({ error: 'ids must be a list of alert ids' });
+  }
+  priceAlerts.markSeen(req.params.walletAddress, ids);
+  res.json({ success: true });
+});
+
+if (PRICE_ALERTS_ENABLED) {
+  alertEvaluator.start();
+}
+
 // === 4. Simple signup: generate deterministic keypair from email ===
 app.post('/api/signup', async (req, res) => {
   try {
@@ -1096,5 +1917,43 @@ app.post('/api/signup', async (req, res) => {
   }
 });
 
+// === Chat session mirror ===
+// Optional server copy of the chat sessions the frontend keeps in IndexedDB,
+// kept in backend/data/chat-sessions.db. Only the wallet's Privy user can read
+// or change it; the browser's IndexedDB is the source of truth.
+const chatSessions = createChatSessionStore();
+
+app.get('/api/chat-sessions/:walletAddress', requireWalletOwner, (req, res) => {
+  res.json({ sessions: chatSessions.forWallet(req.params.walletAddress) });
+});
+
+app.put('/api/chat-sessions/:walletAddress/:sessionId', requireWalletOwner, (req, res) => {
+  const { walletAddress, sessionId } = req.params;
+  const session = req.body;
+
+  if (!session || session.id !== sessionId || session.walletAddress !== walletAddress) {
+    return res.status(400).json({ error: 'Session does not match the URL' });
+  }
+  if (!Array.isArray(session.messages) || typeof session.updatedAt !== 'number') {
+    return res.status(400).json({ error: 'Invalid session' });
+  }
+
+  // A stale write from another device is ignored
+  try {
+    chatSessions.save(session);
+  } catch (error) {
+    if (error instanceof ChatSessionLimitError) {
+      return res.status(413).json({ error: error.message });
+    }
+    throw error;
+  }
+  res.json({ success: true });
+});
+
+app.delete('/api/chat-sessions/:walletAddress/:sessionId', requireWalletOwner, (req, res) => {
+  chatSessions.remove(req.params.walletAddress, req.params.sessionId);
+  res.json({ success: true });
+});
+
 const PORT = process.env.PORT || 4000;
 app.listen(PORT, () => console.log(`Node backend running on port ${PORT}`)); 
\ No newline at end of file
@@ -0,0 +1,11 @@
+// Thrown by provider operations; `status` and `body` are what the route answers with
+class OnrampError extends Error {
+  constructor(status, body) {
+    super(body.error);
+    this.name = 'OnrampError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+module.exports = { OnrampError };
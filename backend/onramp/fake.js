@@ -0,0 +1,136 @@
+const fs = require('fs');
+const path = require('path');
+const { OnrampError } = require('./errors');
+const { parseQuoteRequest, belowMinimumError } = require('./quote-request');
+const { minimumAmount } = require('../currency');
+
+// A provider that takes no payment and moves no funds, for tests and local
+// development (ONRAMP_FAKE_PROVIDER=true). Prices come from a fixture file.
+// Checkout settles on its own after FAKE_ONRAMP_SETTLE_MS, or by posting
+// `{ sessionId, outcome: 'paid' | 'failed' }` to its webhook.
+
+const FAKE_ONRAMP_PRICES_PATH = process.env.FAKE_ONRAMP_PRICES_PATH || path.join(__dirname, '..', 'fixtures', 'onramp', 'token-prices.json');
+const FAKE_ONRAMP_FEE_PERCENT = parseFloat(process.env.FAKE_ONRAMP_FEE_PERCENT) || 1;
+// 0 leaves sessions waiting for the webhook
+const FAKE_ONRAMP_SETTLE_MS = process.env.FAKE_ONRAMP_SETTLE_MS !== undefined ? parseInt(process.env.FAKE_ONRAMP_SETTLE_MS, 10) : 3000;
+const SOL_TOKEN_ADDRESS = 'So11111111111111111111111111111111111111112';
+
+// USD price per token; anything the fixture doesn't list is worth $1
+function fixturePrice(tokenSymbol) {
+  const { prices } = JSON.parse(fs.readFileSync(FAKE_ONRAMP_PRICES_PATH, 'utf8'));
+  return prices[tokenSymbol.toUpperCase()] || 1;
+}
+
+function createFakeProvider({ paymentSessions, recordPaymentStatus, purchaseLimits, quotes, currencyConverter }) {
+  async function quote(body) {
+    const request = parseQuoteRequest(body);
+    const price = await currencyConverter.fromUsd(fixturePrice(request.tokenSymbol), request.currency);
+    const feeRate = FAKE_ONRAMP_FEE_PERCENT / 100;
+
+    const fiatAmount = request.fiatAmount || Math.ceil((request.tokenAmount * price / (1 - feeRate)) * 100) / 100;
+    if (fiatAmount < minimumAmount(request.currency)) {
+      throw belowMinimumError(request.currency);
+    }
+    const providerFee = Math.round(fiatAmount * feeRate * 100) / 100;
+    const tokenAmount = (fiatAmount - providerFee) / price;
+
+    return quotes.issue({
+      provider: 'fake',
+      providerName: 'Test Provider',
+      walletAddress: request.walletAddress,
+      tokenSymbol: request.tokenSymbol,
+      tokenAddress: request.tokenAddress,
+      fiatAmount,
+      fiatCurrency: request.currency,
+      tokenAmount,
+      pricePerToken: fiatAmount / tokenAmount,
+      marketPricePerToken: price,
+      fees: {
+        provider: providerFee,
+        network: 0,
+        total: providerFee
+      },
+      estimatedProcessingTime: 'Instant',
+      minimumAmount: minimumAmount(request.currency)
+    });
+  }
+
+  async function checkout({ quoteId, walletAddress } = {}, buyer = {}) {
+    const quote = quotes.take(quoteId, walletAddress, 'fake');
+    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    const isTokenSwap = quote.tokenAddress !== SOL_TOKEN_ADDRESS;
+
+    await purchaseLimits.reserve({ walletAddress, email: buyer.email }, quote.fiatAmount, quote.fiatCurrency, {
+      id: sessionId,
+      provider: 'fake',
+      walletAddress,
+      email: buyer.email || null,
+      amount: Math.round(quote.fiatAmount * 100),
+      currency: quote.fiatCurrency,
+      isTokenSwap,
+      tokenSymbol: quote.tokenSymbol,
+      tokenAddress: quote.tokenAddress,
+      tokenAmount: quote.tokenAmount,
+      quoteId: quote.quoteId,
+      fees: quote.fees
+    });
+
+    if (FAKE_ONRAMP_SETTLE_MS > 0) {
+      setTimeout(() => settle(sessionId, 'paid'), FAKE_ONRAMP_SETTLE_MS);
+    }
+
+    return {
+      provider: 'fake',
+      sessionId,
+      url: null,
+      fiatAmount: quote.fiatAmount,
+      fiatCurrency: quote.fiatCurrency,
+      isTokenSwap,
+      tokenSymbol: quote.tokenSymbol,
+      tokenAmount: quote.tokenAmount
+    };
+  }
+
+  // Marks the session delivered without sending anything on-chain
+  function settle(sessionId, outcome) {
+    const session = paymentSessions.get(sessionId);
+    if (!session || session.provider !== 'fake') {
+      throw new OnrampError(404, { error: 'Session not found' });
+    }
+
+    if (outcome === 'failed') {
+      recordPaymentStatus(sessionId, 'error', { error: 'The test provider declined the payment' });
+      return;
+    }
+    if (!recordPaymentStatus(sessionId, 'payment_completed', { providerReference: `fake_${sessionId}` })) return;
+    recordPaymentStatus(sessionId, session.isTokenSwap ? 'token_swap_completed' : 'sol_transferred', session.isTokenSwap
+      ? { explorerLink: null }
+      : { explorerLink: null, transferredSolAmount: session.tokenAmount, transferTimestamp: new Date().toISOString() });
+  }
+
+  async function status(session) {
+    return session;
+  }
+
+  async function webhook(req) {
+    const { sessionId, outcome } = req.body || {};
+    if (!['paid', 'failed'].includes(outcome)) {
+      throw new OnrampError(400, { error: 'outcome must be paid or failed' });
+    }
+    settle(sessionId, outcome);
+    return { received: true };
+  }
+
+  return {
+    id: 'fake',
+    name: 'Test Provider',
+    enabled: process.env.ONRAMP_FAKE_PROVIDER === 'true',
+    deliversTokens: true,
+    quote,
+    checkout,
+    status,
+    webhook
+  };
+}
+
+module.exports = { createFakeProvider };
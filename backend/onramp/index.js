@@ -0,0 +1,75 @@
+const { OnrampError } = require('./errors');
+const { parseQuoteRequest, belowMinimumError } = require('./quote-request');
+const { createRampProvider } = require('./ramp');
+const { createFakeProvider } = require('./fake');
+
+// Onramp providers take the buyer's fiat payment. Each one implements the same
+// operations, so the routes don't need to know who is taking the payment:
+//
+//   quote(request)           -> a quote issued from the quote book, priced by the provider
+//   checkout(request, buyer) -> opens a payment for a quote, within the buyer's
+//                               purchase limits, and creates its payment session
+//   status(session)          -> the session, refreshed from the provider where it can be
+//   webhook(req)             -> applies a provider callback to its payment session
+//
+// Providers that deliver the tokens themselves set `deliversTokens`; payments
+// taken by the others are fulfilled from our funding wallet.
+
+function createOnrampRegistry(providers) {
+  const enabled = new Map(providers.filter(provider => provider.enabled).map(provider => [provider.id, provider]));
+  return {
+    get: id => enabled.get(id) || null,
+    list: () => [...enabled.values()]
+  };
+}
+
+// Quotes are kept until they expire and can be checked out once, by the wallet
+// and provider they were issued to
+function createQuoteBook(ttlMs) {
+  const quotes = new Map(); // quoteId -> quote
+
+  function prune() {
+    const now = Date.now();
+    for (const [quoteId, quote] of quotes) {
+      if (new Date(quote.expiresAt).getTime() <= now) quotes.delete(quoteId);
+    }
+  }
+
+  function issue(quote) {
+    prune();
+    const issued = {
+      quoteId: `quote_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
+      ...quote,
+      expiresAt: new Date(Date.now() + ttlMs).toISOString()
+    };
+    quotes.set(issued.quoteId, issued);
+    return issued;
+  }
+
+  function take(quoteId, walletAddress, provider) {
+    const quote = quotes.get(quoteId);
+    quotes.delete(quoteId);
+    if (!quote || new Date(quote.expiresAt).getTime() <= Date.now()) {
+      throw new OnrampError(410, { error: 'Quote expired', code: 'quote_expired' });
+    }
+    if (quote.walletAddress !== walletAddress) {
+      throw new OnrampError(400, { error: 'Quote was issued for a different wallet' });
+    }
+    if (quote.provider !== provider) {
+      throw new OnrampError(400, { error: `Quote was issued by ${quote.providerName}` });
+    }
+    return quote;
+  }
+
+  return { issue, take };
+}
+
+module.exports = {
+  OnrampError,
+  createOnrampRegistry,
+  createQuoteBook,
+  parseQuoteRequest,
+  belowMinimumError,
+  createRampProvider,
+  createFakeProvider
+};
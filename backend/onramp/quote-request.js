@@ -0,0 +1,44 @@
+const { isSupportedCurrency, minimumAmount } = require('../currency');
+const { OnrampError } = require('./errors');
+
+// The purchase every provider is asked to quote: a fiat amount to spend, or a
+// token amount to receive, in one of the currencies we charge in
+function parseQuoteRequest(body) {
+  const { walletAddress, tokenSymbol, tokenAddress, dollarAmount, tokenAmount, currency = 'usd' } = body || {};
+
+  if (!walletAddress || typeof walletAddress !== 'string') {
+    throw new OnrampError(400, { error: 'Missing or invalid walletAddress' });
+  }
+  if (!tokenAddress || !tokenSymbol) {
+    throw new OnrampError(400, { error: 'Token symbol and address are required' });
+  }
+  if (!isSupportedCurrency(currency)) {
+    throw new OnrampError(400, { error: 'Unsupported currency' });
+  }
+  const fiatAmount = typeof dollarAmount === 'number' && dollarAmount > 0 ? dollarAmount : null;
+  if (!fiatAmount && !(typeof tokenAmount === 'number' && tokenAmount > 0)) {
+    throw new OnrampError(400, { error: 'A fiat amount or token amount is required' });
+  }
+
+  return {
+    walletAddress,
+    tokenSymbol,
+    tokenAddress,
+    fiatAmount,
+    tokenAmount: fiatAmount ? null : tokenAmount,
+    currency
+  };
+}
+
+// Stripe rejects charges below a per-currency minimum, and the others share its minimums
+function belowMinimumError(currency) {
+  const minimum = minimumAmount(currency);
+  return new OnrampError(400, {
+    error: `The minimum purchase is ${minimum.toFixed(2)} ${currency.toUpperCase()}`,
+    code: 'below_minimum',
+    minimum,
+    currency
+  });
+}
+
+module.exports = { parseQuoteRequest, belowMinimumError };
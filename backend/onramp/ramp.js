@@ -0,0 +1,204 @@
+const crypto = require('crypto');
+const fetch = require('node-fetch');
+const { OnrampError } = require('./errors');
+const { parseQuoteRequest, belowMinimumError } = require('./quote-request');
+const { minimumAmount } = require('../currency');
+
+// Ramp Network sells by card in its own widget and sends the tokens to the buyer
+// itself, so nothing is delivered from our funding wallet. The widget reports
+// the purchase to a per-session webhook URL, signed with Ramp's ECDSA key.
+
+const RAMP_API_URL = process.env.RAMP_API_URL || 'https://api.ramp.network/api/host-api/v3';
+const RAMP_HOST_API_KEY = process.env.RAMP_HOST_API_KEY;
+// PEM; newlines may be escaped as \n in the environment
+const RAMP_WEBHOOK_PUBLIC_KEY = (process.env.RAMP_WEBHOOK_PUBLIC_KEY || '').replace(/\\n/g, '\n');
+const SOL_TOKEN_ADDRESS = 'So11111111111111111111111111111111111111112';
+
+// Ramp names Solana assets SOLANA_<symbol>
+const rampAsset = tokenSymbol => `SOLANA_${tokenSymbol.toUpperCase()}`;
+
+async function fetchRampQuote(asset, currency, { fiatAmount, tokenAmount, decimals }) {
+  const response = await fetch(`${RAMP_API_URL}/onramp/quote/all?hostApiKey=${encodeURIComponent(RAMP_HOST_API_KEY)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      cryptoAssetSymbol: asset,
+      fiatCurrency: currency.toUpperCase(),
+      ...(fiatAmount
+        ? { fiatValue: fiatAmount }
+        : { cryptoAmount: BigInt(Math.round(tokenAmount * Math.pow(10, decimals))).toString() })
+    })
+  });
+  if (!response.ok) {
+    throw new Error(`Ramp API returned error: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// Ramp only quotes a token amount in base units, so look up the asset first
+async function fetchAssetDecimals(asset, currency) {
+  const response = await fetch(`${RAMP_API_URL}/assets?currencyCode=${currency.toUpperCase()}&hostApiKey=${encodeURIComponent(RAMP_HOST_API_KEY)}`);
+  if (!response.ok) {
+    throw new Error(`Ramp API returned error: ${await response.text()}`);
+  }
+  const { assets = [] } = await response.json();
+  const match = assets.find(item => `${item.chain}_${item.symbol}` === asset);
+  if (!match) {
+    throw new OnrampError(400, { error: `Ramp Network doesn't sell ${asset.replace('SOLANA_', '')}` });
+  }
+  return match.decimals;
+}
+
+function verifySignature(rawBody, signature) {
+  if (!RAMP_WEBHOOK_PUBLIC_KEY || !rawBody || !signature) return false;
+  try {
+    return crypto.verify('sha256', rawBody, RAMP_WEBHOOK_PUBLIC_KEY, Buffer.from(signature, 'base64'));
+  } catch (error) {
+    console.error('Error verifying Ramp webhook signature:', error.message);
+    return false;
+  }
+}
+
+function createRampProvider({ paymentSessions, recordPaymentStatus, purchaseLimits, quotes, backendUrl, frontendUrl }) {
+  async function quote(body) {
+    const request = parseQuoteRequest(body);
+    const asset = rampAsset(request.tokenSymbol);
+    if (request.fiatAmount && request.fiatAmount < minimumAmount(request.currency)) {
+      throw belowMinimumError(request.currency);
+    }
+
+    const decimals = request.tokenAmount ? await fetchAssetDecimals(asset, request.currency) : null;
+    const data = await fetchRampQuote(asset, request.currency, { ...request, decimals });
+    const card = data.CARD_PAYMENT;
+    if (!card) {
+      throw new OnrampError(400, { error: `Ramp Network can't sell ${request.tokenSymbol} by card` });
+    }
+
+    const tokenAmount = Number(card.cryptoAmount) / Math.pow(10, data.asset.decimals);
+    const fiatAmount = card.fiatValue;
+    const providerFee = card.appliedFee || 0;
+    const networkFee = card.networkFee || 0;
+
+    const issued = quotes.issue({
+      provider: 'ramp',
+      providerName: 'Ramp Network',
+      walletAddress: request.walletAddress,
+      tokenSymbol: request.tokenSymbol,
+      tokenAddress: request.tokenAddress,
+      fiatAmount,
+      fiatCurrency: request.currency,
+      tokenAmount,
+      pricePerToken: fiatAmount / tokenAmount,
+      marketPricePerToken: (fiatAmount - providerFee - networkFee) / tokenAmount,
+      fees: {
+        provider: providerFee,
+        network: networkFee,
+        total: providerFee + networkFee
+      },
+      estimatedProcessingTime: 'A few minutes',
+      minimumAmount: minimumAmount(request.currency),
+      rampAsset: asset
+    });
+    console.log(`Ramp quote ${issued.quoteId}: ${fiatAmount} ${request.currency} -> ${tokenAmount} ${request.tokenSymbol}`);
+    return issued;
+  }
+
+  // Nothing is charged here: the browser opens the Ramp widget with this config
+  async function checkout({ quoteId, walletAddress, email } = {}, buyer = {}) {
+    const quote = quotes.take(quoteId, walletAddress, 'ramp');
+    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    const isTokenSwap = quote.tokenAddress !== SOL_TOKEN_ADDRESS;
+
+    await purchaseLimits.reserve({ walletAddress, email: buyer.email }, quote.fiatAmount, quote.fiatCurrency, {
+      id: sessionId,
+      provider: 'ramp',
+      walletAddress,
+      email: buyer.email || null,
+      amount: Math.round(quote.fiatAmount * 100),
+      currency: quote.fiatCurrency,
+      isTokenSwap,
+      tokenSymbol: quote.tokenSymbol,
+      tokenAddress: quote.tokenAddress,
+      tokenAmount: quote.tokenAmount,
+      quoteId: quote.quoteId,
+      fees: quote.fees
+    });
+
+    return {
+      provider: 'ramp',
+      sessionId,
+      fiatAmount: quote.fiatAmount,
+      fiatCurrency: quote.fiatCurrency,
+      isTokenSwap,
+      tokenSymbol: quote.tokenSymbol,
+      tokenAmount: quote.tokenAmount,
+      widget: {
+        hostAppName: 'How3',
+        hostLogoUrl: `${frontendUrl}/How3logo.svg`,
+        hostApiKey: RAMP_HOST_API_KEY,
+        swapAsset: quote.rampAsset,
+        fiatValue: quote.fiatAmount.toString(),
+        fiatCurrency: quote.fiatCurrency.toUpperCase(),
+        userAddress: walletAddress,
+        userEmailAddress: email || undefined,
+        webhookStatusUrl: `${backendUrl}/api/onramp/ramp/webhook?sessionId=${encodeURIComponent(sessionId)}`
+      }
+    };
+  }
+
+  // Ramp sessions only move on webhooks
+  async function status(session) {
+    return session;
+  }
+
+  async function webhook(req) {
+    if (!verifySignature(req.rawBody, req.headers['x-body-signature'])) {
+      console.error('Ramp webhook signature verification failed');
+      throw new OnrampError(400, { error: 'Invalid signature' });
+    }
+
+    const { type, purchase } = req.body;
+    const sessionId = req.query.sessionId;
+    const session = sessionId ? paymentSessions.get(sessionId) : null;
+    if (!session || session.provider !== 'ramp') {
+      console.warn(`Ramp webhook ${type} for unknown session ${sessionId}, ignoring`);
+      return { received: true };
+    }
+
+    switch (type) {
+      case 'RELEASED': {
+        // Ramp resends events; only the first one records the delivery
+        if (!recordPaymentStatus(sessionId, 'payment_completed', { providerReference: purchase.id })) break;
+        const deliveredAmount = Number(purchase.cryptoAmount) / Math.pow(10, purchase.asset.decimals);
+        const explorerLink = purchase.finalTxHash ? `https://solscan.io/tx/${purchase.finalTxHash}` : null;
+        recordPaymentStatus(sessionId, session.isTokenSwap ? 'token_swap_completed' : 'sol_transferred', session.isTokenSwap
+          ? { tokenAmount: deliveredAmount, transferTxId: purchase.finalTxHash, explorerLink }
+          : { transferredSolAmount: deliveredAmount, signature: purchase.finalTxHash, explorerLink, transferTimestamp: new Date().toISOString() });
+        break;
+      }
+      case 'RETURNED':
+      case 'ERROR':
+        recordPaymentStatus(sessionId, 'error', {
+          providerReference: purchase.id,
+          error: type === 'RETURNED' ? 'Ramp Network returned your payment' : 'Ramp Network could not complete the purchase'
+        });
+        break;
+      default:
+        console.log(`Ramp purchase ${purchase?.id} for session ${sessionId}: ${type}`);
+    }
+    return { received: true };
+  }
+
+  return {
+    id: 'ramp',
+    name: 'Ramp Network',
+    enabled: Boolean(RAMP_HOST_API_KEY),
+    deliversTokens: true,
+    quote,
+    checkout,
+    status,
+    webhook
+  };
+}
+
+module.exports = { createRampProvider };
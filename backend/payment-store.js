@@ -0,0 +1,308 @@
+const path = require('path');
+const fs = require('fs');
+const Database = require('better-sqlite3');
+
+// Payment sessions survive restarts in SQLite. Every status change goes through
+// transition(), which only allows the moves listed below. Outbound transactions
+// are kept in a ledger keyed by idempotency key, one row per thing we deliver.
+// Recovery actions (failed deliveries, retries, refunds) go to an audit log.
+
+const TRANSITIONS = {
+  created: ['payment_completed', 'error'],
+  payment_completed: ['sol_transferred', 'sol_received', 'token_swap_completed', 'refunded', 'error'],
+  // Token purchases receive SOL first, then swap it
+  sol_received: ['token_swap_completed', 'refunded', 'error'],
+  sol_transferred: [],
+  token_swap_completed: [],
+  // Delivery was refused (e.g. the quoted price no longer holds) and the payment returned
+  refunded: [],
+  // A failed delivery can be retried, and fail again
+  error: ['sol_transferred', 'sol_received', 'token_swap_completed', 'refunded', 'error']
+};
+
+const TERMINAL_STATUSES = Object.keys(TRANSITIONS).filter(status => TRANSITIONS[status].length === 0);
+
+// Ledger entries start as 'sent' once a signed transaction has been recorded;
+// reconciliation against the chain moves them to one of the others
+const TRANSFER_STATUSES = ['sent', 'confirmed', 'failed', 'expired'];
+
+// Paid but not (yet) delivered or refunded
+const UNDELIVERED_STATUSES = ['payment_completed', 'sol_received', 'error'];
+
+class InvalidTransitionError extends Error {
+  constructor(sessionId, from, to) {
+    super(`Payment session ${sessionId} cannot move from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+function canTransition(from, to) {
+  return (TRANSITIONS[from] || []).includes(to);
+}
+
+function createPaymentStore(dbPath = process.env.PAYMENT_DB_PATH || path.join(__dirname, 'data', 'payments.db')) {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS payment_sessions (
+      id TEXT PRIMARY KEY,
+      stripe_session_id TEXT,
+      wallet_address TEXT NOT NULL,
+      status TEXT NOT NULL,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS payment_sessions_stripe ON payment_sessions (stripe_session_id);
+    CREATE TABLE IF NOT EXISTS payment_session_transitions (
+      session_id TEXT NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS fulfilment_ledger (
+      idempotency_key TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      wallet_address TEXT NOT NULL,
+      amount REAL NOT NULL,
+      signature TEXT NOT NULL,
+      last_valid_block_height INTEGER,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      details TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS fulfilment_ledger_session ON fulfilment_ledger (session_id);
+    CREATE TABLE IF NOT EXISTS recovery_audit (
+      session_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      details TEXT NOT NULL,
+      at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS recovery_audit_session ON recovery_audit (session_id);
+  `);
+
+  const insertSession = db.prepare(`
+    INSERT INTO payment_sessions (id, stripe_session_id, wallet_address, status, data, created_at, updated_at)
+    VALUES (@id, @stripeSessionId, @walletAddress, @status, @data, @at, @at)
+  `);
+  const selectSession = db.prepare('SELECT * FROM payment_sessions WHERE id = ?');
+  const updateSession = db.prepare('UPDATE payment_sessions SET status = @status, data = @data, updated_at = @at WHERE id = @id');
+  const insertTransition = db.prepare(`
+    INSERT INTO payment_session_transitions (session_id, from_status, to_status, at)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const upsertTransfer = db.prepare(`
+    INSERT INTO fulfilment_ledger (idempotency_key, session_id, kind, wallet_address, amount, signature,
+      last_valid_block_height, status, attempts, details, created_at, updated_at)
+    VALUES (@key, @sessionId, @kind, @walletAddress, @amount, @signature, @lastValidBlockHeight, 'sent', 1, @details, @at, @at)
+    ON CONFLICT (idempotency_key) DO UPDATE SET
+      signature = excluded.signature,
+      last_valid_block_height = excluded.last_valid_block_height,
+      amount = excluded.amount,
+      details = excluded.details,
+      status = 'sent',
+      attempts = attempts + 1,
+      updated_at = excluded.updated_at
+  `);
+  const selectTransfer = db.prepare('SELECT * FROM fulfilment_ledger WHERE idempotency_key = ?');
+  const updateTransferStatus = db.prepare('UPDATE fulfilment_ledger SET status = ?, updated_at = ? WHERE idempotency_key = ?');
+  const insertAudit = db.prepare('INSERT INTO recovery_audit (session_id, action, actor, details, at) VALUES (?, ?, ?, ?, ?)');
+
+  // Columns are authoritative; `data` holds the rest of the session fields
+  function toSession(row) {
+    if (!row) return null;
+    return {
+      ...JSON.parse(row.data),
+      id: row.id,
+      stripeSessionId: row.stripe_session_id,
+      walletAddress: row.wallet_address,
+      status: row.status,
+      timestamp: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  function create(session) {
+    const at = new Date().toISOString();
+    const { id, stripeSessionId, walletAddress, status, timestamp, updatedAt, ...data } = session;
+    db.transaction(() => {
+      insertSession.run({
+        id,
+        stripeSessionId: stripeSessionId || null,
+        walletAddress,
+        status: 'created',
+        data: JSON.stringify(data),
+        at
+      });
+      insertTransition.run(id, null, 'created', at);
+    })();
+    return get(id);
+  }
+
+  // Create `session` only if `assertRoom` doesn't throw. Both run in one
+  // immediate transaction, so no other writer can slip a session in between.
+  const reserveSession = db.transaction((session, assertRoom) => {
+    assertRoom();
+    return create(session);
+  });
+
+  function reserve(session, assertRoom) {
+    return reserveSession.immediate(session, assertRoom);
+  }
+
+  function get(id) {
+    return toSession(selectSession.get(id));
+  }
+
+  // Remove a session that never got as far as a checkout page. Only unpaid
+  // sessions can go.
+  const discard = db.transaction(id => {
+    if (db.prepare("DELETE FROM payment_sessions WHERE id = ? AND status = 'created'").run(id).changes === 0) return false;
+    db.prepare('DELETE FROM payment_session_transitions WHERE session_id = ?').run(id);
+    return true;
+  });
+
+  function setStripeSessionId(id, stripeSessionId) {
+    db.prepare('UPDATE payment_sessions SET stripe_session_id = ? WHERE id = ?').run(stripeSessionId, id);
+    return get(id);
+  }
+
+  // Move a session to `status`, merging `fields` into its data. Throws
+  // InvalidTransitionError when the transition table doesn't allow the move.
+  const transition = db.transaction((id, status, fields = {}) => {
+    const session = get(id);
+    if (!session) return null;
+    if (!canTransition(session.status, status)) {
+      throw new InvalidTransitionError(id, session.status, status);
+    }
+
+    const at = new Date().toISOString();
+    const { id: _id, stripeSessionId, walletAddress, status: _status, timestamp, updatedAt, ...data } = { ...session, ...fields };
+    updateSession.run({ id, status, data: JSON.stringify(data), at });
+    insertTransition.run(id, session.status, status, at);
+    return get(id);
+  });
+
+  function toTransfer(row) {
+    if (!row) return null;
+    return {
+      key: row.idempotency_key,
+      sessionId: row.session_id,
+      kind: row.kind,
+      walletAddress: row.wallet_address,
+      amount: row.amount,
+      signature: row.signature,
+      lastValidBlockHeight: row.last_valid_block_height,
+      status: row.status,
+      attempts: row.attempts,
+      details: JSON.parse(row.details),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // Record a signed transaction before it is broadcast. Sending again under the
+  // same key replaces the signature and counts another attempt.
+  function recordTransfer({ key, sessionId, kind, walletAddress, amount, signature, lastValidBlockHeight, details = {} }) {
+    upsertTransfer.run({
+      key,
+      sessionId,
+      kind,
+      walletAddress,
+      amount,
+      signature,
+      lastValidBlockHeight: lastValidBlockHeight ?? null,
+      details: JSON.stringify(details),
+      at: new Date().toISOString()
+    });
+    return getTransfer(key);
+  }
+
+  function getTransfer(key) {
+    return toTransfer(selectTransfer.get(key));
+  }
+
+  function setTransferStatus(key, status) {
+    if (!TRANSFER_STATUSES.includes(status)) {
+      throw new Error(`Unknown transfer status: ${status}`);
+    }
+    updateTransferStatus.run(status, new Date().toISOString(), key);
+    return getTransfer(key);
+  }
+
+  function transfers(sessionId) {
+    return db.prepare('SELECT * FROM fulfilment_ledger WHERE session_id = ? ORDER BY created_at').all(sessionId).map(toTransfer);
+  }
+
+  // Sessions a wallet or an email opened at or after `since` (ISO), newest first
+  function sessionsSince({ walletAddress = null, email = null, since }) {
+    return db.prepare(`
+      SELECT * FROM payment_sessions
+      WHERE created_at >= @since AND (wallet_address = @walletAddress OR json_extract(data, '$.email') = @email)
+      ORDER BY created_at DESC
+    `).all({ since, walletAddress, email }).map(toSession);
+  }
+
+  // A wallet's paid sessions that are still waiting for delivery, newest first
+  function undelivered(walletAddress) {
+    return db.prepare(`
+      SELECT * FROM payment_sessions
+      WHERE wallet_address = ? AND status IN (${UNDELIVERED_STATUSES.map(() => '?').join(', ')})
+      ORDER BY created_at DESC
+    `).all(walletAddress, ...UNDELIVERED_STATUSES).map(toSession);
+  }
+
+  // `actor` is who asked: 'system' for automatic steps, 'customer' for retries from the chat
+  function recordAudit({ sessionId, action, actor = 'system', details = {} }) {
+    insertAudit.run(sessionId, action, actor, JSON.stringify(details), new Date().toISOString());
+  }
+
+  function auditLog(sessionId) {
+    return db.prepare('SELECT action, actor, details, at FROM recovery_audit WHERE session_id = ? ORDER BY rowid').all(sessionId)
+      .map(row => ({ ...row, details: JSON.parse(row.details) }));
+  }
+
+  function history(id) {
+    return db.prepare('SELECT from_status AS "from", to_status AS "to", at FROM payment_session_transitions WHERE session_id = ? ORDER BY rowid').all(id);
+  }
+
+  return {
+    create,
+    reserve,
+    discard,
+    get,
+    setStripeSessionId,
+    transition,
+    history,
+    sessionsSince,
+    undelivered,
+    recordTransfer,
+    getTransfer,
+    setTransferStatus,
+    transfers,
+    recordAudit,
+    auditLog,
+    close: () => db.close()
+  };
+}
+
+module.exports = {
+  TRANSITIONS,
+  TERMINAL_STATUSES,
+  TRANSFER_STATUSES,
+  UNDELIVERED_STATUSES,
+  InvalidTransitionError,
+  canTransition,
+  createPaymentStore
+};
@@ -0,0 +1,95 @@
+const fs = require('fs');
+const path = require('path');
+const fetch = require('node-fetch');
+
+// USD token prices for the alert evaluator. The live source asks Birdeye and,
+// like the app's BirdeyeService, falls back to a Jupiter quote when Birdeye has
+// no price. PRICE_PROVIDER=fixture reads fixed prices by symbol instead.
+
+const BIRDEYE_API_BASE = 'https://public-api.birdeye.so';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDC_DECIMALS = 6;
+const REQUEST_TIMEOUT_MS = 5000;
+
+async function fetchJson(url, options = {}) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { ...options, signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`${url.split('?')[0]} responded with status: ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function birdeyePrice(mint) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (process.env.BIRDEYE_API_KEY) {
+    headers['X-API-KEY'] = process.env.BIRDEYE_API_KEY;
+  }
+  const data = await fetchJson(`${BIRDEYE_API_BASE}/defi/price?address=${mint}`, { headers });
+  if (!data || !data.data || typeof data.data.value !== 'number') {
+    throw new Error('Invalid response format from Birdeye API');
+  }
+  return data.data.value;
+}
+
+// What one whole token sells for in USDC
+async function jupiterPrice(mint, decimals) {
+  if (mint === USDC_MINT) return 1;
+  const params = new URLSearchParams({
+    inputMint: mint,
+    outputMint: USDC_MINT,
+    amount: String(10 ** decimals),
+    slippageBps: '50'
+  });
+  const quote = await fetchJson(`https://quote-api.jup.ag/v6/quote?${params}`);
+  if (!quote || !quote.outAmount) {
+    throw new Error('Could not determine price from Jupiter swap quote');
+  }
+  return Number(quote.outAmount) / 10 ** USDC_DECIMALS;
+}
+
+// `getDecimals(mint)` sizes the Jupiter fallback quote
+function createLivePriceSource({ getDecimals }) {
+  return {
+    name: 'live',
+    async priceOf({ mint }) {
+      try {
+        return await birdeyePrice(mint);
+      } catch (error) {
+        console.warn(`Birdeye price failed for ${mint}, falling back to Jupiter:`, error.message);
+        return jupiterPrice(mint, await getDecimals(mint));
+      }
+    }
+  };
+}
+
+function createFixturePriceSource(file = process.env.PRICE_FIXTURE_PATH || path.join(__dirname, 'fixtures', 'onramp', 'token-prices.json')) {
+  return {
+    name: 'fixture',
+    async priceOf({ symbol }) {
+      const price = JSON.parse(fs.readFileSync(file, 'utf8')).prices[symbol.toUpperCase()];
+      if (typeof price !== 'number') {
+        throw new Error(`No fixture price for ${symbol}`);
+      }
+      return price;
+    }
+  };
+}
+
+function createPriceSource(deps, name = process.env.PRICE_PROVIDER || 'live') {
+  switch (name) {
+    case 'live':
+      return createLivePriceSource(deps);
+    case 'fixture':
+      return createFixturePriceSource();
+    default:
+      throw new Error(`Unknown price provider: ${name}`);
+  }
+}
+
+module.exports = { createLivePriceSource, createFixturePriceSource, createPriceSource };
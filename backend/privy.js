@@ -0,0 +1,101 @@
+const crypto = require('crypto');
+const fetch = require('node-fetch');
+
+// Works out who is calling from the Privy access token the browser sends as a
+// bearer token. A verified email on the Privy account unlocks the higher
+// purchase tier, and the wallets linked to it are the ones whose data the
+// caller may see. Without PRIVY_APP_ID, PRIVY_APP_SECRET and
+// PRIVY_VERIFICATION_KEY every buyer is treated as unverified and owns no wallet.
+
+const PRIVY_API_URL = process.env.PRIVY_API_URL || 'https://auth.privy.io/api/v1';
+const USER_CACHE_TTL_MS = 5 * 60 * 1000;
+
+function decodeSegment(segment) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function createPrivyVerifier({
+  appId = process.env.PRIVY_APP_ID,
+  appSecret = process.env.PRIVY_APP_SECRET,
+  // PEM; newlines may be escaped as \n in the environment
+  verificationKey = (process.env.PRIVY_VERIFICATION_KEY || '').replace(/\\n/g, '\n')
+} = {}) {
+  const enabled = Boolean(appId && appSecret && verificationKey);
+  const users = new Map(); // Privy user id -> { user, fetchedAt }
+
+  // The Privy user id (DID) a valid access token was issued to, or null
+  function verifyAccessToken(token) {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+    try {
+      if (decodeSegment(header).alg !== 'ES256') return null;
+      const valid = crypto.verify(
+        'sha256',
+        Buffer.from(`${header}.${payload}`),
+        { key: verificationKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url')
+      );
+      if (!valid) return null;
+
+      const claims = decodeSegment(payload);
+      if (claims.iss !== 'privy.io' || claims.aud !== appId || claims.exp * 1000 <= Date.now()) return null;
+      return claims.sub;
+    } catch (error) {
+      console.warn('Could not verify Privy access token:', error.message);
+      return null;
+    }
+  }
+
+  async function fetchUser(userId) {
+    const cached = users.get(userId);
+    if (cached && Date.now() - cached.fetchedAt < USER_CACHE_TTL_MS) return cached.user;
+
+    const response = await fetch(`${PRIVY_API_URL}/users/${encodeURIComponent(userId)}`, {
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${appId}:${appSecret}`).toString('base64')}`,
+        'privy-app-id': appId
+      }
+    });
+    if (!response.ok) {
+      throw new Error(`Privy API returned error: ${response.status}`);
+    }
+    const user = await response.json();
+    users.set(userId, { user, fetchedAt: Date.now() });
+    return user;
+  }
+
+  // The Privy user behind the request's access token, or null
+  async function requestUser(req) {
+    if (!enabled) return null;
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const userId = token ? verifyAccessToken(token) : null;
+    if (!userId) return null;
+
+    try {
+      return await fetchUser(userId);
+    } catch (error) {
+      console.error('Error looking up Privy user:', error);
+      return null;
+    }
+  }
+
+  // The verified email of the request's Privy user, or null. Privy only links
+  // an email account once its one-time code has been entered.
+  async function verifiedEmail(req) {
+    const user = await requestUser(req);
+    const email = (user?.linked_accounts || []).find(account => account.type === 'email' && account.address);
+    return email ? email.address.toLowerCase() : null;
+  }
+
+  // Whether `walletAddress` is linked to the request's Privy user, either as an
+  // embedded wallet or one they signed in with
+  async function ownsWallet(req, walletAddress) {
+    if (typeof walletAddress !== 'string' || !walletAddress) return false;
+    const user = await requestUser(req);
+    return (user?.linked_accounts || []).some(account => account.type === 'wallet' && account.address === walletAddress);
+  }
+
+  return { enabled, verifiedEmail, ownsWallet };
+}
+
+module.exports = { createPrivyVerifier };
@@ -0,0 +1,143 @@
+const { OnrampError } = require('./onramp');
+const { SUPPORTED_CURRENCIES } = require('./currency');
+
+// Fiat purchase limits, counted in USD over rolling windows from the payment
+// sessions a buyer has opened. Spending is capped per wallet and, when the buyer
+// has verified an email through Privy, per email as well; the verified tier has
+// higher caps. Velocity limits how many checkouts can be opened in a short window.
+
+function envNumber(name, fallback) {
+  const value = parseFloat(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const TIERS = {
+  unverified: {
+    daily: envNumber('PURCHASE_LIMIT_DAILY_USD', 100),
+    monthly: envNumber('PURCHASE_LIMIT_MONTHLY_USD', 500)
+  },
+  email_verified: {
+    daily: envNumber('VERIFIED_PURCHASE_LIMIT_DAILY_USD', 1000),
+    monthly: envNumber('VERIFIED_PURCHASE_LIMIT_MONTHLY_USD', 5000)
+  }
+};
+
+const VELOCITY_MAX_CHECKOUTS = envNumber('PURCHASE_VELOCITY_MAX_CHECKOUTS', 3);
+const VELOCITY_WINDOW_MS = envNumber('PURCHASE_VELOCITY_WINDOW_MS', 10 * 60 * 1000);
+// Unpaid checkouts hold their amount this long; Stripe checkout pages expire then too
+const CHECKOUT_HOLD_MS = 30 * 60 * 1000;
+// Sessions whose payment was returned. 'error' still counts: a paid session
+// whose delivery failed is waiting on a retry or refund, not released.
+const RELEASED_STATUSES = ['refunded'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+function createPurchaseLimits({ paymentSessions, currencyConverter }) {
+  // USD rates of every currency a session can be in, read up front so usage can
+  // be counted synchronously inside a store transaction
+  async function loadRates() {
+    const rates = {};
+    for (const currency of SUPPORTED_CURRENCIES) {
+      rates[currency] = await currencyConverter.rate(currency);
+    }
+    return rates;
+  }
+
+  // Sessions keep the amount in their own currency (smallest unit)
+  function sessionUsd(session, rates) {
+    return (session.amount || 0) / 100 / rates[session.currency || 'usd'];
+  }
+
+  // What counts against the limits: paid sessions that weren't refunded, and
+  // checkouts still open
+  function counts(session, now) {
+    if (RELEASED_STATUSES.includes(session.status)) return false;
+    if (session.status === 'created') return now - new Date(session.timestamp).getTime() < CHECKOUT_HOLD_MS;
+    return true;
+  }
+
+  function scopeUsage(scope, now, rates) {
+    const sessions = paymentSessions.sessionsSince({ ...scope, since: new Date(now - MONTH_MS).toISOString() })
+      .filter(session => counts(session, now));
+
+    let daily = 0;
+    let monthly = 0;
+    for (const session of sessions) {
+      const usd = sessionUsd(session, rates);
+      monthly += usd;
+      if (now - new Date(session.timestamp).getTime() < DAY_MS) daily += usd;
+    }
+    const recent = paymentSessions.sessionsSince({ ...scope, since: new Date(now - VELOCITY_WINDOW_MS).toISOString() });
+    // Sessions come newest first; the oldest in the window frees up first
+    const oldestRecent = recent.length ? new Date(recent[recent.length - 1].timestamp).getTime() : now;
+    return { daily, monthly, checkouts: recent.length, velocityResetAt: oldestRecent + VELOCITY_WINDOW_MS };
+  }
+
+  // Remaining allowance for a buyer, in `currency`. The tighter of the wallet
+  // and email scopes applies.
+  function allowanceAt({ walletAddress, email }, currency, rates, now) {
+    const tier = email ? 'email_verified' : 'unverified';
+    const limits = TIERS[tier];
+
+    const scopes = [scopeUsage({ walletAddress }, now, rates)];
+    if (email) scopes.push(scopeUsage({ email }, now, rates));
+    const spentToday = Math.max(...scopes.map(scope => scope.daily));
+    const spentThisMonth = Math.max(...scopes.map(scope => scope.monthly));
+    const checkouts = Math.max(...scopes.map(scope => scope.checkouts));
+
+    const inCurrency = usd => Math.floor(Math.max(0, usd) * rates[currency] * 100) / 100;
+    return {
+      tier,
+      currency,
+      dailyLimit: inCurrency(limits.daily),
+      monthlyLimit: inCurrency(limits.monthly),
+      remainingToday: inCurrency(limits.daily - spentToday),
+      remainingThisMonth: inCurrency(limits.monthly - spentThisMonth),
+      remaining: inCurrency(Math.min(limits.daily - spentToday, limits.monthly - spentThisMonth)),
+      checkoutsInWindow: checkouts,
+      maxCheckouts: VELOCITY_MAX_CHECKOUTS,
+      velocityResetAt: checkouts >= VELOCITY_MAX_CHECKOUTS
+        ? new Date(Math.max(...scopes.map(scope => scope.velocityResetAt))).toISOString()
+        : null,
+      // What verifying an email would unlock
+      verifiedDailyLimit: tier === 'unverified' ? inCurrency(TIERS.email_verified.daily) : null
+    };
+  }
+
+  async function allowance(buyer, currency = 'usd') {
+    return allowanceAt(buyer, currency, await loadRates(), Date.now());
+  }
+
+  // Throws an OnrampError saying which limit a purchase of `amount` in
+  // `currency` would break, with the allowance that is left
+  function assertAllowed(buyer, amount, currency, rates) {
+    const current = allowanceAt(buyer, currency, rates, Date.now());
+    const refuse = (reason, error) => {
+      throw new OnrampError(403, { error, code: 'limit_exceeded', reason, allowance: current });
+    };
+    const unit = currency.toUpperCase();
+
+    if (current.checkoutsInWindow >= VELOCITY_MAX_CHECKOUTS) {
+      refuse('velocity', 'Too many purchases in a short time. Please wait a few minutes before starting another');
+    }
+    if (amount > current.remainingThisMonth) {
+      refuse('monthly', `This purchase is over your 30-day limit. You can spend ${current.remainingThisMonth.toFixed(2)} ${unit} more this month`);
+    }
+    if (amount > current.remainingToday) {
+      refuse('daily', `This purchase is over your daily limit. You can spend ${current.remainingToday.toFixed(2)} ${unit} more today`);
+    }
+  }
+
+  // Opens the payment `session` for a purchase of `amount` in `currency`, or
+  // throws like assertAllowed. The check and the insert share one store
+  // transaction, so concurrent checkouts can't both fit under the same limit.
+  async function reserve(buyer, amount, currency, session) {
+    const rates = await loadRates();
+    return paymentSessions.reserve(session, () => assertAllowed(buyer, amount, currency, rates));
+  }
+
+  return { allowance, reserve };
+}
+
+module.exports = { TIERS, createPurchaseLimits };
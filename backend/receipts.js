@@ -0,0 +1,110 @@
+// Downloadable history: a CSV of every entry and a one-page PDF receipt per
+// entry. The PDF is written by hand (one page of Helvetica text), so it only
+// carries ASCII; amounts use currency codes rather than symbols.
+
+const KIND_LABELS = {
+  fiat_purchase: 'Card purchase',
+  swap: 'Swap',
+  solend_deposit: 'Solend deposit'
+};
+
+// Fiat to the cent and tokens to six places; amounts under 1 (like the price of
+// a memecoin) keep four significant digits instead
+function formatAmount(amount, unit) {
+  if (amount == null) return '';
+  const digits = /^[a-z]{3}$/.test(unit) ? 2 : 6;
+  const value = amount > 0 && amount < 1 ? Number(amount.toPrecision(4)) : Number(amount.toFixed(digits));
+  return `${value} ${unit.toUpperCase()}`;
+}
+
+// === CSV ===
+const CSV_COLUMNS = [
+  ['Date', entry => entry.timestamp],
+  ['Type', entry => KIND_LABELS[entry.kind]],
+  ['Description', entry => entry.description],
+  ['Status', entry => entry.status],
+  ['Provider', entry => entry.provider],
+  ['Paid', entry => entry.paid.amount],
+  ['Paid currency', entry => entry.paid.currency.toUpperCase()],
+  ['Received', entry => entry.received?.amount ?? ''],
+  ['Received asset', entry => entry.received?.symbol ?? ''],
+  ['Effective price', entry => entry.effectivePrice ?? ''],
+  ['Fees', entry => entry.fees?.amount ?? ''],
+  ['Fee currency', entry => entry.fees?.currency.toUpperCase() ?? ''],
+  ['Transactions', entry => entry.explorerLinks.map(link => link.url).join(' ')]
+];
+
+function csvCell(value) {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function historyCsv(entries) {
+  return [
+    CSV_COLUMNS.map(([header]) => header),
+    ...entries.map(entry => CSV_COLUMNS.map(([, value]) => value(entry)))
+  ].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+// === PDF ===
+function pdfString(text) {
+  return `(${text.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, '\\$&')})`;
+}
+
+// A single A4 page with `lines` of text, as [text, fontSize] pairs
+function pdfDocument(lines) {
+  const content = ['BT', '/F1 11 Tf', '56 780 Td', '16 TL']
+    .concat(lines.map(([text, size = 11]) => `/F1 ${size} Tf ${pdfString(text)} Tj T*`))
+    .concat('ET')
+    .join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+function receiptPdf(entry, walletAddress) {
+  const row = (label, value) => [`${label}: ${value}`];
+  const lines = [
+    ['House of Web3 - Receipt', 18],
+    [''],
+    row('Receipt', entry.id),
+    row('Date', new Date(entry.timestamp).toUTCString()),
+    row('Wallet', walletAddress),
+    row('Type', KIND_LABELS[entry.kind]),
+    row('Description', entry.description),
+    row('Provider', entry.provider),
+    row('Status', entry.status),
+    [''],
+    row('Paid', formatAmount(entry.paid.amount, entry.paid.currency))
+  ];
+  if (entry.received) lines.push(row('Received', formatAmount(entry.received.amount, entry.received.symbol)));
+  if (entry.effectivePrice != null) {
+    lines.push(row('Effective price', `${formatAmount(entry.effectivePrice, entry.paid.currency)} per ${entry.received.symbol}`));
+  }
+  if (entry.fees) lines.push(row('Fees', formatAmount(entry.fees.amount, entry.fees.currency)));
+  if (entry.refundReason) lines.push(row('Refund', entry.refundReason));
+  if (entry.explorerLinks.length) {
+    lines.push([''], ['Transactions']);
+    entry.explorerLinks.forEach(link => lines.push([`${link.label}: ${link.url}`, 9]));
+  }
+  return pdfDocument(lines);
+}
+
+module.exports = { historyCsv, receiptPdf };
@@ -0,0 +1,214 @@
+// Replays recorded Stripe webhook payloads against a throwaway backend.
+//
+//   node scripts/replay-webhooks.js [fixture.json ...]
+//
+// The script starts its own backend on REPLAY_PORT with empty databases in a
+// temporary directory, a test-mode Stripe key, a webhook secret of its own and
+// no funding wallet, so delivery fails before anything is signed and no funds
+// can move. It refuses to run at all while FUNDING_WALLET_SECRET or a live
+// Stripe key is configured, here or in .env.
+//
+// The payment session each payload refers to (metadata.sessionId) is created in
+// the store first, as checkout would have. Each payload is then signed the way
+// Stripe would sign it, and sent once with a valid signature and once with a bad
+// one, which must be rejected. The session must end in the status listed for its
+// fixture in EXPECTED_STATUSES; payloads not listed there only have their status
+// printed. Without arguments every file in fixtures/webhooks is replayed, and
+// the script exits non-zero if any replay fails (`npm test`).
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const { spawn } = require('child_process');
+const Stripe = require('stripe');
+const fetch = require('node-fetch');
+const { createPaymentStore } = require('../payment-store');
+
+require('dotenv').config({ path: path.join(__dirname, '..', '.env') });
+
+const PORT = process.env.REPLAY_PORT || 4099;
+const BACKEND_URL = `http://localhost:${PORT}`;
+const WEBHOOK_SECRET = `whsec_replay_${crypto.randomBytes(16).toString('hex')}`;
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'webhooks');
+// How long the backend gets to attempt delivery before the status is read back
+const STATUS_TIMEOUT_MS = 20000;
+const STATUS_POLL_MS = 500;
+const STARTUP_TIMEOUT_MS = 30000;
+
+// Without a funding wallet a paid checkout fails delivery; an unpaid one is
+// left waiting for its payment
+const EXPECTED_STATUSES = {
+  'checkout-session-completed-sol.json': 'error',
+  'checkout-session-completed-token.json': 'error',
+  'checkout-session-completed-unpaid.json': 'created'
+};
+
+// Only used to sign payloads locally; never sent to Stripe
+const stripe = Stripe('sk_test_replay');
+
+// Settings under which the replayed webhooks could move real funds
+function unsafeSettings() {
+  const unsafe = [];
+  if (process.env.FUNDING_WALLET_SECRET) unsafe.push('FUNDING_WALLET_SECRET is set');
+  if (/^(sk|rk)_live_/.test(process.env.STRIPE_SECRET_KEY_LIVE || '')) unsafe.push('STRIPE_SECRET_KEY_LIVE is a live key');
+  return unsafe;
+}
+
+// A backend with nothing it could deliver or charge with
+function startBackend(dataDir) {
+  const env = {
+    PATH: process.env.PATH,
+    PORT: String(PORT),
+    STRIPE_SECRET_KEY_LIVE: 'sk_test_replay',
+    STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET,
+    PAYMENT_DB_PATH: path.join(dataDir, 'payments.db'),
+    ACTIVITY_DB_PATH: path.join(dataDir, 'activity.db'),
+    ALERTS_DB_PATH: path.join(dataDir, 'alerts.db'),
+    CHAT_SESSIONS_DB_PATH: path.join(dataDir, 'chat-sessions.db'),
+    FX_PROVIDER: 'fixture'
+  };
+  const backend = spawn(process.execPath, [path.join(__dirname, '..', 'index.js')], {
+    cwd: dataDir,
+    env,
+    stdio: ['ignore', 'inherit', 'inherit']
+  });
+  return backend;
+}
+
+async function waitForBackend(backend) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (backend.exitCode !== null) throw new Error(`Backend exited with code ${backend.exitCode}`);
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/health`);
+      if (response.ok) return;
+    } catch (error) {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  throw new Error(`Backend did not start within ${STARTUP_TIMEOUT_MS / 1000}s`);
+}
+
+// The session checkout would have stored before sending the buyer to Stripe
+function seedSessions(files, paymentDbPath) {
+  const store = createPaymentStore(paymentDbPath);
+  try {
+    for (const file of files) {
+      const checkoutSession = JSON.parse(fs.readFileSync(file, 'utf8')).data?.object || {};
+      const metadata = checkoutSession.metadata || {};
+      if (!metadata.sessionId || store.get(metadata.sessionId)) continue;
+      store.create({
+        id: metadata.sessionId,
+        provider: 'stripe',
+        stripeSessionId: checkoutSession.id,
+        walletAddress: metadata.walletAddress,
+        amount: checkoutSession.amount_total,
+        currency: checkoutSession.currency,
+        solAmount: parseFloat(metadata.solAmount),
+        isTokenSwap: metadata.isTokenSwap === 'true',
+        tokenSymbol: metadata.tokenSymbol || null,
+        tokenAddress: metadata.tokenAddress || null,
+        tokenAmount: metadata.tokenAmount ? parseFloat(metadata.tokenAmount) : null
+      });
+    }
+  } finally {
+    store.close();
+  }
+}
+
+// Read straight from the backend's store; the status route needs a signed-in
+// wallet. Waits until the session reaches `expected`, or returns what it has
+// once the backend has had time to deliver.
+async function readSession(paymentDbPath, sessionId, expected) {
+  const deadline = Date.now() + STATUS_TIMEOUT_MS;
+  while (true) {
+    const store = createPaymentStore(paymentDbPath);
+    const session = store.get(sessionId);
+    store.close();
+    if (session?.status === expected || Date.now() >= deadline) return session;
+    await new Promise(resolve => setTimeout(resolve, STATUS_POLL_MS));
+  }
+}
+
+async function sendWebhook(payload, secret) {
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const response = await fetch(`${BACKEND_URL}/api/stripe/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+    body: payload
+  });
+  return response.status;
+}
+
+async function replay(file, paymentDbPath) {
+  const payload = fs.readFileSync(file, 'utf8');
+  const event = JSON.parse(payload);
+  const name = path.basename(file);
+  let ok = true;
+
+  const tamperedStatus = await sendWebhook(payload, `${WEBHOOK_SECRET}_wrong`);
+  if (tamperedStatus !== 400) {
+    console.error(`✗ ${name}: bad signature was answered with ${tamperedStatus}, expected 400`);
+    ok = false;
+  }
+
+  const status = await sendWebhook(payload, WEBHOOK_SECRET);
+  if (status !== 200) {
+    console.error(`✗ ${name}: webhook was answered with ${status}, expected 200`);
+    return false;
+  }
+
+  const sessionId = event.data?.object?.metadata?.sessionId;
+  if (sessionId) {
+    const expected = EXPECTED_STATUSES[name];
+    const session = await readSession(paymentDbPath, sessionId, expected);
+    const actual = session ? session.status : 'no session';
+    if (expected && actual !== expected) {
+      console.error(`✗ ${name}: session ended in ${actual}, expected ${expected}`);
+      ok = false;
+    }
+    console.log(`${ok ? '✓' : '✗'} ${name}: ${event.type} -> ${actual}${expected ? '' : ' (no expected status)'}`);
+    if (session?.error) console.log(`    ${session.error}`);
+  } else {
+    console.log(`${ok ? '✓' : '✗'} ${name}: ${event.type} accepted`);
+  }
+  return ok;
+}
+
+async function main() {
+  const unsafe = unsafeSettings();
+  if (unsafe.length) {
+    console.error(`Refusing to replay webhooks: ${unsafe.join(', ')}. Unset them so no funds can move.`);
+    process.exit(1);
+  }
+
+  const files = process.argv.length > 2
+    ? process.argv.slice(2).map(file => path.resolve(file))
+    : fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.json')).sort().map(file => path.join(FIXTURES_DIR, file));
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'how3-replay-'));
+  seedSessions(files, path.join(dataDir, 'payments.db'));
+  const backend = startBackend(dataDir);
+  let failures = 0;
+  try {
+    await waitForBackend(backend);
+    for (const file of files) {
+      if (!(await replay(file, path.join(dataDir, 'payments.db')))) failures++;
+    }
+  } finally {
+    backend.kill();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${files.length} webhook replays failed`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('Error replaying webhooks:', error);
+  process.exit(1);
+});
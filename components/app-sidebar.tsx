@@ -14,6 +14,7 @@ import {
 import { useRouter, usePathname, useSearchParams } from "next/navigation"
 import Image from "next/image"
 import { Suspense } from "react"
+import { ChatSessionList } from "@/components/chat-session-list"
 
 // Create a client component that uses useSearchParams
 function AppSidebarContent() {
@@ -102,6 +103,7 @@ function AppSidebarContent() {
             </SidebarMenuItem>
           ))}
         </SidebarMenu>
+        <ChatSessionList />
       </SidebarContent>
     </>
   )
@@ -1,11 +1,13 @@
 "use client"
-import { useRef, useEffect, useState } from "react"
+import { useRef, useEffect, useState, useMemo, useCallback } from "react"
+import { useSearchParams } from "next/navigation"
 import { Connection, clusterApiUrl, PublicKey, VersionedTransaction } from "@solana/web3.js"
 import { cn } from "@/lib/utils"
-import tokenList from '../token.json'
-import config from '../lib/config'
-import { getAlchemyConnection, processLLMResponse, generateMessageId, extractTokenSymbolFromYieldQuery } from './chat/utils'
+import { getAlchemyConnection, streamLLMResponse, generateMessageId, extractTokenSymbolFromYieldQuery, formatFiatAmount, describePurchase } from './chat/utils'
+import { fetchTokenBalance } from './chat/balance-service'
+import { loadPortfolio, findHolding } from './chat/portfolio-service'
 import { submitSolendLend } from './chat/solend-service'
+import { textPart, progressPart, progressSteps, settleActiveStep, transactionLinkPart, messageText } from './chat/messages'
 import {
   useChatState,
   useWalletState,
@@ -13,16 +15,104 @@ import {
   useJupiterState,
   // useRaydiumState,
   useLendingState,
+  useChatSessionPersistence,
   usePassiveIncomeState,
-  useLendingOptions
+  useLendingOptions,
+  useSlotFillingState
 } from './chat/hooks'
 import { ChatMessage } from './chat/ChatMessage'
 import { QuoteWidget } from './chat/QuoteWidget'
-import { SwapWidget } from './chat/SwapWidget'
-import { SolendPoolsWidget } from './chat/SolendPoolsWidget'
+import { QuoteComparison } from './chat/QuoteComparison'
 import { LendingConfirmWidget } from './chat/LendingConfirmWidget'
 import { ChatInputArea } from './chat/ChatInputArea'
-import { SolendPool, Message } from './chat/types'
+import { SolendPool, MessagePart, LLMResponse, PurchaseAmount, UndeliveredPaymentPart, TokenCandidate } from './chat/types'
+import {
+  IDLE_SLOT_FILLING,
+  advanceSlotFilling,
+  describeSlotFillableIntent,
+  isCancelMessage
+} from './chat/slot-filling'
+import { buildConversationContext, updateConversationSlots } from '@/lib/llm/context'
+import { SessionWidgetState } from './chat/session-store'
+import { PaymentSessionStatus, UndeliveredPayment, fetchUndeliveredPayments, isTerminalPaymentStatus, pollPaymentStatus, requestFulfilment } from '@/lib/payments/payment-status'
+import { BelowMinimumError, LockedQuoteParams, PurchaseLimitError, QuoteExpiredError } from '@/hooks/useOnramp'
+import { describeAllowance, describeLimitRefusal, exceededLimit } from '@/lib/payments/purchase-limits'
+import { useCurrencyPreference } from '@/hooks/useCurrencyPreference'
+import { formatCompactCurrency, formatFee, formatUnitPrice } from '@/lib/currency'
+import { reportActivity } from '@/lib/history'
+import { TokenInfo, tokenRegistry } from '@/lib/tokens/registry'
+import { loadTokenCandidates } from './chat/token-candidates'
+import { TokenRiskReport, analyzeTokenRisk } from '@/lib/tokens/risk'
+import { getMarketDataProvider } from '@/lib/market'
+import { AlertDirection, PriceAlert, createAlert, describeAlert, describeTriggeredAlert, requestAlertNotifications, watchToken } from '@/lib/alerts'
+import { useTriggeredAlerts } from '@/hooks/useTriggeredAlerts'
+
+// Token a "sell" goes into when the user doesn't name one
+const DEFAULT_SELL_TOKEN = 'USDC'
+// SOL left in the wallet for network fees when swapping a share of the SOL balance
+const SOL_FEE_RESERVE = 0.01
+// Progress shown on the lending message while a deposit goes through
+const LENDING_STEPS = ['Preparing the transaction', 'Approve the transaction in your wallet']
+
+// Progress shown on a fiat purchase while its payment session settles
+function purchaseSteps(tokenSymbol: string): string[] {
+  return [
+    'Complete the payment in Stripe',
+    tokenSymbol === 'SOL' ? 'Send SOL to your wallet' : `Swap SOL to ${tokenSymbol} and send it to your wallet`
+  ]
+}
+
+function paymentProgressParts(session: PaymentSessionStatus, tokenSymbol: string): MessagePart[] {
+  const steps = purchaseSteps(tokenSymbol)
+  switch (session.status) {
+    case 'created':
+      return [progressPart("Waiting for your payment", progressSteps(steps, 0))]
+    case 'payment_completed':
+    case 'sol_received':
+      return [progressPart(`Payment received. Sending ${tokenSymbol} to your wallet`, progressSteps(steps, 1))]
+    case 'sol_transferred':
+    case 'token_swap_completed':
+      return [
+        progressPart(`${tokenSymbol} delivered to your wallet`, progressSteps(steps, steps.length)),
+        ...(session.explorerLink ? [transactionLinkPart(session.explorerLink)] : [])
+      ]
+    case 'refunded':
+      return [progressPart(
+        session.message,
+        settleActiveStep(progressSteps(steps, 1), 'error')
+      )]
+    case 'error':
+      return [progressPart(
+        `Delivery failed: ${session.error || 'Unknown error'}`,
+        settleActiveStep(progressSteps(steps, 1), 'error')
+      )]
+  }
+}
+
+// A retried delivery that had already gone through: say so instead of implying it was sent again
+function alreadyFulfilledParts(session: PaymentSessionStatus, tokenSymbol: string): MessagePart[] {
+  return [
+    progressPart(`Already fulfilled: your ${tokenSymbol} was delivered to your wallet earlier`, progressSteps(purchaseSteps(tokenSymbol), 2)),
+    ...(session.explorerLink ? [transactionLinkPart(session.explorerLink)] : [])
+  ]
+}
+
+// A delivery that failed again keeps its retry card
+function deliveryResultParts(payment: UndeliveredPayment, tokenSymbol: string): MessagePart[] {
+  const parts = paymentProgressParts(payment, tokenSymbol)
+  return payment.status === 'error' ? [...parts, { type: "undelivered-payment", payment }] : parts
+}
+
+// A failed delivery seen while following a checkout gets the same retry card as
+// one found when the chat loads
+function failedDeliveryParts(session: PaymentSessionStatus, tokenSymbol: string): MessagePart[] {
+  const { amount, currency, timestamp } = session
+  return amount != null && currency && timestamp
+    ? deliveryResultParts({ ...session, amount, currency, timestamp }, tokenSymbol)
+    : paymentProgressParts(session, tokenSymbol)
+}
+
+const paymentTokenSymbol = (payment: PaymentSessionStatus) => payment.isTokenSwap ? payment.tokenSymbol || 'Token' : 'SOL'
 
 export default function ChatInterface() {
   // Use the custom hooks to manage state
@@ -32,7 +122,11 @@ export default function ChatInterface() {
     input,
     setInput,
     isTyping,
-    setIsTyping
+    setIsTyping,
+    isStreaming,
+    setIsStreaming,
+    conversationSlots,
+    setConversationSlots
   } = useChatState();
 
   // Reference to track processed transaction signatures to avoid duplicates
@@ -46,20 +140,24 @@ export default function ChatInterface() {
     isAuthenticated,
     walletAddress,
     privySendTransaction,
+    getAccessToken,
     activeWalletAddress,
     isWalletConnected
   } = useWalletState();
   const {
     isProcessing: isProcessingBuy,
+    quotes: onrampQuotes,
     currentQuote,
     error: onrampError,
-    getQuote,
+    getQuotes,
+    selectQuote,
     confirmPurchase,
+    getAllowance,
     cancelPurchase,
-    handleSuccess,
-    handleCancel,
     proceedToCheckout
   } = useOnrampState();
+  // Fiat currency for buy requests that don't name one
+  const { currency: preferredCurrency } = useCurrencyPreference(activeWalletAddress);
 
   // // Use Raydium for devnet swaps instead of Jupiter
   // const {
@@ -97,6 +195,8 @@ export default function ChatInterface() {
     setPassiveIncomeHandlers
   } = usePassiveIncomeState();
 
+  const { slotFilling, setSlotFilling } = useSlotFillingState();
+
   const { showLendingOptions } = useLendingOptions(
     setMessages,
     setLendingToken,
@@ -104,6 +204,11 @@ export default function ChatInterface() {
   );
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  // Payment status polls in flight, stopped when the chat unmounts
+  const paymentWatchersRef = useRef<Set<AbortController>>(new Set());
+  // The fiat token purchase whose locked quote is on screen, so it can be re-quoted
+  const fiatPurchaseRef = useRef<{ messageId: string; request: LockedQuoteParams } | null>(null);
 
   const {
     isLoading: isLoadingSwap,
@@ -114,56 +219,344 @@ export default function ChatInterface() {
     executeSwap: executeJupiterSwap,
     clearOrder: clearJupiterOrder,
     clearResult: clearJupiterSwapResult,
+    restoreOrder: restoreJupiterOrder,
   } = useJupiterState();
 
   const [swapQuoteWidget, setSwapQuoteWidget] = useState<any>(null); // Added for Jupiter
   const [isSwapProcessing, setIsSwapProcessing] = useState<boolean>(false); // Added for Jupiter
 
-  // Token interface matching the expected structure
-  interface TokenInfo {
-    name: string;
-    symbol: string;
-    address: string;
-    decimals: number;
-    logoURI?: string;
-  }
+  // The open token picker, and the flow to run again once a token is picked
+  const [tokenPicker, setTokenPicker] = useState<{ messageId: string; resume: () => void } | null>(null);
+  // Mints picked for ambiguous token names this session. Kept in a ref as well
+  // as the slots so a flow resumed straight after a pick already sees it.
+  const tokenChoicesRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    tokenChoicesRef.current = conversationSlots.tokenChoices || {};
+  }, [conversationSlots.tokenChoices]);
+
+  // A purchase held back by a high-risk report, and how to carry on with it
+  const [riskGate, setRiskGate] = useState<{ messageId: string; mint: string; resume: () => void } | null>(null);
+  // Mints the user chose to buy despite their report
+  const acceptedRiskMints = useRef<Set<string>>(new Set());
+
+  // When restored widgets were first saved, so restoring does not extend their lifetime
+  const restoredWidgetTimes = useRef<{ swapRequestId?: string; swapSavedAt?: number; lendingMint?: string; lendingSavedAt?: number }>({});
+
+  const sessionWidgets = useMemo<SessionWidgetState>(() => {
+    const widgets: SessionWidgetState = {};
+    const restored = restoredWidgetTimes.current;
+    if (swapQuoteWidget && jupiterOrder && jupiterOrder.requestId === swapQuoteWidget.requestId) {
+      widgets.swapQuote = {
+        quote: swapQuoteWidget,
+        order: jupiterOrder,
+        savedAt: restored.swapRequestId === swapQuoteWidget.requestId && restored.swapSavedAt ? restored.swapSavedAt : Date.now()
+      };
+    }
+    if (lendingToken && (solendPools || showLendingConfirm)) {
+      widgets.lending = {
+        token: lendingToken,
+        pools: solendPools,
+        selectedPool,
+        amount: lendingAmount,
+        showConfirm: showLendingConfirm,
+        savedAt: restored.lendingMint === lendingToken.mint && restored.lendingSavedAt ? restored.lendingSavedAt : Date.now()
+      };
+    }
+    return widgets;
+  }, [swapQuoteWidget, jupiterOrder, lendingToken, solendPools, selectedPool, lendingAmount, showLendingConfirm]);
+
+  // Put back the widgets a resumed session can still act on, clearing the rest
+  const restoreSessionWidgets = useCallback((widgets: SessionWidgetState) => {
+    restoredWidgetTimes.current = {
+      swapRequestId: widgets.swapQuote?.quote.requestId,
+      swapSavedAt: widgets.swapQuote?.savedAt,
+      lendingMint: widgets.lending?.token.mint,
+      lendingSavedAt: widgets.lending?.savedAt
+    };
+
+    if (widgets.swapQuote) {
+      restoreJupiterOrder(widgets.swapQuote.order);
+      setSwapQuoteWidget(widgets.swapQuote.quote);
+    } else {
+      clearJupiterOrder();
+      setSwapQuoteWidget(null);
+    }
+
+    setLendingToken(widgets.lending?.token ?? null);
+    setSolendPools(widgets.lending?.pools ?? null);
+    setSelectedPool(widgets.lending?.selectedPool ?? null);
+    setLendingAmount(widgets.lending?.amount ?? null);
+    setShowLendingConfirm(widgets.lending?.showConfirm ?? false);
+    setSlotFilling(IDLE_SLOT_FILLING);
+  }, [restoreJupiterOrder, clearJupiterOrder, setLendingToken, setSolendPools, setSelectedPool, setLendingAmount, setShowLendingConfirm, setSlotFilling]);
+
+  const searchParams = useSearchParams();
+  const requestedSessionId = searchParams.get('session');
+  const { sessionId: chatSessionId } = useChatSessionPersistence({
+    walletAddress: activeWalletAddress,
+    requestedSessionId,
+    messages,
+    setMessages,
+    slots: conversationSlots,
+    setSlots: setConversationSlots,
+    widgets: sessionWidgets,
+    onRestoreWidgets: restoreSessionWidgets
+  });
+
+  // Pin "new" chats to their id so a refresh comes back to the same session
+  useEffect(() => {
+    if (requestedSessionId === 'new' && chatSessionId) {
+      window.history.replaceState({}, '', `/?session=${chatSessionId}`);
+    }
+  }, [requestedSessionId, chatSessionId]);
 
-  // Helper function to find token by name or symbol
+  // Find a token by symbol, name or mint. An ambiguous name resolves to the
+  // mint picked for it this session, otherwise to its best-ranked mint.
   const findToken = async (tokenName: string): Promise<TokenInfo | undefined> => {
-    const normalizedTokenName = tokenName.toLowerCase();
-    
-    // First try the local token list
-    const localToken = tokenList.find(token =>
-      token.symbol.toLowerCase() === normalizedTokenName ||
-      token.name.toLowerCase().includes(normalizedTokenName)
-    );
-    
-    if (localToken) {
-      return localToken as TokenInfo;
+    const chosenMint = tokenChoicesRef.current[tokenName.trim().toLowerCase()];
+    const { token } = await tokenRegistry.resolve(chosenMint || tokenName);
+    return token ?? undefined;
+  };
+
+  // `quantity` of `from` in units of `to` at current USD prices, or null when
+  // either token can't be priced
+  const convertTokenAmount = async (quantity: number, from: TokenInfo, to: TokenInfo): Promise<number | null> => {
+    if (from.address === to.address) return quantity;
+    const birdeyeService = (await import('@/src/services/BirdeyeService')).default;
+    const [fromPrice, toPrice] = await Promise.all([
+      birdeyeService.getTokenPrice(from.address),
+      birdeyeService.getTokenPrice(to.address)
+    ]);
+    if (!fromPrice.success || !fromPrice.price || !toPrice.success || !toPrice.price) return null;
+    return quantity * fromPrice.price / toPrice.price;
+  };
+
+  // When a token name fits several tokens equally well and none has been picked
+  // for it yet, show a picker and return true. `resume` runs once one is picked.
+  const askWhichToken = async (tokenName: string, resume: () => void): Promise<boolean> => {
+    if (tokenChoicesRef.current[tokenName.trim().toLowerCase()]) return false;
+    const lookup = await tokenRegistry.resolve(tokenName);
+    if (!lookup.ambiguous) return false;
+
+    const candidates = await loadTokenCandidates(lookup);
+    const messageId = generateMessageId();
+    setMessages(prev => [...prev, {
+      role: "assistant",
+      parts: [
+        textPart(`More than one token goes by "${tokenName}". Which one do you mean?`),
+        { type: "token-picker", query: tokenName, candidates }
+      ],
+      messageId
+    }]);
+    setTokenPicker({ messageId, resume });
+    return true;
+  };
+
+  // On-chain safety report for a token, with SOL priced so SOL pools can be valued
+  const loadRiskReport = async (token: TokenInfo): Promise<TokenRiskReport> => {
+    const birdeyeService = (await import('@/src/services/BirdeyeService')).default;
+    const solPrice = await birdeyeService.getTokenPrice('SOL');
+    return analyzeTokenRisk(token, getAlchemyConnection(), { solPrice: solPrice.success ? solPrice.price : null });
+  };
+
+  // Before a purchase of a high-risk token, or one whose report has checks that
+  // couldn't run, show its report and return true; `resume` runs if the user buys
+  // anyway. A report that can't be made at all doesn't hold the purchase back.
+  const holdForRisk = async (token: TokenInfo, resume: () => void): Promise<boolean> => {
+    if (acceptedRiskMints.current.has(token.address)) return false;
+
+    let report: TokenRiskReport;
+    try {
+      report = await loadRiskReport(token);
+    } catch (error) {
+      console.error(`Error analyzing ${token.symbol} before buying:`, error);
+      return false;
+    }
+    if (report.level !== 'high' && !report.incomplete) return false;
+
+    const messageId = generateMessageId();
+    const verdict = report.level === 'high'
+      ? 'which is high risk'
+      : `but some checks couldn't run, so it may be riskier than that`;
+    setMessages(prev => [...prev, {
+      role: "assistant",
+      parts: [
+        textPart(`Before you buy: ${token.symbol} scores ${report.score}/100 on our safety check, ${verdict}.`),
+        { type: "token-risk", report, gated: true }
+      ],
+      messageId
+    }]);
+    setRiskGate({ messageId, mint: token.address, resume });
+    return true;
+  };
+
+  const riskGateHandlers = {
+    onProceed: () => {
+      if (!riskGate) return;
+      acceptedRiskMints.current.add(riskGate.mint);
+      setMessages(prev => [...prev, { role: "user", parts: [textPart("Buy anyway")], messageId: generateMessageId() }]);
+      setRiskGate(null);
+      riskGate.resume();
+    },
+    onCancel: () => {
+      setRiskGate(null);
+      setMessages(prev => [
+        ...prev,
+        { role: "user", parts: [textPart("Cancel")], messageId: generateMessageId() },
+        { role: "assistant", parts: [textPart("Okay, I've cancelled that purchase.")], messageId: generateMessageId() }
+      ]);
+    }
+  };
+
+  const handleAnalyzeToken = async (tokenName: string) => {
+    if (await askWhichToken(tokenName, () => handleAnalyzeToken(tokenName))) return;
+
+    const token = await findToken(tokenName);
+    if (!token) {
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(`Sorry, I couldn't find the token "${tokenName}".`)],
+        messageId: generateMessageId()
+      }]);
+      return;
     }
-    
-    // If not found in local list, try the BirdeyeService which uses Jupiter tokens
+
+    const loadingMsgId = generateMessageId();
+    setMessages(prev => [...prev, {
+      role: "assistant",
+      parts: [progressPart(`Checking ${token.symbol} on-chain for red flags...`)],
+      messageId: loadingMsgId
+    }]);
+
     try {
-      const birdeyeService = (await import('@/src/services/BirdeyeService')).default;
-      const token = birdeyeService.getToken(normalizedTokenName);
-      
-      if (token) {
-        // Convert to the format expected by the app
-        const tokenInfo: TokenInfo = {
-          name: String(token.name || ''),
-          symbol: String(token.symbol || ''),
-          address: String(token.address || ''),
-          decimals: Number(token.decimals || 0),
-          logoURI: token.logoURI ? String(token.logoURI) : undefined
-        };
-        return tokenInfo;
+      const report = await loadRiskReport(token);
+      const failed = report.checks.filter(check => check.status === 'fail').length;
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? {
+              ...msg,
+              parts: [
+                textPart(`${token.symbol} scores ${report.score}/100 (${report.level} risk)${failed ? ` with ${failed} red flag${failed === 1 ? '' : 's'}` : ''}.`),
+                { type: "token-risk", report }
+              ]
+            }
+          : msg
+      ));
+    } catch (error) {
+      console.error('Error analyzing token:', error);
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? { ...msg, parts: [textPart(`Sorry, I couldn't analyze ${token.symbol} right now. Please try again in a moment.`)] }
+          : msg
+      ));
+    }
+  };
+
+  const handleTokenInfo = async (tokenName: string) => {
+    if (await askWhichToken(tokenName, () => handleTokenInfo(tokenName))) return;
+
+    const token = await findToken(tokenName);
+    if (!token) {
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(`Sorry, I couldn't find the token "${tokenName}".`)],
+        messageId: generateMessageId()
+      }]);
+      return;
+    }
+
+    const loadingMsgId = generateMessageId();
+    setMessages(prev => [...prev, {
+      role: "assistant",
+      parts: [progressPart(`Looking up ${token.symbol}...`)],
+      messageId: loadingMsgId
+    }]);
+
+    try {
+      const info = await getMarketDataProvider().tokenInfo(token);
+      const summary = [
+        info.price !== null ? `${token.symbol} is at ${formatUnitPrice(info.price, 'usd')}` : `I couldn't find a current price for ${token.symbol}`,
+        info.priceChange24h !== null ? `${info.priceChange24h >= 0 ? 'up' : 'down'} ${Math.abs(info.priceChange24h).toFixed(2)}% in the last 24 hours` : null,
+        info.marketCap !== null ? `with a market cap of ${formatCompactCurrency(info.marketCap, 'usd')}` : null
+      ].filter(Boolean).join(', ');
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? { ...msg, parts: [textPart(`${summary}.`), { type: "token-info", info }] }
+          : msg
+      ));
+    } catch (error) {
+      console.error('Error loading token info:', error);
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? { ...msg, parts: [textPart(`Sorry, I couldn't load market data for ${token.symbol} right now.`)] }
+          : msg
+      ));
+    }
+  };
+
+  // Alert at a price, or just watch the token when no price was given
+  const handleSetAlert = async (tokenName: string, alertPrice?: number, alertDirection?: AlertDirection) => {
+    const owner = activeWalletAddress || walletAddress || publicKey?.toString();
+    if (!owner) {
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart("Please connect your wallet first so I know where to keep your alerts.")],
+        messageId: generateMessageId()
+      }]);
+      return;
+    }
+    if (await askWhichToken(tokenName, () => handleSetAlert(tokenName, alertPrice, alertDirection))) return;
+
+    const token = await findToken(tokenName);
+    if (!token) {
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(`Sorry, I couldn't find the token "${tokenName}".`)],
+        messageId: generateMessageId()
+      }]);
+      return;
+    }
+
+    try {
+      const alertToken = { mint: token.address, symbol: token.symbol };
+      let reply: string;
+      if (alertPrice) {
+        const alert = await createAlert(owner, alertToken, alertPrice, alertDirection, await getAccessToken());
+        const now = alert.currentPrice != null ? ` It's at ${formatUnitPrice(alert.currentPrice, 'usd')} now.` : '';
+        reply = `I'll let you know when ${describeAlert(alert)}.${now}`;
+      } else {
+        await watchToken(owner, alertToken, await getAccessToken());
+        reply = `Added ${token.symbol} to your watchlist.`;
       }
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(`${reply} You can manage your alerts and watchlist under Settings.`)],
+        messageId: generateMessageId()
+      }]);
+      if (alertPrice) await requestAlertNotifications();
     } catch (error) {
-      console.error('[findToken] Error looking up token in BirdeyeService:', error);
+      console.error('Error setting price alert:', error);
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(`Sorry, I couldn't set that up: ${error instanceof Error ? error.message : 'Unknown error'}`)],
+        messageId: generateMessageId()
+      }]);
     }
-    
-    // Not found in either source
-    return undefined;
+  };
+
+  const handleSelectToken = (query: string, candidate: TokenCandidate) => {
+    const key = query.trim().toLowerCase();
+    tokenChoicesRef.current = { ...tokenChoicesRef.current, [key]: candidate.address };
+    setConversationSlots(prev => ({ ...prev, tokenChoices: { ...prev.tokenChoices, [key]: candidate.address } }));
+    setMessages(prev => [...prev, {
+      role: "user",
+      parts: [textPart(`${candidate.symbol} (${candidate.name}, ${candidate.address})`)],
+      messageId: generateMessageId()
+    }]);
+
+    const resume = tokenPicker?.resume;
+    setTokenPicker(null);
+    resume?.();
   };
 
   // Function to handle passive income prompt
@@ -173,7 +566,7 @@ export default function ChatInterface() {
     if (!token || !token.address) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `I couldn't find details for ${tokenSymbol} in our supported tokens list.`,
+        parts: [textPart(`I couldn't find details for ${tokenSymbol} in our supported tokens list.`)],
         messageId: generateMessageId()
       }]);
       return;
@@ -182,7 +575,7 @@ export default function ChatInterface() {
     const promptMsgId = generateMessageId();
     setMessages(prev => [...prev, {
       role: "assistant",
-      content: `Would you like to earn passive income with your ${token.symbol}? I can show you some safe lending options.`,
+      parts: [textPart(`Would you like to earn passive income with your ${token.symbol}? I can show you some safe lending options.`)],
       messageId: promptMsgId
     }]);
 
@@ -198,7 +591,7 @@ export default function ChatInterface() {
         // Remove the option buttons by updating the message
         setMessages(prev => prev.map(msg =>
           msg.messageId === promptMsgId
-            ? { ...msg, options: undefined }
+            ? { ...msg, parts: msg.parts.filter(part => part.type !== 'passive-income') }
             : msg
         ));
 
@@ -207,7 +600,7 @@ export default function ChatInterface() {
           ...prev,
           {
             role: "user",
-            content: "Sure, show me lending options",
+            parts: [textPart("Sure, show me lending options")],
             messageId: generateMessageId()
           }
         ]);
@@ -229,7 +622,7 @@ export default function ChatInterface() {
         // Remove the option buttons by updating the message
         setMessages(prev => prev.map(msg =>
           msg.messageId === promptMsgId
-            ? { ...msg, options: undefined }
+            ? { ...msg, parts: msg.parts.filter(part => part.type !== 'passive-income') }
             : msg
         ));
 
@@ -238,7 +631,7 @@ export default function ChatInterface() {
           ...prev,
           {
             role: "user",
-            content: "I'm okay, thanks",
+            parts: [textPart("I'm okay, thanks")],
             messageId: generateMessageId()
           }
         ]);
@@ -247,7 +640,7 @@ export default function ChatInterface() {
 
         setMessages(prev => [...prev, {
           role: "assistant",
-          content: "No problem! You can always check lending options later by asking me about yield opportunities.",
+          parts: [textPart("No problem! You can always check lending options later by asking me about yield opportunities.")],
           messageId: generateMessageId()
         }]);
       };
@@ -260,230 +653,38 @@ export default function ChatInterface() {
         msg.messageId === promptMsgId
           ? {
             ...msg,
-            passiveIncomeOptions: [
-              {
-                'choice': 'Sure',
-                'action': 'showLendingOptions'
-              },
-              {
-                'choice': 'I\'m okay, thanks',
-                'action': ''
-              }
-            ]
+            parts: [...msg.parts, {
+              type: 'passive-income',
+              options: [
+                {
+                  'choice': 'Sure',
+                  'action': 'showLendingOptions'
+                },
+                {
+                  'choice': 'I\'m okay, thanks',
+                  'action': ''
+                }
+              ]
+            }]
           }
           : msg
       ));
     });
   };
 
-  // Update the effect to handle URL parameters and listen for payment messages
+  // Tell the user when they come back from a cancelled Stripe checkout. Paid
+  // checkouts are delivered by the backend's webhook and followed by status polling.
   useEffect(() => {
-    // Handle URL parameters
     const searchParams = new URLSearchParams(window.location.search);
-    const status = searchParams.get('status');
-    const sessionId = searchParams.get('session_id');
-    const walletParam = searchParams.get('wallet');
-    const amountParam = searchParams.get('amount');
-    const success = searchParams.get('success') === 'true';
-
-    // Handle payment message from payment window
-    const handlePaymentMessage = async (event: MessageEvent) => {
-      if (event.data && typeof event.data === 'object' && event.data.type === 'PAYMENT_COMPLETE') {
-        console.log('Received payment complete message:', event.data);
-        const { 
-          walletAddress, sessionId, amount, isTokenSwap, tokenSymbol, tokenAddress, tokenAmount } = event.data;
-        
-        // Add loading message with spinner
-        const loadingMsgId = generateMessageId();
-        
-        // Different message based on if it's a token swap or direct SOL purchase
-        if (isTokenSwap) {
-          setMessages(prev => [...prev, {
-            role: "assistant",
-            content: `<div class="flex items-center gap-2"><span>Processing your payment and swapping ${amount || 0.1} SOL to ${tokenAmount} ${tokenSymbol}</span><div class="ml-2 h-4 w-4 animate-spin rounded-full border-2 border-solid border-brand-purple border-t-transparent"></div></div>`,
-            messageId: loadingMsgId
-          }]);
-        } else {
-          setMessages(prev => [...prev, {
-            role: "assistant",
-            content: `<div class="flex items-center gap-2"><span>Processing your payment and sending ${amount || 0.1} SOL to your wallet</span><div class="ml-2 h-4 w-4 animate-spin rounded-full border-2 border-solid border-brand-purple border-t-transparent"></div></div>`,
-            messageId: loadingMsgId
-          }]);
-        }
-        
-        // Get the wallet address to use
-        const targetWalletAddress = walletAddress || walletParam || activeWalletAddress;
-        
-        
-        if (!targetWalletAddress) {
-          setMessages(prev => prev.map(msg => 
-            msg.messageId === loadingMsgId 
-              ? {...msg, content: "Error: Could not determine your wallet address. Please connect your wallet and try again."} 
-              : msg
-          ));
-          return;
-        }
-        
-        try {
-          // Handle differently based on whether it's a token swap or direct SOL purchase
-          if (isTokenSwap) {
-            // For token swap, call the swap-tokens endpoint
-            console.log('Calling API: /api/swap-tokens');
-            const swapResponse = await fetch(`${config.apiUrl}/api/swap-tokens`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                walletAddress: targetWalletAddress,
-                sessionId,
-                toToken: tokenAddress,
-                amount: parseFloat(amount) || 0.1,
-              }),
-            });
-            
-            console.log('Swap response status:', swapResponse.status);
-            
-            if (!swapResponse.ok) {
-              const errorText = await swapResponse.text();
-              console.error('Swap API error:', errorText);
-              
-              setMessages((prev: Message[]) => prev.map((msg: Message) => 
-                msg.messageId === loadingMsgId 
-                  ? {
-                      ...msg, 
-                      content: `Error preparing swap transaction: ${errorText || 'Unknown server error'}`
-                    } 
-                  : msg
-              ));
-              return;
-            }
-            
-            const swapResult = await swapResponse.json();
-            console.log('Swap result:', swapResult);
-            
-            if (swapResult.status === 'success' || swapResult.status === 'pending') {
-              // Update message with transaction details
-              setMessages((prev: Message[]) => prev.map((msg: Message) => 
-                msg.messageId === loadingMsgId 
-                  ? {
-                      ...msg, 
-                      content: `${swapResult.message}\n\nTransactions:\n${swapResult.transactions.map((tx: any) => 
-                        `- ${tx.description}: [View](${tx.explorerLink})`
-                      ).join('\n')}`
-                    }
-                  : msg
-              ));
-              
-              // Clear any loading states
-              setIsSwapProcessing(false);
-              setSwapQuoteWidget(null);
-              
-              // Offer passive income options after short delay
-              setTimeout(() => {
-                handlePassiveIncomePrompt(tokenSymbol);
-              }, 1000);
-            } else {
-              // Update with error message
-              setMessages((prev: Message[]) => prev.map((msg: Message) => 
-                msg.messageId === loadingMsgId 
-                  ? {...msg, content: `Error processing token swap: ${swapResult.error || 'Unknown error'}`} 
-                  : msg
-              ));
-              
-              // Clear loading states on error
-              setIsSwapProcessing(false);
-              setSwapQuoteWidget(null);
-            }
-          } else {
-            // For direct SOL purchase, call the transfer-sol endpoint
-            console.log('Calling API: /api/transfer-sol');
-            const transferResponse = await fetch(`${config.apiUrl}/api/transfer-sol`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                walletAddress: targetWalletAddress,
-                amount: parseFloat(amount) || 0.1,
-                sessionId,
-              }),
-            });
-            
-            if (!transferResponse.ok) {
-              const errorText = await transferResponse.text();
-              console.error('Transfer API error:', errorText);
-              
-              setMessages((prev: Message[]) => prev.map((msg: Message) => 
-                msg.messageId === loadingMsgId 
-                  ? {
-                      ...msg, 
-                      content: `Error preparing transfer: ${errorText || 'Unknown server error'}`
-                    } 
-                  : msg
-              ));
-              return;
-            }
-            
-            const transferResult = await transferResponse.json();
-            console.log('Transfer result:', transferResult);
-            
-            if (transferResult.status === 'success') {
-              // Update message with transaction details
-              setMessages((prev: Message[]) => prev.map((msg: Message) => 
-                msg.messageId === loadingMsgId 
-                  ? {
-                      ...msg, 
-                      content: `Successfully sent ${amount} SOL to your wallet! [View transaction](${transferResult.explorerLink})`
-                    }
-                  : msg
-              ));
-
-              // Add this to show passive income options for SOL
-              setTimeout(() => {
-                handlePassiveIncomePrompt("SOL");
-              }, 1000);
-            } else {
-              // Update with error message
-              setMessages((prev: Message[]) => prev.map((msg: Message) => 
-                msg.messageId === loadingMsgId 
-                  ? {...msg, content: `Error processing transfer: ${transferResult.error || 'Unknown error'}`} 
-                  : msg
-              ));
-            }
-          }
-        } catch (error) {
-          console.error('Error during transfer:', error);
-          setMessages((prev: Message[]) => prev.map((msg: Message) => 
-            msg.messageId === loadingMsgId 
-              ? {...msg, content: `Error processing your payment: ${error instanceof Error ? error.message : 'Unknown error'}`} 
-              : msg
-          ));
-        }
-      }
-    };
-    
-    // Process direct URL success
-    if (success && sessionId) {
-      // If we reached here from a frontend redirect, we need to redirect to backend
-      const backendUrl = `${config.apiUrl}/payment-success?amount=${amountParam}&wallet=${walletParam}&success=true&session_id=${sessionId}`;
-      window.location.href = backendUrl;
-      return;
-    }
-    // Handle cancellation
-    else if (status === 'cancel' || searchParams.get('canceled') === 'true') {
+    if (searchParams.get('status') === 'cancel' || searchParams.get('canceled') === 'true') {
       window.history.replaceState({}, '', '/chat');
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: "Your payment was cancelled. Would you like to try again?",
+        parts: [textPart("Your payment was cancelled. Would you like to try again?")],
         messageId: generateMessageId()
       }]);
     }
-    
-    // Add event listener for messages
-    window.addEventListener('message', handlePaymentMessage);
-    
-    // Clean up
-    return () => {
-      window.removeEventListener('message', handlePaymentMessage);
-    };
-  }, [handleSuccess, handleCancel, walletAddress, publicKey, activeWalletAddress, setMessages, generateMessageId, handlePassiveIncomePrompt]);
+  }, [setMessages]);
 
   // Updated effect to handle swap result with proper passive income flow
   useEffect(() => {
@@ -498,10 +699,22 @@ export default function ChatInterface() {
         // Add to our processed set to avoid duplicates
         processedTransactions.current.add(swapResult.signature);
 
+        const owner = activeWalletAddress || walletAddress || publicKey?.toString();
+        if (owner && swapQuoteWidget) {
+          const activity = {
+            kind: 'swap' as const,
+            signature: swapResult.signature,
+            details: { inputToken: swapQuoteWidget.inputToken, outputToken: swapQuoteWidget.outputToken }
+          };
+          getAccessToken()
+            .then(accessToken => reportActivity(owner, activity, accessToken))
+            .catch(error => console.error('Error recording swap in history:', error));
+        }
+
         const successMsgId = generateMessageId();
         setMessages(prev => [...prev, {
           role: "assistant",
-          content: `Your token swap was successful! [View transaction](https://solscan.io/tx/${swapResult.signature})`,
+          parts: [textPart("Your token swap was successful!"), transactionLinkPart(swapResult.signature!)],
           messageId: successMsgId
         }]);
 
@@ -522,7 +735,7 @@ export default function ChatInterface() {
       } else {
         setMessages(prev => [...prev, {
           role: "assistant",
-          content: `Swap failed: ${swapResult.error || 'Unknown error'}`,
+          parts: [textPart(`Swap failed: ${swapResult.error || 'Unknown error'}`)],
           messageId: generateMessageId()
         }]);
         setIsSwapProcessing(false);
@@ -530,21 +743,127 @@ export default function ChatInterface() {
         setSwapQuoteWidget(null);
       }
     }
-  }, [swapResult, clearJupiterSwapResult, setMessages, handlePassiveIncomePrompt, setIsSwapProcessing, setSwapQuoteWidget]);
+  }, [swapResult, clearJupiterSwapResult, setMessages, handlePassiveIncomePrompt, setIsSwapProcessing, setSwapQuoteWidget, activeWalletAddress, walletAddress, publicKey, getAccessToken]);
 
   // Updated effect to clean up passive income state when not needed
   useEffect(() => {
     // Clean up passive income state when no buttons are displayed
     if (passiveIncomeMessageId && !messages.some(msg => 
       msg.messageId === passiveIncomeMessageId && 
-      msg.passiveIncomeOptions && 
-      msg.passiveIncomeOptions.length > 0
+      msg.parts.some(part => part.type === 'passive-income')
     )) {
       setPassiveIncomeMessageId(null);
       setPassiveIncomeHandlers(null);
     }
   }, [messages, passiveIncomeMessageId]);
 
+  useEffect(() => {
+    const watchers = paymentWatchersRef.current;
+    return () => watchers.forEach(controller => controller.abort());
+  }, []);
+
+  // Follow a checkout session and keep the progress on its chat message current.
+  // Once the purchase is delivered, offer to put it to work.
+  const watchPaymentStatus = (messageId: string, sessionId: string, tokenSymbol: string) => {
+    const controller = new AbortController();
+    paymentWatchersRef.current.add(controller);
+
+    const showPaymentParts = (parts: MessagePart[]) => setMessages(prev => prev.map(msg =>
+      msg.messageId === messageId
+        ? { ...msg, parts: [...msg.parts.filter(part => part.type === 'text'), ...parts] }
+        : msg
+    ));
+
+    showPaymentParts([progressPart("Waiting for your payment", progressSteps(purchaseSteps(tokenSymbol), 0))]);
+    pollPaymentStatus(sessionId, {
+      signal: controller.signal,
+      getAccessToken,
+      onStatus: status => showPaymentParts(paymentProgressParts(status, tokenSymbol))
+    })
+      .then(last => {
+        if (controller.signal.aborted) return;
+        if (last?.status === 'sol_transferred' || last?.status === 'token_swap_completed') {
+          setTimeout(() => handlePassiveIncomePrompt(tokenSymbol), 1000);
+        } else if (last?.status === 'error') {
+          // Not retried from here: the buyer retries from the card, or the
+          // backend's reconciliation picks the session up
+          showPaymentParts(failedDeliveryParts(last, tokenSymbol));
+        } else if (!last || !isTerminalPaymentStatus(last.status)) {
+          // Gave up before the payment settled: stop the spinner
+          showPaymentParts([progressPart(
+            `I've stopped checking on this payment. Your ${tokenSymbol} will still be sent once it completes.`,
+            settleActiveStep(progressSteps(purchaseSteps(tokenSymbol), 0), 'pending')
+          )]);
+        }
+      })
+      .finally(() => paymentWatchersRef.current.delete(controller));
+  };
+
+  // Retry a failed delivery from its card; the backend refunds instead once the
+  // session is out of attempts
+  const handleRetryDelivery = async (messageId: string, sessionId: string) => {
+    const card = messages
+      .find(msg => msg.messageId === messageId)
+      ?.parts.find((part): part is UndeliveredPaymentPart => part.type === 'undelivered-payment' && part.payment.id === sessionId)
+    if (!card) return
+    const tokenSymbol = paymentTokenSymbol(card.payment)
+
+    const replaceCard = (parts: MessagePart[]) => setMessages(prev => prev.map(msg =>
+      msg.messageId === messageId
+        ? { ...msg, parts: msg.parts.flatMap(part => part.type === 'undelivered-payment' && part.payment.id === sessionId ? parts : [part]) }
+        : msg
+    ))
+
+    replaceCard([progressPart(`Retrying delivery of your ${tokenSymbol}`, progressSteps(purchaseSteps(tokenSymbol), 1))])
+    try {
+      const result = await requestFulfilment(sessionId, undefined, await getAccessToken())
+      replaceCard(result.alreadyFulfilled ? alreadyFulfilledParts(result, tokenSymbol) : deliveryResultParts(result, tokenSymbol))
+      if (!result.alreadyFulfilled && (result.status === 'sol_transferred' || result.status === 'token_swap_completed')) {
+        setTimeout(() => handlePassiveIncomePrompt(tokenSymbol), 1000)
+      }
+    } catch (error) {
+      console.error('Error retrying delivery:', error)
+      replaceCard([textPart(`I couldn't retry the delivery: ${error instanceof Error ? error.message : 'Unknown error'}`), card])
+    }
+  }
+
+  // Once a wallet's chat has loaded, list paid purchases that never reached it
+  const checkedRecoveryWallets = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    if (!chatSessionId || !activeWalletAddress || checkedRecoveryWallets.current.has(activeWalletAddress)) return
+    checkedRecoveryWallets.current.add(activeWalletAddress)
+
+    getAccessToken()
+      .then(accessToken => fetchUndeliveredPayments(activeWalletAddress, accessToken))
+      .then(payments => setMessages(prev => {
+        // Cards already in a restored transcript stay where they are
+        const shown = new Set(prev.flatMap(msg => msg.parts.flatMap(part => part.type === 'undelivered-payment' ? [part.payment.id] : [])))
+        const waiting = payments.filter(payment => !payment.deliveryInProgress && !shown.has(payment.id))
+        if (!waiting.length) return prev
+        return [...prev, {
+          role: "assistant",
+          parts: [
+            textPart(waiting.length === 1
+              ? "One of your paid purchases hasn't reached your wallet yet. You can retry the delivery below."
+              : `${waiting.length} of your paid purchases haven't reached your wallet yet. You can retry their delivery below.`),
+            ...waiting.map((payment): MessagePart => ({ type: "undelivered-payment", payment }))
+          ],
+          messageId: generateMessageId()
+        }]
+      }))
+      .catch(error => console.error('Error checking for undelivered purchases:', error))
+  }, [chatSessionId, activeWalletAddress, getAccessToken, setMessages])
+
+  // Alerts the backend triggered for this wallet show up as assistant messages
+  const showTriggeredAlerts = useCallback((alerts: PriceAlert[]) => {
+    setMessages(prev => [...prev, {
+      role: "assistant",
+      parts: [textPart(alerts.map(alert => `Price alert: ${describeTriggeredAlert(alert)}`).join('\n\n'))],
+      messageId: generateMessageId()
+    }])
+  }, [setMessages])
+  useTriggeredAlerts(chatSessionId ? activeWalletAddress : null, showTriggeredAlerts)
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }
@@ -553,11 +872,11 @@ export default function ChatInterface() {
     scrollToBottom()
   }, [messages])
 
-  const handleBuySol = async (amount: number) => {
+  const handleBuySol = async (purchase: PurchaseAmount) => {
     if (!publicKey && !isAuthenticated) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: "Please connect your Solana wallet first to receive your tokens.",
+        parts: [textPart("Please connect your Solana wallet first to receive your tokens.")],
         messageId: generateMessageId()
       }]);
       return;
@@ -567,13 +886,15 @@ export default function ChatInterface() {
       const loadingMsgId = generateMessageId();
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `Getting current SOL price and preparing payment...`,
+        parts: [textPart(`Getting current SOL price and preparing payment...`)],
         messageId: loadingMsgId
       }]);
 
-      // Pass the specific SOL amount if the user provided one
+      // Pass either the SOL amount or the fiat amount the user asked for
       const response = await proceedToCheckout({
-        solAmount: amount > 0 ? amount : undefined
+        solAmount: purchase.solAmount,
+        dollarAmount: purchase.dollarAmount,
+        fiatCurrency: purchase.fiatCurrency || preferredCurrency
       });
       
       const solAmount = response.solAmount;
@@ -581,53 +902,61 @@ export default function ChatInterface() {
       const fiatCurrency = response.fiatCurrency;
       const sessionId = response.sessionId;
 
-      // Format currency based on type (USD uses $ prefix, INR uses ₹ prefix)
-      const formattedCurrency = fiatCurrency === 'usd' 
-        ? `$${fiatAmount.toFixed(2)} USD` 
-        : `₹${fiatAmount.toFixed(2)} INR`;
+      const formattedCurrency = formatFiatAmount(fiatAmount, fiatCurrency);
+      // This purchase already counts against what's left
+      const allowance = await getAllowance(fiatCurrency).catch(() => null);
 
       // Update the loading message with success message including both amounts
       setMessages(prev => prev.map(msg =>
         msg.messageId === loadingMsgId
-          ? { ...msg, content: `Opening Stripe payment page. Please complete your purchase of ${formattedCurrency} to receive exactly ${solAmount.toFixed(4)} SOL on Solana Mainnet after the payment is processed.` }
+          ? { ...msg, parts: [textPart(`Opening Stripe payment page. Please complete your purchase of ${formattedCurrency} to receive exactly ${solAmount.toFixed(4)} SOL on Solana Mainnet after the payment is processed.${allowance ? ` ${describeAllowance(allowance)}` : ''}`)] }
           : msg
       ));
 
-      // Store session ID for potential direct transfer after payment
+      // Track the purchase on the backend until the SOL is delivered
       if (sessionId) {
-        localStorage.setItem('lastPaymentSessionId', sessionId);
-        localStorage.setItem('lastPaymentAmount', solAmount.toString());
-        localStorage.setItem('lastPaymentWallet', walletAddress || publicKey?.toString() || '');
-        localStorage.setItem('paymentTimestamp', Date.now().toString());
+        watchPaymentStatus(loadingMsgId, sessionId, 'SOL');
       }
     } catch (error) {
       console.error('Error in handleBuySol:', error);
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: error instanceof Error
+        parts: [textPart(error instanceof BelowMinimumError
+          ? `The amount is too small. Please spend at least ${formatFiatAmount(error.minimum, error.currency)} to proceed.`
+          : error instanceof PurchaseLimitError
+          ? describeLimitRefusal(error.reason, error.allowance)
+          : error instanceof Error
           ? `Error: ${error.message}`
-          : "There was an error opening the payment page. Please try again.",
+          : "There was an error opening the payment page. Please try again.")],
         messageId: generateMessageId()
       }]);
     }
   };
 
-  // Function to handle buying a token with fiat via Stripe checkout
-  const handleBuyTokenWithFiat = async (amount: number, tokenName: string) => {
+  // Function to handle buying a token with fiat via Stripe checkout. Resolves to
+  // true once quotes are shown; `riskChecked` skips the safety check when the
+  // caller has already held the purchase for it.
+  const handleBuyTokenWithFiat = async (purchase: PurchaseAmount, tokenName: string, riskChecked = false): Promise<boolean> => {
     if (!publicKey && !isAuthenticated) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: "Please connect your Solana wallet first to receive your tokens.",
+        parts: [textPart("Please connect your Solana wallet first to receive your tokens.")],
         messageId: generateMessageId()
       }]);
-      return;
+      return false;
+    }
+
+    if (await askWhichToken(tokenName, () => handleBuyTokenWithFiat(purchase, tokenName, riskChecked))) return false;
+    if (!riskChecked) {
+      const riskToken = await findToken(tokenName);
+      if (riskToken && await holdForRisk(riskToken, () => handleBuyTokenWithFiat(purchase, tokenName, true))) return false;
     }
 
     try {
       const loadingMsgId = generateMessageId();
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `Getting current price for ${amount} ${tokenName} and preparing payment...`,
+        parts: [textPart(`Getting current price for ${describePurchase(purchase, tokenName)} and preparing payment...`)],
         messageId: loadingMsgId
       }]);
 
@@ -636,215 +965,404 @@ export default function ChatInterface() {
       if (!token) {
         setMessages(prev => prev.map(msg =>
           msg.messageId === loadingMsgId
-            ? { ...msg, content: `Sorry, I couldn't find the token "${tokenName}" in our supported tokens list.` }
+            ? { ...msg, parts: [textPart(`Sorry, I couldn't find the token "${tokenName}" in our supported tokens list.`)] }
             : msg
         ));
-        return;
+        return false;
       }
 
-      // Get the token price using BirdeyeService with Jupiter fallback
-      console.log('Calling API: Birdeye price API with Jupiter fallback');
-      const birdeyeService = (await import('@/src/services/BirdeyeService')).default;
-      const priceResult = await birdeyeService.getTokenPrice(token.address);
-      
-      if (!priceResult.success || !priceResult.price) {
-        // If both Birdeye and Jupiter failed, show error
-        console.error('Error fetching token price:', priceResult.error);
+      // Quotes take a fiat or a token amount, so a SOL amount ("SOL worth of
+      // BONK", "half my SOL") becomes the token amount it buys at current prices
+      let tokenAmount = purchase.tokenAmount;
+      if (!purchase.dollarAmount && !tokenAmount && purchase.solAmount) {
+        const sol = await findToken('SOL');
+        tokenAmount = (sol && await convertTokenAmount(purchase.solAmount, sol, token)) || undefined;
+        if (!tokenAmount) {
+          setMessages(prev => prev.map(msg =>
+            msg.messageId === loadingMsgId
+              ? { ...msg, parts: [textPart(`Sorry, I couldn't price ${purchase.solAmount} SOL in ${token.symbol} right now. Please name an amount of ${token.symbol} or a fiat amount instead.`)] }
+              : msg
+          ));
+          return false;
+        }
+      }
+      if (!purchase.dollarAmount && !tokenAmount) {
         setMessages(prev => prev.map(msg =>
           msg.messageId === loadingMsgId
-            ? { ...msg, content: `Sorry, I couldn't fetch the current price for ${tokenName}. Please try again later.` }
+            ? { ...msg, parts: [textPart(`Please tell me how much ${token.symbol} to buy, or how much to spend on it.`)] }
             : msg
         ));
-        return;
+        return false;
       }
-      
-      // Use the price from Birdeye or Jupiter
-      console.log(`Got token price from ${priceResult.source}: ${priceResult.price}`);
-      const tokenPrice = priceResult.price;
 
-      // Calculate the dollar amount needed for the desired token amount
-      const dollarAmount = amount * tokenPrice;
-      
-      console.log('Price calculation:', {
-        tokenName,
-        tokenPrice,
-        dollarAmount,
-        tokenAmount: amount,
-        tokenAddress: token.address
-      });
-      
-      // Check if the purchase amount is too small (less than $0.5)
-      if (dollarAmount < 0.5) {
-        const minTokenAmount = Math.ceil((0.5 / tokenPrice) * 100) / 100; // Round up to 2 decimal places
+      // A fiat amount is charged as-is; a token amount is priced by the backend
+      // in the user's preferred currency
+      const quoteRequest: LockedQuoteParams = {
+        tokenSymbol: token.symbol,
+        tokenAddress: token.address,
+        fiatCurrency: purchase.fiatCurrency || preferredCurrency,
+        ...(purchase.dollarAmount ? { dollarAmount: purchase.dollarAmount } : { tokenAmount })
+      };
+
+      // Lock a price with every onramp provider; checkout happens when the user
+      // confirms one. The backend refuses amounts under the currency's minimum charge.
+      const allowanceRequest = getAllowance(quoteRequest.fiatCurrency).catch(() => null);
+      let quotes;
+      try {
+        ({ quotes } = await getQuotes(quoteRequest));
+      } catch (error) {
+        if (!(error instanceof BelowMinimumError)) throw error;
         setMessages(prev => prev.map(msg =>
           msg.messageId === loadingMsgId
-            ? { ...msg, content: `The amount is too small. Please buy at least ${minTokenAmount} ${token.symbol} (minimum $0.50) to proceed.` }
+            ? { ...msg, parts: [textPart(`The amount is too small. Please spend at least ${formatFiatAmount(error.minimum, error.currency)} on ${token.symbol} to proceed.`)] }
             : msg
         ));
-        return;
+        return false;
       }
-      
-      // Now create the Stripe checkout session for the token purchase
-      const checkoutParams = {
-        dollarAmount: dollarAmount,
-        tokenSymbol: token.symbol,
-        tokenAddress: token.address,
-        tokenAmount: amount
-      };
-      
-      console.log('Proceeding to checkout with:', checkoutParams);
-      
-      const response = await proceedToCheckout(checkoutParams);
-      
-      // Verify the response indicates this is a token swap
-      if (!response.isTokenSwap) {
-        console.error('Backend did not recognize this as a token swap:', response);
+
+      // Refuse up front when the purchase is over the buyer's limits; the backend
+      // would refuse the checkout anyway
+      const [quote] = quotes;
+      const allowance = await allowanceRequest;
+      const exceeded = allowance && exceededLimit(allowance, quote.inputAmount);
+      if (allowance && exceeded) {
+        cancelPurchase();
         setMessages(prev => prev.map(msg =>
           msg.messageId === loadingMsgId
-            ? { ...msg, content: `Error: The backend did not recognize this as a token purchase. Please try again or contact support.` }
+            ? { ...msg, parts: [textPart(describeLimitRefusal(exceeded, allowance))] }
             : msg
         ));
-        return;
+        return false;
       }
-      
-      // Update the loading message with success message
+
+      fiatPurchaseRef.current = { messageId: loadingMsgId, request: quoteRequest };
+      const text = quotes.length > 1
+        ? `I compared ${quotes.length} providers. ${quote.provider} gives the most: ${Number(quote.outputAmount.toFixed(6))} ${token.symbol} for ${formatFiatAmount(quote.inputAmount, quote.inputCurrency)}, including ${formatFee(quote.fees.total, quote.inputCurrency)} in fees. Pick a provider below and confirm before the quote expires.`
+        : `I've locked a price of ${formatFiatAmount(quote.inputAmount, quote.inputCurrency)} for ${Number(quote.outputAmount.toFixed(6))} ${token.symbol}, including ${formatFee(quote.fees.total, quote.inputCurrency)} in fees (breakdown below). Confirm before the quote expires to open the ${quote.provider} payment page.`;
+      const allowanceNote = allowance ? ` ${describeAllowance(allowance)}` : '';
       setMessages(prev => prev.map(msg =>
         msg.messageId === loadingMsgId
-          ? { ...msg, content: `Opening Stripe payment page. Please complete your purchase of $${dollarAmount.toFixed(2)} to receive ${amount} ${token.symbol} tokens.` }
+          ? { ...msg, parts: [textPart(text + allowanceNote)] }
           : msg
       ));
+      return true;
     } catch (error) {
       console.error('Error in handleBuyTokenWithFiat:', error);
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: error instanceof Error
+        parts: [textPart(error instanceof Error
           ? `Error: ${error.message}`
-          : "There was an error opening the payment page. Please try again.",
+          : "There was an error opening the payment page. Please try again.")],
         messageId: generateMessageId()
       }]);
+      return false;
     }
   };
 
   // Function to handle buying a token with Raydium
-  const handleBuyToken = async (amount: number, tokenName: string) => {
+  const handleBuyToken = async (purchase: PurchaseAmount, tokenName: string) => {
     if (!publicKey && !isAuthenticated) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: "Please connect your Solana wallet first to receive your tokens.",
+        parts: [textPart("Please connect your Solana wallet first to receive your tokens.")],
         messageId: generateMessageId()
       }]);
       return;
     }
 
+    if (await askWhichToken(tokenName, () => handleBuyToken(purchase, tokenName))) return;
+
     // Find token in the token list
     const token = await findToken(tokenName);
     if (!token) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `Sorry, I couldn't find the token "${tokenName}" in our supported tokens list.`,
+        parts: [textPart(`Sorry, I couldn't find the token "${tokenName}" in our supported tokens list.`)],
         messageId: generateMessageId()
       }]);
       return;
     }
 
+    if (await holdForRisk(token, () => handleBuyToken(purchase, tokenName))) return;
+
     try {
       const loadingMsgId = generateMessageId();
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `Preparing to buy ${amount} ${token.symbol}...`,
+        parts: [textPart(`Preparing to buy ${describePurchase(purchase, token.symbol)}...`)],
         messageId: loadingMsgId
       }]);
 
-      // Instead of getting a Jupiter quote, directly proceed to buy with fiat
-      await handleBuyTokenWithFiat(amount, tokenName);
-      
-      // Update the loading message
-      setMessages(prev => prev.map(msg =>
-        msg.messageId === loadingMsgId
-          ? { ...msg, content: `Redirecting to payment page to buy ${amount} ${token.symbol}` }
-          : msg
-      ));
+      // Instead of getting a Jupiter quote, directly proceed to buy with fiat.
+      // When that stops short it says why, and this message goes.
+      const quoted = await handleBuyTokenWithFiat(purchase, tokenName, true);
+      setMessages(prev => quoted
+        ? prev.map(msg =>
+            msg.messageId === loadingMsgId
+              ? { ...msg, parts: [textPart(`Here are the prices for ${describePurchase(purchase, token.symbol)}.`)] }
+              : msg
+          )
+        : prev.filter(msg => msg.messageId !== loadingMsgId));
     } catch (error) {
       console.error('Error handling buy token:', error);
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        parts: [textPart(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)],
         messageId: generateMessageId()
       }]);
     }
   };
 
-  // Update the handleConfirmSwap function to bypass Jupiter
-  const handleConfirmSwap = async () => {
-    if (!swapQuoteWidget) {
+  // Quote a swap or sale of a token the user already holds and show it in the
+  // SwapWidget. `amount` is in units of the input token; without one, `fraction`
+  // of the balance is used (a sell with neither sells everything).
+  const handleSwapTokens = async (inputName: string, outputName: string, amount?: number, fraction?: number) => {
+    const owner = activeWalletAddress || walletAddress || publicKey?.toString();
+    if (!owner) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: "There was an error with the swap. Please try again.",
+        parts: [textPart("Please connect your Solana wallet first to swap tokens.")],
         messageId: generateMessageId()
       }]);
       return;
     }
 
-    try {
-      // Use the token and amount from swapQuoteWidget
-      const { outputToken, outputAmount } = swapQuoteWidget;
-      
+    const resume = () => handleSwapTokens(inputName, outputName, amount, fraction);
+    if (await askWhichToken(inputName, resume) || await askWhichToken(outputName, resume)) return;
+
+    const [inputToken, outputToken] = await Promise.all([findToken(inputName), findToken(outputName)]);
+    const unknownToken = !inputToken ? inputName : !outputToken ? outputName : null;
+    if (!inputToken || !outputToken) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `Redirecting to payment page to buy ${outputAmount} ${outputToken}...`,
+        parts: [textPart(`Sorry, I couldn't find the token "${unknownToken}" in our supported tokens list.`)],
         messageId: generateMessageId()
       }]);
-      
-      // Process the purchase with fiat instead of executing a swap
-      await handleBuyTokenWithFiat(outputAmount, outputToken);
-      
-      // Clear swap state
-      setIsSwapProcessing(false);
-      setSwapQuoteWidget(null);
-      clearJupiterOrder();
-      clearJupiterSwapResult();
-    } catch (error) {
-      console.error('Error confirming swap:', error);
+      return;
+    }
+
+    if (inputToken.address === outputToken.address) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: error instanceof Error
-          ? `Error with purchase: ${error.message}`
-          : "There was an error processing your purchase. Please try again.",
+        parts: [textPart(`You can't swap ${inputToken.symbol} into itself. Please pick a different token to receive.`)],
         messageId: generateMessageId()
       }]);
-      
-      // Clear swap state
-      setIsSwapProcessing(false);
-      setSwapQuoteWidget(null);
-      clearJupiterOrder();
-      clearJupiterSwapResult();
+      return;
     }
-  };
 
-  // Function to handle swap cancellation
-  const handleCancelSwap = () => {
-    clearJupiterOrder();
-    setSwapQuoteWidget(null);
+    // Swapping into a token is buying it; our curated tokens need no check
+    if (!outputToken.curated && await holdForRisk(outputToken, resume)) return;
+
+    const loadingMsgId = generateMessageId();
     setMessages(prev => [...prev, {
       role: "assistant",
-      content: "Purchase cancelled. Would you like to try a different amount?",
-      messageId: generateMessageId()
+      parts: [textPart(`Getting a Jupiter quote for ${inputToken.symbol} to ${outputToken.symbol}...`)],
+      messageId: loadingMsgId
     }]);
-  };
 
-  const handleConfirmPurchase = async () => {
     try {
-      const response = await proceedToCheckout();
-      const solAmount = response.solAmount;
-      setMessages(prev => [...prev, {
-        role: "assistant",
-        content: `Opening Stripe payment page. Please complete your purchase there. You'll receive ${solAmount.toFixed(4)} SOL on Solana Mainnet after the payment is processed.`,
-        messageId: generateMessageId()
-      }]);
-    } catch (error) {
-      setMessages(prev => [...prev, {
-        role: "assistant",
-        content: "Sorry, there was an error opening the payment page. Please try again.",
+      const balance = await fetchTokenBalance(owner, inputToken.address);
+      // Keep a little SOL behind for network fees when spending a share of it
+      const spendable = inputToken.symbol === 'SOL' ? Math.max(0, balance - SOL_FEE_RESERVE) : balance;
+      const inputAmount = amount && amount > 0 ? amount : spendable * (fraction ?? 1);
+
+      if (inputAmount <= 0) {
+        setMessages(prev => prev.map(msg =>
+          msg.messageId === loadingMsgId
+            ? { ...msg, parts: [textPart(`You don't have any ${inputToken.symbol} in your wallet to swap.`)] }
+            : msg
+        ));
+        return;
+      }
+
+      if (inputAmount > balance) {
+        setMessages(prev => prev.map(msg =>
+          msg.messageId === loadingMsgId
+            ? { ...msg, parts: [textPart(`You only have ${Number(balance.toFixed(6))} ${inputToken.symbol}, which isn't enough to swap ${inputAmount}.`)] }
+            : msg
+        ));
+        return;
+      }
+
+      const order = await getJupiterOrder(outputToken.address, inputAmount, {
+        inputMint: inputToken.address,
+        swapMode: 'ExactIn'
+      });
+
+      if (!order || !order.transaction) {
+        setMessages(prev => prev.map(msg =>
+          msg.messageId === loadingMsgId
+            ? { ...msg, parts: [textPart(`Sorry, Jupiter couldn't find a route from ${inputToken.symbol} to ${outputToken.symbol} right now. Please try again later.`)] }
+            : msg
+        ));
+        return;
+      }
+
+      const quotedInput = Number(order.inAmount) / Math.pow(10, inputToken.decimals);
+      const quotedOutput = Number(order.outAmount) / Math.pow(10, outputToken.decimals);
+
+      const quote = {
+        requestId: order.requestId,
+        inputToken: inputToken.symbol,
+        inputAmount: quotedInput,
+        outputToken: outputToken.symbol,
+        outputAmount: quotedOutput,
+        priceImpact: order.priceImpactPct,
+        exchangeRate: quotedOutput / quotedInput
+      };
+      setSwapQuoteWidget(quote);
+
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? {
+              ...msg,
+              parts: [
+                textPart(`Here's the best route for ${Number(quotedInput.toFixed(6))} ${inputToken.symbol} to ${outputToken.symbol}. Confirm below to swap.`),
+                { type: "quote", quote }
+              ]
+            }
+          : msg
+      ));
+    } catch (error) {
+      console.error('Error quoting swap:', error);
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? { ...msg, parts: [textPart(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)] }
+          : msg
+      ));
+    }
+  };
+
+  // Sign the quoted Jupiter order and execute it. Wallet-adapter wallets sign and
+  // hand the transaction to Jupiter (the swapResult effect reports the outcome);
+  // Privy wallets can only sign-and-send, so the result is reported here.
+  const handleConfirmSwap = async () => {
+    if (!swapQuoteWidget || !jupiterOrder) {
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart("There was an error with the swap. Please try again.")],
+        messageId: generateMessageId()
+      }]);
+      return;
+    }
+
+    setIsSwapProcessing(true);
+
+    try {
+      const transaction = VersionedTransaction.deserialize(Buffer.from(jupiterOrder.transaction, 'base64'));
+
+      if (connected && signTransaction) {
+        const signedTransaction = await signTransaction(transaction);
+        await executeJupiterSwap(Buffer.from(signedTransaction.serialize()).toString('base64'));
+        return;
+      }
+
+      if (!isAuthenticated || !privySendTransaction) {
+        throw new Error("No wallet available to sign the swap");
+      }
+
+      const signature = await privySendTransaction(transaction, getAlchemyConnection());
+      const { inputToken, outputToken } = swapQuoteWidget;
+      if (walletAddress) {
+        getAccessToken()
+          .then(accessToken => reportActivity(walletAddress, { kind: 'swap', signature, details: { inputToken, outputToken } }, accessToken))
+          .catch(error => console.error('Error recording swap in history:', error));
+      }
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart("Your token swap was successful!"), transactionLinkPart(signature)],
+        messageId: generateMessageId()
+      }]);
+
+      setIsSwapProcessing(false);
+      setSwapQuoteWidget(null);
+      clearJupiterOrder();
+
+      setTimeout(() => {
+        handlePassiveIncomePrompt(outputToken);
+      }, 1000);
+    } catch (error) {
+      console.error('Error confirming swap:', error);
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(error instanceof Error
+          ? `Swap failed: ${error.message}`
+          : "There was an error processing your swap. Please try again.")],
+        messageId: generateMessageId()
+      }]);
+      
+      // Clear swap state
+      setIsSwapProcessing(false);
+      setSwapQuoteWidget(null);
+      clearJupiterOrder();
+      clearJupiterSwapResult();
+    }
+  };
+
+  // Function to handle swap cancellation
+  const handleCancelSwap = () => {
+    clearJupiterOrder();
+    setSwapQuoteWidget(null);
+    setMessages(prev => [...prev, {
+      role: "assistant",
+      parts: [textPart("Swap cancelled. Would you like to try a different amount?")],
+      messageId: generateMessageId()
+    }]);
+  };
+
+  // Pay for the locked quote. An expired quote is replaced with a fresh one
+  // instead of opening checkout at a stale price.
+  const handleConfirmPurchase = async () => {
+    const pending = fiatPurchaseRef.current
+    const tokenSymbol = currentQuote?.outputCurrency || 'tokens'
+    const providerName = currentQuote?.provider || 'Stripe'
+    try {
+      const response = await confirmPurchase();
+      fiatPurchaseRef.current = null
+      const messageId = pending?.messageId || generateMessageId()
+      const text = `Opening the ${providerName} payment page. Please complete your purchase of ${formatFiatAmount(response.fiatAmount, response.fiatCurrency)} to receive ${Number((response.tokenAmount ?? 0).toFixed(6))} ${tokenSymbol}.`
+      setMessages(prev => pending
+        ? prev.map(msg => msg.messageId === messageId ? { ...msg, parts: [textPart(text)] } : msg)
+        : [...prev, { role: "assistant", parts: [textPart(text)], messageId }]
+      );
+      watchPaymentStatus(messageId, response.sessionId, tokenSymbol);
+    } catch (error) {
+      if (error instanceof QuoteExpiredError) {
+        await handleRequote();
+        return;
+      }
+      if (error instanceof PurchaseLimitError) {
+        fiatPurchaseRef.current = null
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          parts: [textPart(describeLimitRefusal(error.reason, error.allowance))],
+          messageId: generateMessageId()
+        }]);
+        return;
+      }
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart("Sorry, there was an error opening the payment page. Please try again.")],
+        messageId: generateMessageId()
+      }]);
+    }
+  };
+
+  const handleRequote = async () => {
+    const pending = fiatPurchaseRef.current
+    if (!pending) return;
+    try {
+      const { quotes: [quote] } = await getQuotes(pending.request);
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(`That quote expired, so I've locked a new one: ${formatFiatAmount(quote.inputAmount, quote.inputCurrency)} for ${Number(quote.outputAmount.toFixed(6))} ${quote.outputCurrency} with ${quote.provider}.`)],
+        messageId: generateMessageId()
+      }]);
+    } catch (error) {
+      fiatPurchaseRef.current = null
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart("Sorry, I couldn't get a new quote. Please try your purchase again.")],
         messageId: generateMessageId()
       }]);
     }
@@ -852,9 +1370,10 @@ export default function ChatInterface() {
 
   const handleCancelPurchase = () => {
     cancelPurchase();
+    fiatPurchaseRef.current = null
     setMessages(prev => [...prev, {
       role: "assistant",
-      content: "Purchase cancelled. Would you like to try a different amount?",
+      parts: [textPart("Purchase cancelled. Would you like to try a different amount?")],
       messageId: generateMessageId()
     }]);
   };
@@ -879,11 +1398,21 @@ export default function ChatInterface() {
     console.log('isAuthenticated:', isAuthenticated);
     console.log('walletAddress:', walletAddress);
 
-    // Add a message with loading indicator
+    // Add a message with the lending steps, advanced in place as they complete
     const lendingMsgId = generateMessageId();
+    const lendingLabel = `Processing your lending request of ${lendingAmount} ${lendingToken?.symbol} at ${selectedPool?.apy}% APY`;
+    let lendingStep = 0;
+    const showLendingStep = (step: number) => {
+      lendingStep = step;
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === lendingMsgId
+          ? { ...msg, parts: [progressPart(lendingLabel, progressSteps(LENDING_STEPS, step))] }
+          : msg
+      ));
+    };
     setMessages(prev => [...prev, {
       role: "assistant",
-      content: `<div class='flex items-center gap-2'><span>Processing your lending request of ${lendingAmount} ${lendingToken?.symbol} at ${selectedPool?.apy}% APY</span><span class='animate-pulse'>...</span><div class='ml-2 h-4 w-4 animate-spin rounded-full border-2 border-solid border-brand-purple border-t-transparent'></div></div>`,
+      parts: [progressPart(lendingLabel, progressSteps(LENDING_STEPS, 0))],
       messageId: lendingMsgId
     }]);
 
@@ -907,15 +1436,6 @@ export default function ChatInterface() {
       // Use either Privy wallet address or Solana wallet public key
       const userPublicKey = walletAddress || publicKey?.toString();
 
-      // Update the message to inform user to approve the transaction
-      setMessages(prev => prev.map(msg =>
-        msg.messageId === lendingMsgId
-          ? { 
-              ...msg, 
-              content: `<div class='flex items-center gap-2'><span>Please approve the transaction in your wallet</span><span class='animate-pulse'>...</span><div class='ml-2 h-4 w-4 animate-spin rounded-full border-2 border-solid border-brand-purple border-t-transparent'></div></div>` 
-            }
-          : msg
-      ));
 
       // Create a callback for sending the transaction based on available wallet
       const sendTx = async (transaction: VersionedTransaction): Promise<string> => {
@@ -930,30 +1450,35 @@ export default function ChatInterface() {
         }
       };
 
-      // Update the message to show transaction is processing
-      setMessages(prev => prev.map(msg =>
-        msg.messageId === lendingMsgId
-          ? { 
-              ...msg, 
-              content: `<div class='flex items-center gap-2'><span>Processing your transaction</span><span class='animate-pulse'>...</span><div class='ml-2 h-4 w-4 animate-spin rounded-full border-2 border-solid border-brand-purple border-t-transparent'></div></div>` 
-            }
-          : msg
-      ));
-
-      // Use the extracted service function to handle the lending logic
+      // Use the extracted service function to handle the lending logic. Once
+      // the transaction is built, ask the user to approve it in their wallet
       const signature = await submitSolendLend(
         selectedPool.pool,
         lendingAmount,
         userPublicKey!,
-        sendTx
+        transaction => {
+          showLendingStep(1);
+          return sendTx(transaction);
+        }
       );
 
+      getAccessToken()
+        .then(accessToken => reportActivity(userPublicKey!, {
+          kind: 'solend_deposit',
+          signature,
+          details: { tokenSymbol: lendingToken?.symbol || 'Token', apy: selectedPool.apy }
+        }, accessToken))
+        .catch(error => console.error('Error recording deposit in history:', error));
+
       // Update the loading message with success and a link to the transaction
       setMessages(prev => prev.map(msg =>
         msg.messageId === lendingMsgId
           ? { 
               ...msg, 
-              content: `Successfully lent ${lendingAmount} ${lendingToken?.symbol} on Solend! [View transaction](https://solscan.io/tx/${signature}). You are now earning ${selectedPool.apy}% APY.` 
+              parts: [
+                textPart(`Successfully lent ${lendingAmount} ${lendingToken?.symbol} on Solend! You are now earning ${selectedPool.apy}% APY.`),
+                transactionLinkPart(signature)
+              ]
             }
           : msg
       ));
@@ -965,7 +1490,10 @@ export default function ChatInterface() {
         msg.messageId === lendingMsgId
           ? { 
               ...msg, 
-              content: `Lending failed: ${e instanceof Error ? e.message : 'Unknown error'}` 
+              parts: [
+                progressPart(lendingLabel, settleActiveStep(progressSteps(LENDING_STEPS, lendingStep), 'error')),
+                textPart(`Lending failed: ${e instanceof Error ? e.message : 'Unknown error'}`)
+              ]
             }
           : msg
       ));
@@ -984,144 +1512,446 @@ export default function ChatInterface() {
     handleSend();
   };
 
-  const handleSend = async () => {
-    if (!input.trim()) return;
-
-    const userMessage = input;
-    setInput("");
+  // Offer the supported tokens as buttons when we need the user to pick one
+  const showYieldTokenOptions = (prompt: string) => {
     setMessages(prev => [...prev, {
-      role: "user",
-      content: userMessage,
+      role: "assistant",
+      parts: [textPart(prompt), {
+        type: "yield-options",
+        options: tokenRegistry.curated().map(token => ({
+          platform: token.symbol,
+          type: "lend",
+          apy: 0,
+          riskLevel: "low",
+          description: `Explore lending options for ${token.symbol}`,
+          url: "",
+          tokenSymbol: token.symbol
+        }))
+      }],
       messageId: generateMessageId()
     }]);
-    setIsTyping(true);
+  };
+
+  // Turn the amount fields of a buy intent into what checkout needs. Relative
+  // amounts ("half my USDC") are sized from the wallet balance: a share of SOL
+  // is paid as that much SOL, anything else is valued in USD at the current price.
+  const resolvePurchaseAmount = async (llmResponse: LLMResponse): Promise<PurchaseAmount | null> => {
+    if (llmResponse.relativeAmount) {
+      const { fraction, token: symbol } = llmResponse.relativeAmount;
+      const owner = activeWalletAddress || walletAddress || publicKey?.toString();
+      if (!owner) {
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          parts: [textPart("Please connect your Solana wallet first so I can check your balance.")],
+          messageId: generateMessageId()
+        }]);
+        return null;
+      }
+
+      const token = await findToken(symbol);
+      if (!token) {
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          parts: [textPart(`Sorry, I couldn't find the token "${symbol}" in our supported tokens list.`)],
+          messageId: generateMessageId()
+        }]);
+        return null;
+      }
+
+      const balance = await fetchTokenBalance(owner, token.address);
+      const quantity = balance * fraction;
+      if (quantity <= 0) {
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          parts: [textPart(`You don't have any ${token.symbol} in your wallet to spend.`)],
+          messageId: generateMessageId()
+        }]);
+        return null;
+      }
+
+      // Every relative amount is expressed in SOL; the buy flows know how to price that
+      const sol = await findToken('SOL');
+      const solAmount = sol ? await convertTokenAmount(quantity, token, sol) : null;
+      if (!solAmount) {
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          parts: [textPart(`Sorry, I couldn't fetch the current price for ${token.symbol}. Please try again later.`)],
+          messageId: generateMessageId()
+        }]);
+        return null;
+      }
+      return { solAmount };
+    }
+
+    if (llmResponse.dollarAmount && llmResponse.dollarAmount > 0) {
+      return { dollarAmount: llmResponse.dollarAmount, fiatCurrency: llmResponse.fiatCurrency || preferredCurrency };
+    }
+    if (llmResponse.solAmount && llmResponse.solAmount > 0) {
+      return { solAmount: llmResponse.solAmount };
+    }
+    if (llmResponse.amount && llmResponse.amount > 0) {
+      return llmResponse.intent === "buy_sol"
+        ? { solAmount: llmResponse.amount }
+        : { tokenAmount: llmResponse.amount };
+    }
+    return null;
+  };
+
+  // Answer from on-chain balances: a single token's balance when one is named,
+  // otherwise the whole wallet as a portfolio widget
+  const handleViewPortfolio = async (tokenSymbol?: string) => {
+    const owner = activeWalletAddress || walletAddress || publicKey?.toString();
+    if (!owner) {
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart("Please connect your Solana wallet first to view your portfolio.")],
+        messageId: generateMessageId()
+      }]);
+      return;
+    }
+
+    const loadingMsgId = generateMessageId();
+    setMessages(prev => [...prev, {
+      role: "assistant",
+      parts: [textPart(tokenSymbol ? `Checking your ${tokenSymbol} balance...` : "Fetching your portfolio...")],
+      messageId: loadingMsgId
+    }]);
 
     try {
-      const llmResponse = await processLLMResponse(userMessage);
+      const portfolio = await loadPortfolio(owner);
+
+      if (tokenSymbol) {
+        const holding = findHolding(portfolio, tokenSymbol);
+        const content = !holding
+          ? `You don't have any ${tokenSymbol.toUpperCase()} in your wallet.`
+          : holding.value !== null
+            ? `You have ${Number(holding.amount.toFixed(6))} ${holding.symbol} (about $${holding.value.toFixed(2)}).`
+            : `You have ${Number(holding.amount.toFixed(6))} ${holding.symbol}. I couldn't find a current price for it.`;
+        setMessages(prev => prev.map(msg =>
+          msg.messageId === loadingMsgId ? { ...msg, parts: [textPart(content)] } : msg
+        ));
+        return;
+      }
 
-      // Handle different intents
-      switch (llmResponse.intent) {
-        case "buy_sol":
-          if (llmResponse.amount && llmResponse.amount > 0) {
-            await handleBuySol(llmResponse.amount);
-          } else {
-            setMessages(prev => [...prev, {
-              role: "assistant",
-              content: "Please specify a valid amount of SOL to buy.",
-              messageId: generateMessageId()
-            }]);
-          }
-          break;
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? {
+              ...msg,
+              parts: [textPart(portfolio.holdings.length
+                ? `Your wallet holds ${portfolio.holdings.length} token${portfolio.holdings.length === 1 ? '' : 's'} worth about $${portfolio.totalValue.toFixed(2)}.`
+                : "Your wallet is empty. Want to buy some SOL to get started?"), { type: 'portfolio', portfolio }]
+            }
+          : msg
+      ));
+    } catch (error) {
+      console.error('Error loading portfolio:', error);
+      setMessages(prev => prev.map(msg =>
+        msg.messageId === loadingMsgId
+          ? { ...msg, parts: [textPart("Sorry, I couldn't load your balances right now. Please try again later.")] }
+          : msg
+      ));
+    }
+  };
 
-        case "buy_token":
-          if (llmResponse.amount && llmResponse.amount > 0 && llmResponse.token) {
-            await handleBuyToken(llmResponse.amount, llmResponse.token);
-          } else {
+  // Run the action for an intent whose required fields are all known
+  const handleIntent = async (llmResponse: LLMResponse, userMessage: string) => {
+    switch (llmResponse.intent) {
+      case "buy_sol": {
+        const purchase = await resolvePurchaseAmount(llmResponse);
+        if (purchase) {
+          await handleBuySol(purchase);
+        } else if (!llmResponse.relativeAmount) {
+          setMessages(prev => [...prev, {
+            role: "assistant",
+            parts: [textPart("Please specify a valid amount of SOL to buy.")],
+            messageId: generateMessageId()
+          }]);
+        }
+        break;
+      }
+
+      case "buy_token": {
+        const purchase = llmResponse.token ? await resolvePurchaseAmount(llmResponse) : null;
+        if (purchase && llmResponse.token) {
+          await handleBuyToken(purchase, llmResponse.token);
+        } else if (!llmResponse.token || !llmResponse.relativeAmount) {
+          // Relative amounts report their own failures from resolvePurchaseAmount
+          setMessages(prev => [...prev, {
+            role: "assistant",
+            parts: [textPart("Please specify a valid amount and token to buy.")],
+            messageId: generateMessageId()
+          }]);
+        }
+        break;
+      }
+
+      case "swap":
+        if (llmResponse.token && llmResponse.outputToken) {
+          await handleSwapTokens(
+            llmResponse.token,
+            llmResponse.outputToken,
+            llmResponse.amount ?? undefined,
+            llmResponse.relativeAmount?.fraction
+          );
+        } else {
+          setMessages(prev => [...prev, {
+            role: "assistant",
+            parts: [textPart("Please specify how much of which token to swap, and what to receive.")],
+            messageId: generateMessageId()
+          }]);
+        }
+        break;
+
+      case "sell":
+        if (llmResponse.token) {
+          await handleSwapTokens(
+            llmResponse.token,
+            llmResponse.outputToken || DEFAULT_SELL_TOKEN,
+            llmResponse.amount ?? undefined,
+            llmResponse.relativeAmount?.fraction
+          );
+        } else {
+          setMessages(prev => [...prev, {
+            role: "assistant",
+            parts: [textPart("Please specify which token to sell.")],
+            messageId: generateMessageId()
+          }]);
+        }
+        break;
+
+      case "explore_yield": {
+        // Try to extract token symbol from user message
+        let tokenSymbol = llmResponse.token;
+        if (!tokenSymbol) {
+          tokenSymbol = extractTokenSymbolFromYieldQuery(userMessage) || undefined;
+        }
+
+        if (tokenSymbol) {
+          const token = await findToken(tokenSymbol);
+          if (token) {
+            const loadingMsgId = generateMessageId();
             setMessages(prev => [...prev, {
               role: "assistant",
-              content: "Please specify a valid amount and token to buy.",
-              messageId: generateMessageId()
+              parts: [textPart(`Looking up yield options for ${token.symbol}...`)],
+              messageId: loadingMsgId
             }]);
-          }
-          break;
 
-        // Handling string literal for buy_token_fiat
-        case "buy_token_fiat" as any:
-          if (llmResponse.amount && llmResponse.amount > 0 && llmResponse.token) {
-            await handleBuyTokenWithFiat(llmResponse.amount, llmResponse.token);
+            // Use the showLendingOptions function
+            showLendingOptions(token.symbol, token.address);
           } else {
             setMessages(prev => [...prev, {
               role: "assistant",
-              content: "Please specify a valid amount and token to buy.",
+              parts: [textPart(`Token ${tokenSymbol} not found in supported list.`)],
               messageId: generateMessageId()
             }]);
           }
-          break;
+        } else {
+          // If no specific token is mentioned, show a list of supported tokens
+          showYieldTokenOptions("Which token would you like to explore lending options for? Here are the supported tokens:");
+        }
+        break;
+      }
+
+      case "view_portfolio":
+        await handleViewPortfolio(llmResponse.token);
+        break;
 
-        case "explore_yield": {
-          // Try to extract token symbol from user message
-          let tokenSymbol = llmResponse.token;
-          if (!tokenSymbol) {
-            tokenSymbol = extractTokenSymbolFromYieldQuery(userMessage) || undefined;
+      case "analyze_token":
+        if (llmResponse.token) {
+          await handleAnalyzeToken(llmResponse.token);
+        }
+        break;
+
+      case "token_info":
+        if (llmResponse.token) {
+          await handleTokenInfo(llmResponse.token);
+        }
+        break;
+
+      case "set_alert":
+        if (llmResponse.token) {
+          await handleSetAlert(llmResponse.token, llmResponse.alertPrice, llmResponse.alertDirection);
+        }
+        break;
+
+      default:
+        // Always hide wallet addresses in messages
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          parts: [textPart(llmResponse.message)],
+          messageId: generateMessageId()
+        }]);
+    }
+  };
+
+  // Drop an unanswered slot-filling question once it expires
+  useEffect(() => {
+    if (slotFilling.status !== "awaiting") return;
+
+    const timer = setTimeout(() => {
+      const { state, outcome } = advanceSlotFilling(slotFilling, { type: "tick", now: Date.now() });
+      if (outcome.kind !== "timed_out") return;
+      setSlotFilling(state);
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        parts: [textPart(`I've set aside your unfinished ${describeSlotFillableIntent(outcome.intent)} since it's been a while. Just ask again whenever you're ready.`)],
+        messageId: generateMessageId()
+      }]);
+    }, Math.max(0, slotFilling.expiresAt - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [slotFilling, setSlotFilling, setMessages]);
+
+  // Abort the in-flight /api/chat stream, keeping whatever text already arrived
+  const handleCancelStream = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isStreaming) return;
+
+    const userMessage = input;
+    // Build the context from the turns so far, before this message is appended
+    const context = buildConversationContext(messages, {
+      ...conversationSlots,
+      ...(slotFilling.status === "awaiting"
+        ? { pendingIntent: slotFilling.intent, missingSlots: slotFilling.missing }
+        : {})
+    });
+    setInput("");
+    setMessages(prev => [...prev, {
+      role: "user",
+      parts: [textPart(userMessage)],
+      messageId: generateMessageId()
+    }]);
+    // Moving on drops an unanswered token picker or risk warning
+    setTokenPicker(null);
+    setRiskGate(null);
+
+    if (slotFilling.status === "awaiting" && isCancelMessage(userMessage)) {
+      const { state, outcome } = advanceSlotFilling(slotFilling, { type: "cancel" });
+      setSlotFilling(state);
+      if (outcome.kind === "cancelled") {
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          parts: [textPart(`Okay, I've cancelled the ${describeSlotFillableIntent(outcome.intent)}. What would you like to do instead?`)],
+          messageId: generateMessageId()
+        }]);
+      }
+      return;
+    }
+
+    setIsTyping(true);
+    setIsStreaming(true);
+
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+    // The streamed reply is shown as a draft until the intent frame arrives
+    const draftId = generateMessageId();
+    let hasDraft = false;
+
+    try {
+      const llmResponse = await streamLLMResponse(userMessage, context, {
+        signal: abortController.signal,
+        onDelta: text => {
+          if (!hasDraft) {
+            hasDraft = true;
+            setIsTyping(false);
+            setMessages(prev => [...prev, { role: "assistant", parts: [textPart(text)], messageId: draftId, streaming: true }]);
+            return;
           }
+          setMessages(prev => prev.map(msg =>
+            msg.messageId === draftId ? { ...msg, parts: [textPart(messageText(msg) + text)] } : msg
+          ));
+        }
+      });
 
-          if (tokenSymbol) {
-            // Find token mint from tokenList
-            const token = tokenList.find(t => t.symbol.toUpperCase() === tokenSymbol.toUpperCase());
-            if (token) {
-              const loadingMsgId = generateMessageId();
-              setMessages(prev => [...prev, {
-                role: "assistant",
-                content: `Looking up yield options for ${token.symbol}...`,
-                messageId: loadingMsgId
-              }]);
-
-              // Use the showLendingOptions function
-              showLendingOptions(token.symbol, token.address);
-            } else {
-              setMessages(prev => [...prev, {
-                role: "assistant",
-                content: `Token ${tokenSymbol} not found in supported list.`,
-                messageId: generateMessageId()
-              }]);
-            }
+      if (!llmResponse) {
+        // Cancelled: keep the partial text as a finished message
+        setMessages(prev => hasDraft
+          ? prev.map(msg => msg.messageId === draftId ? { ...msg, parts: [textPart(`${messageText(msg)} _(stopped)_`)], streaming: false } : msg)
+          : [...prev, { role: "assistant", parts: [textPart("Okay, I've stopped.")], messageId: generateMessageId() }]);
+        return;
+      }
+
+      const { state, outcome } = advanceSlotFilling(slotFilling, {
+        type: "intent",
+        response: llmResponse,
+        userMessage,
+        now: Date.now()
+      });
+      setSlotFilling(state);
+
+      // A plain reply settles the draft in place; anything else replaces it
+      // with the messages its action posts
+      if (hasDraft && outcome.kind === "passthrough" && outcome.response.intent === "out_of_scope") {
+        setMessages(prev => prev.map(msg =>
+          msg.messageId === draftId ? { ...msg, parts: [textPart(outcome.response.message)], streaming: false } : msg
+        ));
+        return;
+      }
+      if (hasDraft) {
+        setMessages(prev => prev.filter(msg => msg.messageId !== draftId));
+      }
+
+      switch (outcome.kind) {
+        case "ask":
+          setConversationSlots(prev => updateConversationSlots(prev, llmResponse));
+          if (outcome.intent === "explore_yield") {
+            showYieldTokenOptions(`${outcome.prompt} Here are the supported tokens:`);
           } else {
-            // If no specific token is mentioned, show a list of supported tokens
             setMessages(prev => [...prev, {
               role: "assistant",
-              content: "Which token would you like to explore lending options for? Here are the supported tokens:",
-              messageId: generateMessageId(),
-              options: tokenList.map(token => ({
-                platform: token.symbol,
-                type: "lend",
-                apy: 0,
-                riskLevel: "low",
-                description: `Explore lending options for ${token.symbol}`,
-                url: "",
-                tokenSymbol: token.symbol
-              }))
+              parts: [textPart(outcome.prompt)],
+              messageId: generateMessageId()
             }]);
           }
           break;
-        }
 
-        case "view_portfolio":
-          // Process message to hide wallet addresses 
-          setMessages(prev => [...prev, {
-            role: "assistant",
-            content: llmResponse.message,
-            messageId: generateMessageId()
-          }]);
+        case "ready":
+        case "passthrough":
+          setConversationSlots(prev => updateConversationSlots(prev, outcome.response));
+          await handleIntent(outcome.response, userMessage);
           break;
-
-        default:
-          // Always hide wallet addresses in messages
-          setMessages(prev => [...prev, {
-            role: "assistant",
-            content: llmResponse.message,
-            messageId: generateMessageId()
-          }]);
       }
     } catch (error) {
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: "I'm having trouble understanding. Please try again.",
+        parts: [textPart("I'm having trouble understanding. Please try again.")],
         messageId: generateMessageId()
       }]);
     } finally {
       setIsTyping(false);
+      setIsStreaming(false);
+      streamAbortRef.current = null;
     }
   };
 
   // Handle token exploration for buttons
   const handleExploreYield = (tokenSymbol: string) => {
-    // Use the local token list directly for simplicity
-    const token = tokenList.find(t => t.symbol.toUpperCase() === tokenSymbol.toUpperCase());
+    // Picking a token answers any pending "which token?" question
+    if (slotFilling.status === "awaiting" && slotFilling.intent === "explore_yield") {
+      setSlotFilling(IDLE_SLOT_FILLING);
+    }
+    const token = tokenRegistry.lookup(tokenSymbol).token;
     if (token) {
       showLendingOptions(token.symbol, token.address);
     }
   };
 
+  const handleSelectPool = (pool: SolendPool) => {
+    setLendingAmount(null);
+    setSelectedPool(pool);
+    setShowLendingConfirm(true);
+  };
+
+  const swapHandlers = { onConfirm: handleConfirmSwap, onCancel: handleCancelSwap, isProcessing: isSwapProcessing };
+
+  // Only the latest pool list is selectable, and only while its lending flow is open
+  const activePoolListMessageId = solendPools && !showLendingConfirm
+    ? [...messages].reverse().find(msg => msg.parts.some(part => part.type === "pool-list"))?.messageId ?? null
+    : null;
+
   // Update condition to check both Solana wallet adapter and Privy wallet
   if (!connected && !isAuthenticated) {
     return (
@@ -1145,48 +1975,40 @@ export default function ChatInterface() {
               passiveIncomeMessageId={passiveIncomeMessageId}
               passiveIncomeHandlers={passiveIncomeHandlers}
               onExploreYield={handleExploreYield}
+              activeSwapRequestId={swapQuoteWidget?.requestId ?? null}
+              swapHandlers={swapHandlers}
+              activePoolListMessageId={activePoolListMessageId}
+              onSelectPool={handleSelectPool}
+              onRetryDelivery={handleRetryDelivery}
+              activeTokenPickerMessageId={tokenPicker?.messageId ?? null}
+              onSelectToken={handleSelectToken}
+              activeRiskGateMessageId={riskGate?.messageId ?? null}
+              riskGateHandlers={riskGateHandlers}
             />
           ))}
 
           {currentQuote && (
             <div className="flex justify-start">
               <div className="w-full max-w-[700px]">
+                {onrampQuotes.length > 1 && (
+                  <QuoteComparison
+                    quotes={onrampQuotes}
+                    selected={currentQuote}
+                    onSelect={selectQuote}
+                    disabled={isProcessingBuy}
+                  />
+                )}
                 <QuoteWidget
                   quote={currentQuote}
                   onConfirm={handleConfirmPurchase}
                   onCancel={handleCancelPurchase}
+                  onRequote={handleRequote}
+                  isProcessing={isProcessingBuy}
                 />
               </div>
             </div>
           )}
 
-          {swapQuoteWidget && (
-            <div className="flex justify-start">
-              <div className="w-full max-w-[700px]">
-                <SwapWidget
-                  quote={swapQuoteWidget}
-                  onConfirm={handleConfirmSwap}
-                  onCancel={handleCancelSwap}
-                  isProcessing={isSwapProcessing}
-                />
-              </div>
-            </div>
-          )}
-
-          {solendPools && !showLendingConfirm && (
-            <div className="flex justify-start w-full">
-              <SolendPoolsWidget
-                pools={solendPools}
-                tokenSymbol={lendingToken?.symbol || ''}
-                onSelectPool={(pool) => {
-                  setLendingAmount(null);
-                  setSelectedPool(pool);
-                  setShowLendingConfirm(true);
-                }}
-              />
-            </div>
-          )}
-
           {showLendingConfirm && selectedPool && (
             <LendingConfirmWidget
               tokenSymbol={lendingToken?.symbol || ''}
@@ -1222,6 +2044,8 @@ export default function ChatInterface() {
             onInputChange={setInput}
             onSend={handleSend}
             onQuickAction={handleQuickAction}
+            isStreaming={isStreaming}
+            onCancel={handleCancelStream}
           />
         </div>
       </div>
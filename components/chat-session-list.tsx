@@ -0,0 +1,143 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { MessageSquare, Pencil, Plus, Trash2 } from "lucide-react"
+import { usePrivyAuth } from "@/components/privy/privy-auth-provider"
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import {
+  ChatSession,
+  deleteSession,
+  listSessions,
+  onSessionsChanged,
+  renameSession,
+} from "@/components/chat/session-store"
+
+// Past chat sessions of the connected wallet, for resuming, renaming or deleting
+export function ChatSessionList() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { walletAddress } = usePrivyAuth()
+  const { publicKey } = useWallet()
+  const activeWalletAddress = walletAddress || publicKey?.toString() || null
+  const currentSessionId = searchParams.get("session")
+
+  const [sessions, setSessions] = useState<ChatSession[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState("")
+
+  useEffect(() => {
+    if (!activeWalletAddress) {
+      setSessions([])
+      return
+    }
+
+    const refresh = () => {
+      listSessions(activeWalletAddress)
+        .then(setSessions)
+        .catch(error => console.error("Error listing chat sessions:", error))
+    }
+
+    refresh()
+    return onSessionsChanged(changedWallet => {
+      if (changedWallet === activeWalletAddress) refresh()
+    })
+  }, [activeWalletAddress])
+
+  if (!activeWalletAddress) return null
+
+  const handleRename = async (id: string) => {
+    const title = editingTitle.trim()
+    setEditingId(null)
+    if (title) {
+      await renameSession(activeWalletAddress, id, title)
+    }
+  }
+
+  const handleDelete = async (session: ChatSession) => {
+    if (!window.confirm(`Delete "${session.title}"?`)) return
+    await deleteSession(activeWalletAddress, session.id)
+    if (session.id === currentSessionId || (!currentSessionId && session.id === sessions[0]?.id)) {
+      router.push("/?session=new")
+    }
+  }
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Chats</SidebarGroupLabel>
+      <SidebarGroupAction title="New chat" onClick={() => router.push("/?session=new")}>
+        <Plus />
+      </SidebarGroupAction>
+      <SidebarGroupContent>
+        <SidebarMenu className="space-y-1">
+          {sessions.length === 0 && (
+            <p className="px-2 text-xs text-gray-500">Your conversations will appear here.</p>
+          )}
+          {sessions.map(session => {
+            const isActive = session.id === currentSessionId
+            return (
+              <SidebarMenuItem key={session.id} className="group flex items-center">
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={e => setEditingTitle(e.target.value)}
+                    onBlur={() => handleRename(session.id)}
+                    onKeyDown={e => {
+                      if (e.key === "Enter") handleRename(session.id)
+                      if (e.key === "Escape") setEditingId(null)
+                    }}
+                    className="w-full rounded-md border border-brand-purple/30 px-2 py-1 text-sm text-black"
+                  />
+                ) : (
+                  <>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={isActive}
+                      className={isActive ? "bg-brand-purple/10 text-brand-purple" : "text-black hover:bg-brand-purple/5 hover:text-brand-purple"}
+                    >
+                      <button
+                        onClick={() => router.push(`/?session=${session.id}`)}
+                        className="flex items-center min-w-0 flex-1"
+                        title={session.title}
+                      >
+                        <MessageSquare className="mr-2 h-4 w-4 shrink-0" />
+                        <span className="truncate">{session.title}</span>
+                      </button>
+                    </SidebarMenuButton>
+                    <button
+                      title="Rename"
+                      onClick={() => {
+                        setEditingId(session.id)
+                        setEditingTitle(session.title)
+                      }}
+                      className="ml-1 hidden p-1 text-gray-500 hover:text-brand-purple group-hover:block"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button
+                      title="Delete"
+                      onClick={() => handleDelete(session)}
+                      className="hidden p-1 text-gray-500 hover:text-rose-500 group-hover:block"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+              </SidebarMenuItem>
+            )
+          })}
+        </SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  )
+}
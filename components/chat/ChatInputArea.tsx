@@ -1,13 +1,15 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { SendIcon, Search } from "lucide-react"
+import { SendIcon, Search, Square } from "lucide-react"
 
 interface ChatInputAreaProps {
   input: string
   onInputChange: (value: string) => void
   onSend: () => void
   onQuickAction: (action: string) => void
+  isStreaming?: boolean
+  onCancel?: () => void
 }
 
 export function ChatInputArea({
@@ -15,6 +17,8 @@ export function ChatInputArea({
   onInputChange,
   onSend,
   onQuickAction,
+  isStreaming = false,
+  onCancel,
 }: ChatInputAreaProps) {
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -63,14 +67,25 @@ export function ChatInputArea({
             className="w-full border border-input rounded-lg bg-white px-12 py-2 text-md shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-brand-white text-black"
           />
         </div>
-        <Button
-          onClick={onSend}
-          disabled={!input.trim()}
-          variant="purple"
-          className="ml-3 px-4 py-2"
-        >
-          <SendIcon size={18} />
-        </Button>
+        {isStreaming && onCancel ? (
+          <Button
+            onClick={onCancel}
+            variant="outline"
+            className="ml-3 px-4 py-2 border-brand-purple text-brand-purple bg-brand-purple/10 hover:bg-brand-purple/20"
+            title="Stop generating"
+          >
+            <Square size={18} />
+          </Button>
+        ) : (
+          <Button
+            onClick={onSend}
+            disabled={!input.trim()}
+            variant="purple"
+            className="ml-3 px-4 py-2"
+          >
+            <SendIcon size={18} />
+          </Button>
+        )}
       </div>
     </div>
   )
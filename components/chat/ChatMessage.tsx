@@ -1,14 +1,38 @@
 import { useRef, useEffect, HTMLAttributes } from "react"
 import { cn } from "@/lib/utils"
-import { Message, PassiveIncomeHandlers, YieldOption, PassiveIncomeOption } from "./types"
+import { Message, MessagePart, PassiveIncomeHandlers, SolendPool, TokenCandidate } from "./types"
 import { Button } from "@/components/ui/button"
-import ReactMarkdown from "react-markdown"
+import { PortfolioWidget } from "./PortfolioWidget"
+import { SwapWidget } from "./SwapWidget"
+import { SolendPoolsWidget } from "./SolendPoolsWidget"
+import { UndeliveredPaymentCard } from "./UndeliveredPaymentCard"
+import { TokenPickerWidget } from "./TokenPickerWidget"
+import { TokenRiskWidget } from "./TokenRiskWidget"
+import { TokenInfoCard } from "./TokenInfoCard"
+import { ProgressPartView, TextPartView, TransactionLinkPartView, YieldOptionsPartView } from "./MessageParts"
+
+interface SwapHandlers {
+  onConfirm: () => void;
+  onCancel: () => void;
+  isProcessing: boolean;
+}
 
 interface MessageProps extends HTMLAttributes<HTMLDivElement> {
   message: Message;
   passiveIncomeMessageId: string | null;
   passiveIncomeHandlers: PassiveIncomeHandlers | null;
   onExploreYield: (tokenSymbol: string) => void;
+  // Quotes and pool lists stay in the transcript; only the live one is actionable
+  activeSwapRequestId: string | null;
+  swapHandlers: SwapHandlers;
+  activePoolListMessageId: string | null;
+  onSelectPool: (pool: SolendPool) => void;
+  onRetryDelivery: (messageId: string, sessionId: string) => void;
+  activeTokenPickerMessageId: string | null;
+  onSelectToken: (query: string, candidate: TokenCandidate) => void;
+  // The risk report holding back a purchase, and its answers
+  activeRiskGateMessageId: string | null;
+  riskGateHandlers: { onProceed: () => void; onCancel: () => void };
 }
 
 export function ChatMessage({ 
@@ -16,6 +40,15 @@ export function ChatMessage({
   passiveIncomeMessageId, 
   passiveIncomeHandlers,
   onExploreYield,
+  activeSwapRequestId,
+  swapHandlers,
+  activePoolListMessageId,
+  onSelectPool,
+  onRetryDelivery,
+  activeTokenPickerMessageId,
+  onSelectToken,
+  activeRiskGateMessageId,
+  riskGateHandlers,
   className,
   ...props 
 }: MessageProps) {
@@ -38,9 +71,88 @@ export function ChatMessage({
 
   const isUserMessage = message.role === "user";
   
-  // Function to check if content appears to be HTML
-  const isHTML = (str: string) => {
-    return /<[a-z][\s\S]*>/i.test(str);
+  const renderPart = (part: MessagePart, key: number) => {
+    switch (part.type) {
+      case "text":
+        return <TextPartView key={key} part={part} />
+      case "progress":
+        return <ProgressPartView key={key} part={part} />
+      case "transaction-link":
+        return <TransactionLinkPartView key={key} part={part} />
+      case "quote": {
+        const isActive = part.quote.requestId === activeSwapRequestId
+        return (
+          <SwapWidget
+            key={key}
+            quote={part.quote}
+            onConfirm={isActive ? swapHandlers.onConfirm : undefined}
+            onCancel={isActive ? swapHandlers.onCancel : undefined}
+            isProcessing={isActive && swapHandlers.isProcessing}
+          />
+        )
+      }
+      case "pool-list":
+        return (
+          <SolendPoolsWidget
+            key={key}
+            pools={part.pools}
+            tokenSymbol={part.tokenSymbol}
+            onSelectPool={message.messageId === activePoolListMessageId ? onSelectPool : undefined}
+          />
+        )
+      case "yield-options":
+        return <YieldOptionsPartView key={key} options={part.options} onExploreYield={onExploreYield} />
+      case "passive-income":
+        // The buttons only make sense while this is the open question
+        if (message.messageId !== passiveIncomeMessageId) return null
+        return (
+          <div key={key} className="mt-4 flex gap-2">
+            {part.options.map((option, i) => (
+              <Button
+                key={i}
+                variant="purple"
+                className="text-white text-sm"
+                onClick={() => handlePassiveIncomeButtonClick(option.action)}
+              >
+                {option.choice}
+              </Button>
+            ))}
+          </div>
+        )
+      case "portfolio":
+        return <PortfolioWidget key={key} portfolio={part.portfolio} onExploreYield={onExploreYield} />
+      case "undelivered-payment":
+        return (
+          <UndeliveredPaymentCard
+            key={key}
+            payment={part.payment}
+            onRetry={() => onRetryDelivery(message.messageId, part.payment.id)}
+          />
+        )
+      case "token-picker":
+        return (
+          <TokenPickerWidget
+            key={key}
+            candidates={part.candidates}
+            onSelect={message.messageId === activeTokenPickerMessageId
+              ? candidate => onSelectToken(part.query, candidate)
+              : undefined}
+          />
+        )
+      case "token-info":
+        return <TokenInfoCard key={key} info={part.info} />
+      case "token-risk": {
+        const isActive = part.gated && message.messageId === activeRiskGateMessageId
+        return (
+          <TokenRiskWidget
+            key={key}
+            report={part.report}
+            onProceed={isActive ? riskGateHandlers.onProceed : undefined}
+            onCancel={isActive ? riskGateHandlers.onCancel : undefined}
+          />
+        )
+      }
+    }
   };
 
   const handlePassiveIncomeButtonClick = (action: string) => {
@@ -67,99 +179,12 @@ export function ChatMessage({
           ? "bg-brand-purple text-white font-medium" 
           : "bg-white border-brand-purple/20 text-black"
       )}>
-        {/* Display message content */}
-        <div className={isUserMessage ? "text-white" : "text-black"}>
-          {isHTML(message.content) ? (
-            <div dangerouslySetInnerHTML={{ __html: message.content }} />
-          ) : (
-            <ReactMarkdown
-              components={{
-                a: ({ node, ...props }) => (
-                  <a
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-brand-purple hover:underline"
-                    {...props}
-                  />
-                )
-              }}
-            >
-              {message.content}
-            </ReactMarkdown>
+        <div className={cn("space-y-2", isUserMessage ? "text-white" : "text-black")}>
+          {message.parts.map((part, i) => renderPart(part, i))}
+          {message.streaming && (
+            <span className="inline-block h-4 w-2 bg-brand-purple/60 animate-pulse align-middle" />
           )}
         </div>
-        
-        {/* Render passive income options if present */}
-        {message.passiveIncomeOptions && message.passiveIncomeOptions.length > 0 && 
-          message.messageId === passiveIncomeMessageId && (
-          <div className="mt-4 flex gap-2">
-            {message.passiveIncomeOptions.map((option, i) => (
-              <Button 
-                key={i}
-                variant="purple"
-                className="text-white text-sm"
-                onClick={() => handlePassiveIncomeButtonClick(option.action)}
-              >
-                {option.choice}
-              </Button>
-            ))}
-          </div>
-        )}
-        
-        {/* Render yield options if present */}
-        {message.options && message.options.length > 0 && (
-          <div className="mt-4 space-y-3">
-            {message.options.map((option, i) => (
-              <div
-                key={i}
-                className="bg-white rounded-lg p-3 border border-brand-purple/20 hover:border-brand-purple transition-colors"
-              >
-                <div className="flex justify-between items-center mb-2">
-                  <span className="font-semibold text-black">{option.platform}</span>
-                  {option.apy > 0 && (
-                    <span className="text-brand-purple text-lg font-bold">{option.apy}%</span>
-                  )}
-                </div>
-                <p className="text-sm text-black/70 mb-2">{option.description}</p>
-                <div className="flex justify-between items-center">
-                  <span className={cn(
-                    "text-sm",
-                    option.riskLevel === "low" && "text-brand-purple",
-                    option.riskLevel === "medium" && "text-brand-purple/80",
-                    option.riskLevel === "high" && "text-rose-500"
-                  )}>
-                    {option.riskLevel.charAt(0).toUpperCase() + option.riskLevel.slice(1)} Risk
-                  </span>
-                  {option.type === 'buy' ? (
-                    <Button 
-                      variant="purple"
-                      className="text-white text-sm"
-                      onClick={() => window.open(option.url, '_blank')}
-                    >
-                      Proceed to Buy
-                    </Button>
-                  ) : option.platform === option.tokenSymbol ? (
-                    <Button 
-                      variant="purple"
-                      className="text-white text-sm"
-                      onClick={() => onExploreYield(option.tokenSymbol)}
-                    >
-                      Explore
-                    </Button>
-                  ) : (
-                    <Button 
-                      variant="purple"
-                      className="text-white text-sm"
-                      onClick={() => onExploreYield(option.tokenSymbol)}
-                    >
-                      Lend Now
-                    </Button>
-                  )}
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
       </div>
     </div>
   )
@@ -0,0 +1,137 @@
+import ReactMarkdown from "react-markdown"
+import { Check, ExternalLink, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { ProgressPart, TextPart, TransactionLinkPart, YieldOption } from "./types"
+
+export function TextPartView({ part }: { part: TextPart }) {
+  return (
+    <ReactMarkdown
+      components={{
+        a: ({ href, title, children }) => (
+          <a
+            href={href}
+            title={title}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-brand-purple hover:underline"
+          >
+            {children}
+          </a>
+        )
+      }}
+    >
+      {part.text}
+    </ReactMarkdown>
+  );
+}
+
+const Spinner = () => (
+  <div className="h-4 w-4 shrink-0 animate-spin rounded-full border-2 border-solid border-brand-purple border-t-transparent" />
+);
+
+export function ProgressPartView({ part }: { part: ProgressPart }) {
+  const running = !part.steps || part.steps.some(step => step.status === 'active');
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <span>{part.label}</span>
+        {running && <Spinner />}
+      </div>
+      {part.steps && (
+        <ol className="mt-2 space-y-1 text-sm">
+          {part.steps.map((step, i) => (
+            <li
+              key={i}
+              className={cn(
+                "flex items-center gap-2",
+                step.status === 'pending' && "text-gray-400",
+                step.status === 'error' && "text-rose-500"
+              )}
+            >
+              {step.status === 'active' && <Spinner />}
+              {step.status === 'done' && <Check className="h-4 w-4 text-brand-purple" />}
+              {step.status === 'error' && <X className="h-4 w-4" />}
+              {step.status === 'pending' && <span className="h-4 w-4 rounded-full border border-gray-300" />}
+              {step.label}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// Signatures link to Solscan; backend responses already carry a full explorer URL
+export function TransactionLinkPartView({ part }: { part: TransactionLinkPart }) {
+  const href = /^https?:\/\//.test(part.signature) ? part.signature : `https://solscan.io/tx/${part.signature}`;
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="mt-1 inline-flex items-center gap-1 text-brand-purple hover:underline"
+    >
+      {part.label || 'View transaction'}
+      <ExternalLink className="h-3 w-3" />
+    </a>
+  );
+}
+
+export function YieldOptionsPartView({ options, onExploreYield }: { options: YieldOption[]; onExploreYield: (tokenSymbol: string) => void }) {
+  return (
+    <div className="mt-4 space-y-3">
+      {options.map((option, i) => (
+        <div
+          key={i}
+          className="bg-white rounded-lg p-3 border border-brand-purple/20 hover:border-brand-purple transition-colors"
+        >
+          <div className="flex justify-between items-center mb-2">
+            <span className="font-semibold text-black">{option.platform}</span>
+            {option.apy > 0 && (
+              <span className="text-brand-purple text-lg font-bold">{option.apy}%</span>
+            )}
+          </div>
+          <p className="text-sm text-black/70 mb-2">{option.description}</p>
+          <div className="flex justify-between items-center">
+            <span className={cn(
+              "text-sm",
+              option.riskLevel === "low" && "text-brand-purple",
+              option.riskLevel === "medium" && "text-brand-purple/80",
+              option.riskLevel === "high" && "text-rose-500"
+            )}>
+              {option.riskLevel.charAt(0).toUpperCase() + option.riskLevel.slice(1)} Risk
+            </span>
+            {option.type === 'buy' ? (
+              <Button
+                variant="purple"
+                className="text-white text-sm"
+                onClick={() => window.open(option.url, '_blank')}
+              >
+                Proceed to Buy
+              </Button>
+            ) : option.platform === option.tokenSymbol ? (
+              <Button
+                variant="purple"
+                className="text-white text-sm"
+                onClick={() => onExploreYield(option.tokenSymbol)}
+              >
+                Explore
+              </Button>
+            ) : (
+              <Button
+                variant="purple"
+                className="text-white text-sm"
+                onClick={() => onExploreYield(option.tokenSymbol)}
+              >
+                Lend Now
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
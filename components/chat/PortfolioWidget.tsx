@@ -0,0 +1,57 @@
+import { formatCurrency } from "@/lib/currency"
+import { PortfolioSnapshot } from "./types"
+
+interface PortfolioWidgetProps {
+  portfolio: PortfolioSnapshot;
+  onExploreYield?: (tokenSymbol: string) => void;
+}
+
+const formatAmount = (amount: number) =>
+  amount >= 1 ? amount.toLocaleString(undefined, { maximumFractionDigits: 4 }) : Number(amount.toPrecision(4)).toString();
+
+export function PortfolioWidget({ portfolio, onExploreYield }: PortfolioWidgetProps) {
+  return (
+    <div className="widget bg-white rounded-lg p-4 border border-brand-purple/30 mt-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-black">Portfolio</h3>
+        <span className="text-brand-purple text-lg font-bold">
+          {formatCurrency(portfolio.totalValue, 'usd')}
+        </span>
+      </div>
+
+      {portfolio.holdings.length === 0 ? (
+        <p className="text-sm text-gray-600">This wallet doesn&apos;t hold any tokens yet.</p>
+      ) : (
+        <div className="space-y-2 text-sm text-gray-600">
+          {portfolio.holdings.map(holding => (
+            <div key={holding.mint} className="flex justify-between items-center">
+              <div>
+                {onExploreYield && holding.price !== null ? (
+                  <button
+                    className="text-gray-800 font-medium hover:text-brand-purple"
+                    onClick={() => onExploreYield(holding.symbol)}
+                    title={`Explore lending options for ${holding.symbol}`}
+                  >
+                    {holding.symbol}
+                  </button>
+                ) : (
+                  <span className="text-gray-800 font-medium" title={holding.name}>{holding.symbol}</span>
+                )}
+              </div>
+              <div className="text-right">
+                <span className="text-black">{formatAmount(holding.amount)}</span>
+                <span className="ml-3 inline-block min-w-[72px] text-black">
+                  {holding.value !== null ? formatCurrency(holding.value, 'usd') : '—'}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500">
+        Prices as of {new Date(portfolio.fetchedAt).toLocaleTimeString()}. Unpriced tokens are not counted in the total.
+      </p>
+    </div>
+  );
+}
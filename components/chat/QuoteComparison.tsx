@@ -0,0 +1,55 @@
+import { cn } from "@/lib/utils"
+import { formatCurrency, formatFee, formatTokenAmount } from "@/lib/currency"
+import { OnrampQuote } from "./types"
+
+interface QuoteComparisonProps {
+  // Most tokens first, as the backend ranks them
+  quotes: OnrampQuote[];
+  selected: OnrampQuote | null;
+  onSelect: (quote: OnrampQuote) => void;
+  disabled?: boolean;
+}
+
+// One row per provider for the same purchase; the chosen one is shown in full below
+export function QuoteComparison({ quotes, selected, onSelect, disabled = false }: QuoteComparisonProps) {
+  const best = quotes[0];
+
+  return (
+    <div className="widget bg-white rounded-lg p-4 border border-brand-purple/30 mt-4">
+      <h3 className="text-lg font-semibold text-black mb-3">Compare Providers</h3>
+      <div className="space-y-2">
+        {quotes.map(quote => {
+          const isSelected = selected?.quoteId === quote.quoteId;
+          return (
+            <button
+              key={quote.quoteId}
+              type="button"
+              onClick={() => onSelect(quote)}
+              disabled={disabled}
+              className={cn(
+                "w-full rounded-lg border p-3 text-left text-sm transition-colors",
+                isSelected ? "border-brand-purple bg-brand-purple/10" : "border-gray-200 hover:border-brand-purple/50"
+              )}
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-black">
+                  {quote.provider}
+                  {quote === best && quotes.length > 1 && (
+                    <span className="ml-2 rounded-full bg-brand-purple px-2 py-0.5 text-xs font-medium text-white">Best rate</span>
+                  )}
+                </span>
+                <span className="text-brand-purple font-bold">
+                  {formatTokenAmount(quote.outputAmount)} {quote.outputCurrency}
+                </span>
+              </div>
+              <div className="mt-1 flex justify-between text-gray-600">
+                <span>{formatCurrency(quote.inputAmount, quote.inputCurrency)} incl. {formatFee(quote.fees.total, quote.inputCurrency)} fees</span>
+                <span>{quote.estimatedProcessingTime}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,50 +1,109 @@
-import React from 'react';
-import { Check, X } from "lucide-react"
+import React, { useEffect, useState } from 'react';
+import { Check, RefreshCw, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { formatCurrency, formatFee, formatTokenAmount, formatUnitPrice } from "@/lib/currency"
 import { OnrampQuote } from "./types"
 
 interface QuoteWidgetProps {
   quote: OnrampQuote;
   onConfirm: () => void;
   onCancel: () => void;
+  // Requests a fresh quote once a locked one has expired
+  onRequote?: () => void;
   isProcessing?: boolean;
 }
 
-export function QuoteWidget({ quote, onConfirm, onCancel, isProcessing = false }: QuoteWidgetProps) {
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Milliseconds left on a locked quote, ticking every second; null if it isn't locked
+function useTimeLeft(expiresAt?: string): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!expiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  return expiresAt ? new Date(expiresAt).getTime() - now : null;
+}
+
+function FeeRow({ label, amount, currency }: { label: string; amount: number; currency: string }) {
+  return (
+    <div className="flex justify-between">
+      <span>{label}:</span>
+      <span className="text-black">{formatFee(amount, currency)}</span>
+    </div>
+  );
+}
+
+export function QuoteWidget({ quote, onConfirm, onCancel, onRequote, isProcessing = false }: QuoteWidgetProps) {
+  const timeLeft = useTimeLeft(quote.expiresAt);
+  const expired = timeLeft !== null && timeLeft <= 0;
+
   return (
     <div className="widget bg-white rounded-lg p-4 border border-brand-purple/30 mt-4">
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-semibold text-black">Stripe Purchase</h3>
+        <h3 className="text-lg font-semibold text-black">{quote.provider} Purchase</h3>
         <span className="text-brand-purple text-lg font-bold">
-          {quote.outputAmount} {quote.outputCurrency}
+          {formatTokenAmount(quote.outputAmount)} {quote.outputCurrency}
         </span>
       </div>
       
       <div className="space-y-2 text-sm text-gray-600">
         <div className="flex justify-between">
           <span className="text-gray-800 font-medium">You Pay:</span>
-          <span className="text-black">${quote.inputAmount} {quote.inputCurrency}</span>
+          <span className="text-black">{formatCurrency(quote.inputAmount, quote.inputCurrency)}</span>
         </div>
         <div className="flex justify-between">
           <span className="text-gray-800 font-medium">You Receive:</span>
-          <span className="text-black">{quote.outputAmount} {quote.outputCurrency}</span>
+          <span className="text-black">{formatTokenAmount(quote.outputAmount)} {quote.outputCurrency}</span>
         </div>
-        <div className="flex justify-between">
-          <span className="text-gray-800 font-medium">Provider Fee:</span>
-          <span className="text-black">${quote.fees.provider.toFixed(2)}</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-gray-800 font-medium">Network Fee:</span>
-          <span className="text-black">${quote.fees.network.toFixed(2)}</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-gray-800 font-medium">Total Fees:</span>
-          <span className="text-black">${quote.fees.total.toFixed(2)}</span>
+        <div className="border-t border-gray-100 pt-2 space-y-1">
+          <FeeRow label={`${quote.provider} Fee`} amount={quote.fees.provider} currency={quote.inputCurrency} />
+          <FeeRow label="Network Fee" amount={quote.fees.network} currency={quote.inputCurrency} />
+          {quote.fees.priority !== undefined && (
+            <FeeRow label="Priority Fee" amount={quote.fees.priority} currency={quote.inputCurrency} />
+          )}
+          {quote.fees.route !== undefined && (
+            <FeeRow label="Jupiter Route Fee (in rate)" amount={quote.fees.route} currency={quote.inputCurrency} />
+          )}
+          {quote.fees.spread !== undefined && (
+            <FeeRow label="How3 Spread" amount={quote.fees.spread} currency={quote.inputCurrency} />
+          )}
+          <div className="flex justify-between">
+            <span className="text-gray-800 font-medium">Total Fees:</span>
+            <span className="text-black">{formatFee(quote.fees.total, quote.inputCurrency)}</span>
+          </div>
         </div>
         <div className="flex justify-between">
           <span className="text-gray-800 font-medium">Exchange Rate:</span>
-          <span className="text-black">1 {quote.inputCurrency} = {quote.exchangeRate.toFixed(6)} {quote.outputCurrency}</span>
+          <span className="text-black">{formatCurrency(1, quote.inputCurrency)} = {formatTokenAmount(quote.exchangeRate)} {quote.outputCurrency}</span>
         </div>
+        {quote.marketPrice !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-800 font-medium">Market Price:</span>
+            <span className="text-black">1 {quote.outputCurrency} = {formatUnitPrice(quote.marketPrice, quote.inputCurrency)}</span>
+          </div>
+        )}
+        {quote.effectivePrice !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-800 font-medium">Effective Price (incl. fees):</span>
+            <span className="text-black font-semibold">1 {quote.outputCurrency} = {formatUnitPrice(quote.effectivePrice, quote.inputCurrency)}</span>
+          </div>
+        )}
+        {quote.minOutputAmount !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-800 font-medium">Minimum Received:</span>
+            <span className="text-black">
+              {formatTokenAmount(quote.minOutputAmount)} {quote.outputCurrency}
+              {quote.slippageBps !== undefined && ` (${quote.slippageBps / 100}% band)`}
+            </span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span className="text-gray-800 font-medium">Network:</span>
           <span className="text-black">Solana Mainnet</span>
@@ -55,10 +114,18 @@ export function QuoteWidget({ quote, onConfirm, onCancel, isProcessing = false }
         </div>
       </div>
 
+      {timeLeft !== null && (
+        <p className={`mt-3 text-sm ${expired ? "text-rose-500" : "text-brand-purple"}`}>
+          {expired
+            ? "This price has expired. Get a new quote to continue."
+            : `Price locked for ${formatCountdown(timeLeft)}`}
+        </p>
+      )}
+
       <div className="flex gap-3 mt-4">
         <Button
-          onClick={onConfirm}
-          disabled={isProcessing}
+          onClick={expired ? onRequote : onConfirm}
+          disabled={isProcessing || (expired && !onRequote)}
           variant="purple"
           className="flex-1 text-white"
         >
@@ -70,6 +137,11 @@ export function QuoteWidget({ quote, onConfirm, onCancel, isProcessing = false }
               </svg>
               Processing...
             </span>
+          ) : expired ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Get New Quote
+            </>
           ) : (
             <>
               <Check className="h-4 w-4 mr-2" />
@@ -5,7 +5,8 @@ import { SolendPool } from "./types"
 interface SolendPoolsWidgetProps {
   pools: SolendPool[];
   tokenSymbol: string;
-  onSelectPool: (pool: SolendPool) => void;
+  // Without it the pools are shown read-only, e.g. once the lending flow is over
+  onSelectPool?: (pool: SolendPool) => void;
 }
 
 export function SolendPoolsWidget({ pools, tokenSymbol, onSelectPool }: SolendPoolsWidgetProps) {
@@ -45,14 +46,16 @@ export function SolendPoolsWidget({ pools, tokenSymbol, onSelectPool }: SolendPo
                   <div className="text-brand-purple font-bold text-xl">{pool.apy.toFixed(2)}%</div>
                   <div className="text-sm text-gray-700">APY</div>
                 </div>
-                <Button 
-                  size="sm" 
-                  variant="purple"
-                  className="text-white px-4 py-2 rounded-lg transition-colors duration-200"
-                  onClick={() => onSelectPool(pool)}
-                >
-                  Lend
-                </Button>
+                {onSelectPool && (
+                  <Button 
+                    size="sm" 
+                    variant="purple"
+                    className="text-white px-4 py-2 rounded-lg transition-colors duration-200"
+                    onClick={() => onSelectPool(pool)}
+                  >
+                    Lend
+                  </Button>
+                )}
               </div>
             </div>
           ))
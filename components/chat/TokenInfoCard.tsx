@@ -0,0 +1,96 @@
+import { Area, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import { ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart"
+import { cn } from "@/lib/utils"
+import { formatCompactCurrency, formatUnitPrice } from "@/lib/currency"
+import { OhlcCandle, TokenMarketInfo } from "@/lib/market"
+
+interface TokenInfoCardProps {
+  info: TokenMarketInfo;
+}
+
+const chartConfig = {
+  close: { label: "Close", color: "#813DD4" },
+  range: { label: "High / low", color: "#813DD4" }
+} satisfies ChartConfig
+
+const formatHour = (time: number) => new Date(time).toLocaleTimeString([], { hour: "numeric" })
+
+function CandleTooltip({ active, payload }: { active?: boolean; payload?: { payload: OhlcCandle }[] }) {
+  if (!active || !payload?.length) return null
+  const candle = payload[0].payload
+  return (
+    <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">{new Date(candle.time).toLocaleString([], { hour: "numeric", minute: "2-digit" })}</div>
+      <div className="grid grid-cols-2 gap-x-3 text-muted-foreground">
+        <span>Open</span><span className="text-right text-foreground">{formatUnitPrice(candle.open, "usd")}</span>
+        <span>High</span><span className="text-right text-foreground">{formatUnitPrice(candle.high, "usd")}</span>
+        <span>Low</span><span className="text-right text-foreground">{formatUnitPrice(candle.low, "usd")}</span>
+        <span>Close</span><span className="text-right text-foreground">{formatUnitPrice(candle.close, "usd")}</span>
+      </div>
+    </div>
+  )
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-gray-600">{label}</div>
+      <div className="text-black font-medium">{value}</div>
+    </div>
+  )
+}
+
+export function TokenInfoCard({ info }: TokenInfoCardProps) {
+  const change = info.priceChange24h
+  // The band between each candle's low and high, behind the closing price line
+  const data = info.candles.map(candle => ({ ...candle, range: [candle.low, candle.high] }))
+
+  return (
+    <div className="widget bg-white rounded-lg p-4 border border-brand-purple/30 mt-4">
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex items-center gap-2">
+          {info.logoURI && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={info.logoURI} alt="" className="h-8 w-8 rounded-full" />
+          )}
+          <div>
+            <h3 className="text-lg font-semibold text-black">{info.symbol}</h3>
+            <div className="text-xs text-gray-600">{info.name}</div>
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-brand-purple text-lg font-bold">
+            {info.price !== null ? formatUnitPrice(info.price, "usd") : "—"}
+          </div>
+          {change !== null && (
+            <div className={cn("text-sm font-medium", change >= 0 ? "text-emerald-600" : "text-rose-600")}>
+              {change >= 0 ? "+" : ""}{change.toFixed(2)}% (24h)
+            </div>
+          )}
+        </div>
+      </div>
+
+      {data.length > 1 && (
+        <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+          <ComposedChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+            <XAxis dataKey="time" tickFormatter={formatHour} tickLine={false} axisLine={false} minTickGap={32} />
+            <YAxis hide domain={["auto", "auto"]} />
+            <ChartTooltip content={<CandleTooltip />} />
+            <Area dataKey="range" type="monotone" stroke="none" fill="var(--color-range)" fillOpacity={0.15} isAnimationActive={false} />
+            <Line dataKey="close" type="monotone" stroke="var(--color-close)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ChartContainer>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 mt-4 text-sm">
+        <Stat label="Market cap" value={info.marketCap !== null ? formatCompactCurrency(info.marketCap, "usd") : "—"} />
+        <Stat label="Liquidity" value={info.liquidity !== null ? formatCompactCurrency(info.liquidity, "usd") : "—"} />
+        <Stat label="Holders" value={info.holders !== null ? info.holders.toLocaleString() : "—"} />
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        From {info.source} at {new Date(info.fetchedAt).toLocaleTimeString()}.
+      </p>
+    </div>
+  )
+}
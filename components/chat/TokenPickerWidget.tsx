@@ -0,0 +1,53 @@
+import { Badge } from "@/components/ui/badge"
+import { formatCurrency } from "@/lib/currency"
+import { TokenCandidate } from "./types"
+
+interface TokenPickerWidgetProps {
+  candidates: TokenCandidate[];
+  onSelect?: (candidate: TokenCandidate) => void;
+}
+
+const shortMint = (mint: string) => `${mint.slice(0, 4)}...${mint.slice(-4)}`
+
+function verificationBadge(candidate: TokenCandidate) {
+  if (candidate.curated) return <Badge variant="default">Supported</Badge>
+  if (candidate.strict) return <Badge variant="secondary">Strict</Badge>
+  if (candidate.verified) return <Badge variant="secondary">Verified</Badge>
+  return <Badge variant="destructive">Unverified</Badge>
+}
+
+export function TokenPickerWidget({ candidates, onSelect }: TokenPickerWidgetProps) {
+  return (
+    <div className="widget bg-white rounded-lg p-4 border border-brand-purple/30 mt-2 text-sm">
+      <div className="space-y-2">
+        {candidates.map(candidate => (
+          <button
+            key={candidate.address}
+            className="w-full flex items-center gap-3 rounded-md border border-gray-200 p-2 text-left enabled:hover:border-brand-purple disabled:cursor-default"
+            onClick={() => onSelect?.(candidate)}
+            disabled={!onSelect}
+          >
+            {candidate.logoURI ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={candidate.logoURI} alt="" className="h-8 w-8 rounded-full" />
+            ) : (
+              <div className="h-8 w-8 rounded-full bg-gray-100" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-black">
+                {candidate.symbol} <span className="font-normal text-gray-600">{candidate.name}</span>
+              </div>
+              <div className="text-xs text-gray-500 font-mono" title={candidate.address}>{shortMint(candidate.address)}</div>
+            </div>
+            <div className="text-right space-y-1">
+              {verificationBadge(candidate)}
+              <div className="text-xs text-gray-600">
+                {candidate.liquidity !== null ? `${formatCurrency(candidate.liquidity, 'usd')} liquidity` : 'Liquidity unknown'}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { AlertTriangle, Check, CircleHelp, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { RiskCheckStatus, RiskLevel, TokenRiskReport } from "@/lib/tokens/risk"
+
+interface TokenRiskWidgetProps {
+  report: TokenRiskReport;
+  // Set while the report gates a purchase of the token
+  onProceed?: () => void;
+  onCancel?: () => void;
+}
+
+const LEVEL_STYLES: Record<RiskLevel, { label: string; className: string }> = {
+  low: { label: "Low risk", className: "text-emerald-600" },
+  medium: { label: "Medium risk", className: "text-amber-600" },
+  high: { label: "High risk", className: "text-rose-600" }
+}
+
+function StatusIcon({ status }: { status: RiskCheckStatus }) {
+  switch (status) {
+    case "pass":
+      return <Check className="h-4 w-4 text-emerald-600 shrink-0" />
+    case "warn":
+      return <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0" />
+    case "fail":
+      return <X className="h-4 w-4 text-rose-600 shrink-0" />
+    case "unknown":
+      return <CircleHelp className="h-4 w-4 text-gray-400 shrink-0" />
+  }
+}
+
+export function TokenRiskWidget({ report, onProceed, onCancel }: TokenRiskWidgetProps) {
+  const level = LEVEL_STYLES[report.level]
+
+  return (
+    <div className={cn(
+      "widget bg-white rounded-lg p-4 border mt-4",
+      report.level === "high" ? "border-rose-200" : "border-brand-purple/30"
+    )}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-black">{report.symbol} safety check</h3>
+        <span className={cn("text-lg font-bold", level.className)}>
+          {report.score}/100 · {level.label}
+        </span>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {report.checks.map(check => (
+          <div key={check.id} className="flex gap-2">
+            <StatusIcon status={check.status} />
+            <div>
+              <span className="text-gray-800 font-medium">{check.label}:</span>{" "}
+              <span className="text-gray-600">{check.detail}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Read from the chain at {new Date(report.analyzedAt).toLocaleTimeString()}. A good score is not a guarantee; only buy what you can afford to lose.
+      </p>
+
+      {onProceed && onCancel && (
+        <div className="flex gap-3 mt-4">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="destructive" className="flex-1" onClick={onProceed}>
+            Buy anyway
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
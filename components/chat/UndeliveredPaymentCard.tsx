@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button"
+import { formatCurrency } from "@/lib/currency"
+import { UndeliveredPayment } from "@/lib/payments/payment-status"
+
+interface UndeliveredPaymentCardProps {
+  payment: UndeliveredPayment;
+  // Another delivery attempt, or the refund once attempts run out
+  onRetry?: () => void;
+}
+
+export function UndeliveredPaymentCard({ payment, onRetry }: UndeliveredPaymentCardProps) {
+  const tokenSymbol = payment.isTokenSwap ? payment.tokenSymbol || "Token" : "SOL"
+  const attempts = payment.deliveryAttempts ?? 0
+  const maxAttempts = payment.maxDeliveryAttempts ?? 0
+  // Out of attempts: retrying asks for the refund again
+  const refundDue = maxAttempts > 0 && attempts >= maxAttempts
+
+  return (
+    <div className="widget bg-white rounded-lg p-4 border border-rose-200 mt-2 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="font-semibold text-black">{tokenSymbol} purchase</span>
+        <span className="text-gray-600">{formatCurrency(payment.amount / 100, payment.currency)}</span>
+      </div>
+      <div className="mt-1 text-gray-600">
+        Paid {new Date(payment.timestamp).toLocaleString()}
+        {payment.error && <> &middot; {payment.error}</>}
+      </div>
+      {maxAttempts > 0 && (
+        <div className="mt-1 text-gray-600">
+          {refundDue
+            ? "Delivery failed too many times, so this payment is being refunded."
+            : `Delivery attempts: ${attempts} of ${maxAttempts}. After that your payment is refunded.`}
+        </div>
+      )}
+      {onRetry && !payment.deliveryInProgress && (
+        <Button variant="purple" className="text-white text-sm mt-3" onClick={onRetry}>
+          {refundDue ? "Request refund" : "Retry delivery"}
+        </Button>
+      )}
+      {payment.deliveryInProgress && (
+        <div className="mt-2 text-gray-600">Delivery is in progress.</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { PublicKey } from '@solana/web3.js';
+import { getAlchemyConnection } from './utils';
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+
+// Balance of a single token in the wallet, in UI units (SOL, not lamports)
+export async function fetchTokenBalance(ownerAddress: string, mint: string): Promise<number> {
+  const connection = getAlchemyConnection();
+  const owner = new PublicKey(ownerAddress);
+
+  if (mint === SOL_MINT) {
+    const lamports = await connection.getBalance(owner);
+    return lamports / 1e9;
+  }
+
+  const { value } = await connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(mint) });
+  return value.reduce((total, account) => {
+    const uiAmount = account.account.data.parsed?.info?.tokenAmount?.uiAmount;
+    return total + (typeof uiAmount === 'number' ? uiAmount : 0);
+  }, 0);
+}
+
+// Every non-zero balance in the wallet: SOL first, then SPL tokens summed per mint
+export async function fetchWalletBalances(ownerAddress: string): Promise<{ mint: string; amount: number; decimals: number }[]> {
+  const connection = getAlchemyConnection();
+  const owner = new PublicKey(ownerAddress);
+
+  const [lamports, { value }] = await Promise.all([
+    connection.getBalance(owner),
+    connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID })
+  ]);
+
+  const balances = new Map<string, { mint: string; amount: number; decimals: number }>();
+  for (const account of value) {
+    const info = account.account.data.parsed?.info;
+    const uiAmount = info?.tokenAmount?.uiAmount;
+    if (!info?.mint || typeof uiAmount !== 'number' || uiAmount <= 0) continue;
+
+    const existing = balances.get(info.mint);
+    balances.set(info.mint, {
+      mint: info.mint,
+      amount: (existing?.amount ?? 0) + uiAmount,
+      decimals: info.tokenAmount.decimals
+    });
+  }
+
+  const sol = lamports > 0 ? [{ mint: SOL_MINT, amount: lamports / 1e9, decimals: 9 }] : [];
+  return [...sol, ...balances.values()];
+}
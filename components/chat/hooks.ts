@@ -1,24 +1,46 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useWallet } from "@solana/wallet-adapter-react";
 import { usePrivyAuth } from "@/components/privy/privy-auth-provider";
 import { useOnramp } from '@/hooks/useOnramp';
 import { useJupiter } from '@/hooks/useJupiter';
 import { useRaydium } from '@/hooks/useRaydium';
-import { Message, SolendPool, SwapQuoteWidget } from './types';
+import { ConversationSlots, Message, SolendPool, SwapQuoteWidget } from './types';
 import { generateMessageId } from './utils';
+import { textPart } from './messages';
+import { IDLE_SLOT_FILLING, SlotFillingState } from './slot-filling';
 import { fetchSolendPoolsByMint } from './solend-service';
+import {
+  ChatSession,
+  SessionWidgetState,
+  createSessionId,
+  deriveSessionTitle,
+  getSession,
+  listSessions,
+  restorableWidgets,
+  saveSession,
+  setSessionAccessTokenProvider
+} from './session-store';
+
+const GREETING = "Hello! I can help buy SOL or any token on Solana Blockchain, Explore passive income options. What would you like to do?";
+
+// Wait for the conversation to settle before writing it to IndexedDB
+const SESSION_SAVE_DELAY_MS = 500;
+
+export function createGreetingMessage(): Message {
+  return {
+    role: "assistant",
+    parts: [textPart(GREETING)],
+    messageId: generateMessageId()
+  };
+}
 
 export function useChatState() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      role: "assistant",
-      content: "Hello! I can help buy SOL or any token on Solana Blockchain, Explore passive income options. What would you like to do?",
-      messageId: generateMessageId()
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>(() => [createGreetingMessage()]);
   
   const [input, setInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [conversationSlots, setConversationSlots] = useState<ConversationSlots>({});
   
   return {
     messages,
@@ -26,16 +48,25 @@ export function useChatState() {
     input,
     setInput,
     isTyping,
-    setIsTyping
+    setIsTyping,
+    isStreaming,
+    setIsStreaming,
+    conversationSlots,
+    setConversationSlots
   };
 }
 
 export function useWalletState() {
   const { connected, publicKey, sendTransaction, signTransaction } = useWallet();
-  const { isAuthenticated, walletAddress, sendTransaction: privySendTransaction } = usePrivyAuth();
+  const { isAuthenticated, walletAddress, sendTransaction: privySendTransaction, getAccessToken } = usePrivyAuth();
   
   const activeWalletAddress = walletAddress || (publicKey ? publicKey.toString() : null);
   const isWalletConnected = isAuthenticated || connected;
+
+  // Chat sessions are mirrored with the Privy user's token
+  useEffect(() => {
+    setSessionAccessTokenProvider(getAccessToken);
+  }, [getAccessToken]);
   
   return {
     connected,
@@ -45,6 +76,7 @@ export function useWalletState() {
     isAuthenticated,
     walletAddress,
     privySendTransaction,
+    getAccessToken,
     activeWalletAddress,
     isWalletConnected
   };
@@ -53,10 +85,13 @@ export function useWalletState() {
 export function useOnrampState() {
   const { 
     isProcessing, 
+    quotes,
     currentQuote, 
     error,
-    getQuote,
+    getQuotes,
+    selectQuote,
     confirmPurchase,
+    getAllowance,
     cancelPurchase,
     handleSuccess,
     handleCancel,
@@ -65,10 +100,13 @@ export function useOnrampState() {
   
   return {
     isProcessing,
+    quotes,
     currentQuote,
     error,
-    getQuote,
+    getQuotes,
+    selectQuote,
     confirmPurchase,
+    getAllowance,
     cancelPurchase,
     handleSuccess,
     handleCancel,
@@ -104,6 +142,15 @@ export function useJupiterState() {
 //   };
 // }
 
+export function useSlotFillingState() {
+  const [slotFilling, setSlotFilling] = useState<SlotFillingState>(IDLE_SLOT_FILLING);
+
+  return {
+    slotFilling,
+    setSlotFilling
+  };
+}
+
 export function useLendingState() {
   const [solendPools, setSolendPools] = useState<SolendPool[] | null>(null);
   const [lendingToken, setLendingToken] = useState<{ symbol: string, mint: string } | null>(null);
@@ -154,7 +201,7 @@ export function useLendingOptions(
       if (pools.length === 0) {
         setMessages(prev => [...prev, {
           role: "assistant",
-          content: `No safe lending pools found for ${tokenSymbol} at the moment.`,
+          parts: [textPart(`No safe lending pools found for ${tokenSymbol} at the moment.`)],
           messageId: generateMessageId()
         }]);
         setSolendPools(null);
@@ -163,7 +210,7 @@ export function useLendingOptions(
       
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `I found ${pools.length} lending options for ${tokenSymbol}. You can see them below.`,
+        parts: [textPart(`I found ${pools.length} lending options for ${tokenSymbol}:`), { type: 'pool-list', tokenSymbol, pools }],
         messageId: generateMessageId()
       }]);
       
@@ -172,7 +219,7 @@ export function useLendingOptions(
       console.error('Error fetching lending pools:', error);
       setMessages(prev => [...prev, {
         role: "assistant",
-        content: `Sorry, I had trouble finding lending options for ${tokenSymbol}. Please try again later.`,
+        parts: [textPart(`Sorry, I had trouble finding lending options for ${tokenSymbol}. Please try again later.`)],
         messageId: generateMessageId()
       }]);
       setSolendPools(null);
@@ -181,3 +228,105 @@ export function useLendingOptions(
   
   return { showLendingOptions };
 } 
+
+interface ChatSessionPersistenceOptions {
+  walletAddress: string | null;
+  // Session named in the URL; "new" starts a fresh chat, unset resumes the latest
+  requestedSessionId: string | null;
+  messages: Message[];
+  setMessages: (messages: Message[]) => void;
+  slots: ConversationSlots;
+  setSlots: (slots: ConversationSlots) => void;
+  widgets: SessionWidgetState;
+  onRestoreWidgets: (widgets: SessionWidgetState) => void;
+}
+
+// Load the chat session for the active wallet and keep it saved as it changes
+export function useChatSessionPersistence({
+  walletAddress,
+  requestedSessionId,
+  messages,
+  setMessages,
+  slots,
+  setSlots,
+  widgets,
+  onRestoreWidgets
+}: ChatSessionPersistenceOptions) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const sessionRef = useRef<ChatSession | null>(null);
+  const restoreRef = useRef(onRestoreWidgets);
+  restoreRef.current = onRestoreWidgets;
+
+  useEffect(() => {
+    if (!walletAddress) return;
+    let cancelled = false;
+
+    const load = async () => {
+      let session: ChatSession | null = null;
+      try {
+        if (requestedSessionId && requestedSessionId !== 'new') {
+          session = await getSession(walletAddress, requestedSessionId);
+        } else if (!requestedSessionId) {
+          session = (await listSessions(walletAddress))[0] ?? null;
+        }
+      } catch (error) {
+        console.error('Error loading chat session:', error);
+      }
+      if (cancelled) return;
+
+      if (session) {
+        sessionRef.current = session;
+        setMessages(session.messages);
+        setSlots(session.slots);
+        restoreRef.current(restorableWidgets(session.widgets));
+      } else {
+        const now = Date.now();
+        sessionRef.current = {
+          id: requestedSessionId && requestedSessionId !== 'new' ? requestedSessionId : createSessionId(),
+          walletAddress,
+          title: 'New chat',
+          createdAt: now,
+          updatedAt: now,
+          messages: [],
+          slots: {},
+          widgets: {}
+        };
+        setMessages([createGreetingMessage()]);
+        setSlots({});
+        restoreRef.current({});
+      }
+      setSessionId(sessionRef.current.id);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress, requestedSessionId, setMessages, setSlots]);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || session.id !== sessionId || session.walletAddress !== walletAddress) return;
+    // Untouched chats are not worth a sidebar entry, and drafts wait until they finish
+    if (!messages.some(message => message.role === 'user') || messages.some(message => message.streaming)) return;
+    if (messages === session.messages && slots === session.slots &&
+      JSON.stringify(widgets) === JSON.stringify(session.widgets)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        // The title may have been renamed from the sidebar since we loaded it
+        const stored = await getSession(session.walletAddress, session.id);
+        const title = stored?.title && stored.title !== 'New chat' ? stored.title : deriveSessionTitle(messages);
+        const updated: ChatSession = { ...session, title, updatedAt: Date.now(), messages, slots, widgets };
+        sessionRef.current = updated;
+        await saveSession(updated);
+      } catch (error) {
+        console.error('Error saving chat session:', error);
+      }
+    }, SESSION_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [sessionId, walletAddress, messages, slots, widgets]);
+
+  return { sessionId };
+}
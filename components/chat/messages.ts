@@ -0,0 +1,87 @@
+import {
+  Message,
+  MessagePart,
+  PassiveIncomeOption,
+  PortfolioSnapshot,
+  ProgressPart,
+  ProgressStep,
+  TextPart,
+  TransactionLinkPart,
+  YieldOption
+} from './types';
+import { generateMessageId } from './utils';
+
+export function textPart(text: string): TextPart {
+  return { type: 'text', text };
+}
+
+export function progressPart(label: string, steps?: ProgressStep[]): ProgressPart {
+  return steps ? { type: 'progress', label, steps } : { type: 'progress', label };
+}
+
+export function transactionLinkPart(signature: string, label: string = 'View transaction'): TransactionLinkPart {
+  return { type: 'transaction-link', signature, label };
+}
+
+// Steps before `activeIndex` are done, the one at it is running
+export function progressSteps(labels: string[], activeIndex: number): ProgressStep[] {
+  return labels.map((label, index) => ({
+    label,
+    status: index < activeIndex ? 'done' : index === activeIndex ? 'active' : 'pending'
+  }));
+}
+
+// Mark the running step as failed, or back to pending when we stop waiting on it
+export function settleActiveStep(steps: ProgressStep[], status: 'error' | 'pending'): ProgressStep[] {
+  return steps.map(step => (step.status === 'active' ? { ...step, status } : step));
+}
+
+// Readable text of a message, for the LLM context and session titles
+export function messageText(message: Message): string {
+  return message.parts
+    .map(part => {
+      switch (part.type) {
+        case 'text':
+          return part.text;
+        case 'progress':
+          return part.label;
+        case 'transaction-link':
+          return part.label || '';
+        default:
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+interface LegacyMessage {
+  role: Message['role'];
+  content?: string;
+  messageId?: string;
+  options?: YieldOption[];
+  passiveIncomeOptions?: PassiveIncomeOption[];
+  portfolio?: PortfolioSnapshot;
+}
+
+// Sessions saved before messages had parts stored a `content` string, which
+// could hold spinner HTML; keep only its text
+export function normalizeMessage(message: Message | LegacyMessage): Message {
+  if ('parts' in message && Array.isArray(message.parts)) {
+    return message as Message;
+  }
+
+  const legacy = message as LegacyMessage;
+  const parts: MessagePart[] = [];
+  const text = (legacy.content || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  if (text) parts.push(textPart(text));
+  if (legacy.options?.length) parts.push({ type: 'yield-options', options: legacy.options });
+  if (legacy.portfolio) parts.push({ type: 'portfolio', portfolio: legacy.portfolio });
+  if (legacy.passiveIncomeOptions?.length) parts.push({ type: 'passive-income', options: legacy.passiveIncomeOptions });
+
+  return {
+    role: legacy.role,
+    messageId: legacy.messageId || generateMessageId(),
+    parts
+  };
+}
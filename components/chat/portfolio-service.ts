@@ -0,0 +1,68 @@
+import { tokenRegistry } from '@/lib/tokens/registry';
+import { fetchWalletBalances } from './balance-service';
+import { PortfolioHolding, PortfolioSnapshot } from './types';
+
+// Wallets often hold dust from airdrops; only the holdings we have metadata for
+// are priced, and at most this many of them
+const MAX_PRICED_HOLDINGS = 20;
+
+interface TokenMetadata {
+  symbol: string;
+  name: string;
+  logoURI?: string;
+}
+
+async function lookupToken(mint: string): Promise<TokenMetadata | null> {
+  await tokenRegistry.ready();
+  const token = tokenRegistry.byMint(mint);
+  return token ? { symbol: token.symbol, name: token.name, logoURI: token.logoURI } : null;
+}
+
+async function priceToken(mint: string): Promise<number | null> {
+  const birdeyeService = (await import('@/src/services/BirdeyeService')).default;
+  const result = await birdeyeService.getTokenPrice(mint);
+  return result.success && result.price ? result.price : null;
+}
+
+// Balances from chain, priced through BirdeyeService (with its Jupiter fallback),
+// sorted by USD value with unpriced holdings last
+export async function loadPortfolio(walletAddress: string): Promise<PortfolioSnapshot> {
+  const balances = await fetchWalletBalances(walletAddress);
+
+  const metadataList = await Promise.all(balances.map(balance => lookupToken(balance.mint)));
+  const pricedMints = new Set(
+    balances
+      .filter((_, index) => metadataList[index])
+      .slice(0, MAX_PRICED_HOLDINGS)
+      .map(balance => balance.mint)
+  );
+
+  const holdings: PortfolioHolding[] = await Promise.all(balances.map(async (balance, index) => {
+    const metadata = metadataList[index];
+    const price = pricedMints.has(balance.mint) ? await priceToken(balance.mint) : null;
+    return {
+      mint: balance.mint,
+      symbol: metadata?.symbol || `${balance.mint.slice(0, 4)}...${balance.mint.slice(-4)}`,
+      name: metadata?.name || 'Unknown token',
+      amount: balance.amount,
+      price,
+      value: price !== null ? price * balance.amount : null,
+      logoURI: metadata?.logoURI
+    };
+  }));
+
+  holdings.sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+
+  return {
+    walletAddress,
+    holdings,
+    totalValue: holdings.reduce((total, holding) => total + (holding.value ?? 0), 0),
+    fetchedAt: Date.now()
+  };
+}
+
+// A single holding, for questions like "how much USDC do I have?"
+export function findHolding(portfolio: PortfolioSnapshot, symbol: string): PortfolioHolding | undefined {
+  const normalized = symbol.toUpperCase();
+  return portfolio.holdings.find(holding => holding.symbol.toUpperCase() === normalized);
+}
@@ -0,0 +1,204 @@
+import config from '../../lib/config';
+import { authHeaders } from '@/lib/payments/purchase-limits';
+import type { OrderResponse } from '@/hooks/useJupiter';
+import { ConversationSlots, Message, SolendPool, SwapQuoteWidget } from './types';
+import { messageText, normalizeMessage } from './messages';
+
+// Chat sessions persisted per wallet. IndexedDB is the source of truth in the
+// browser; when NEXT_PUBLIC_CHAT_SESSION_SYNC is "true" sessions are mirrored to
+// the backend so they follow the wallet across devices.
+
+const DB_NAME = 'how3-chat';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+const SESSIONS_CHANGED_EVENT = 'chat-sessions-changed';
+
+// Jupiter orders carry a recent blockhash, so a restored quote is only signable
+// for a short while. Lending pool APYs drift more slowly.
+export const SWAP_QUOTE_TTL_MS = 60 * 1000;
+export const LENDING_SELECTION_TTL_MS = 15 * 60 * 1000;
+
+export interface SessionWidgetState {
+  swapQuote?: {
+    quote: SwapQuoteWidget;
+    order: OrderResponse;
+    savedAt: number;
+  };
+  lending?: {
+    token: { symbol: string; mint: string };
+    pools: SolendPool[] | null;
+    selectedPool: SolendPool | null;
+    amount: number | null;
+    showConfirm: boolean;
+    savedAt: number;
+  };
+}
+
+export interface ChatSession {
+  id: string;
+  walletAddress: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Message[];
+  slots: ConversationSlots;
+  widgets: SessionWidgetState;
+}
+
+const syncEnabled = process.env.NEXT_PUBLIC_CHAT_SESSION_SYNC === 'true';
+
+// The backend only mirrors sessions for the Privy user the wallet is linked to;
+// without a token nothing is synced
+let accessTokenProvider: () => Promise<string | null> = async () => null;
+
+export function setSessionAccessTokenProvider(provider: () => Promise<string | null>): void {
+  accessTokenProvider = provider;
+}
+
+export function createSessionId(): string {
+  return `chat_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+// Title from the first thing the user asked
+export function deriveSessionTitle(messages: Message[]): string {
+  const firstUserMessage = messages.find(message => message.role === 'user');
+  if (!firstUserMessage) return 'New chat';
+  const text = messageText(firstUserMessage).trim();
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+}
+
+// Drop widget state that can no longer be acted on
+export function restorableWidgets(widgets: SessionWidgetState, now: number = Date.now()): SessionWidgetState {
+  const restorable: SessionWidgetState = {};
+  if (widgets.swapQuote && now - widgets.swapQuote.savedAt < SWAP_QUOTE_TTL_MS) {
+    restorable.swapQuote = widgets.swapQuote;
+  }
+  if (widgets.lending && now - widgets.lending.savedAt < LENDING_SELECTION_TTL_MS) {
+    restorable.lending = widgets.lending;
+  }
+  return restorable;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('walletAddress', 'walletAddress');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifySessionsChanged(walletAddress: string) {
+  window.dispatchEvent(new CustomEvent(SESSIONS_CHANGED_EVENT, { detail: { walletAddress } }));
+}
+
+export function onSessionsChanged(listener: (walletAddress: string) => void): () => void {
+  const handler = (event: Event) => listener((event as CustomEvent<{ walletAddress: string }>).detail.walletAddress);
+  window.addEventListener(SESSIONS_CHANGED_EVENT, handler);
+  return () => window.removeEventListener(SESSIONS_CHANGED_EVENT, handler);
+}
+
+async function fetchRemoteSessions(walletAddress: string): Promise<ChatSession[]> {
+  try {
+    const accessToken = await accessTokenProvider();
+    if (!accessToken) return [];
+    const response = await fetch(`${config.apiUrl}/api/chat-sessions/${walletAddress}`, {
+      headers: authHeaders(accessToken),
+    });
+    if (!response.ok) throw new Error(`Session store error: ${response.status}`);
+    const data = await response.json();
+    return Array.isArray(data.sessions) ? data.sessions : [];
+  } catch (error) {
+    console.error('Error fetching remote chat sessions:', error);
+    return [];
+  }
+}
+
+async function pushRemote(method: 'PUT' | 'DELETE', walletAddress: string, id: string, session?: ChatSession) {
+  try {
+    const accessToken = await accessTokenProvider();
+    if (!accessToken) return;
+    const response = await fetch(`${config.apiUrl}/api/chat-sessions/${walletAddress}/${id}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...authHeaders(accessToken) },
+      body: session ? JSON.stringify(session) : undefined,
+    });
+    if (!response.ok) throw new Error(`Session store error: ${response.status}`);
+  } catch (error) {
+    console.error('Error syncing chat session:', error);
+  }
+}
+
+// Sessions written before messages were split into parts are upgraded on read
+function normalizeSession(session: ChatSession): ChatSession {
+  return { ...session, messages: session.messages.map(normalizeMessage) };
+}
+
+// Newest first. Remote sessions fill in anything missing locally, and the more
+// recently updated copy wins when both exist.
+export async function listSessions(walletAddress: string): Promise<ChatSession[]> {
+  const local = await withStore<ChatSession[]>('readonly', store => store.index('walletAddress').getAll(walletAddress));
+  const sessions = new Map(local.map(session => [session.id, session]));
+
+  if (syncEnabled) {
+    for (const remote of await fetchRemoteSessions(walletAddress)) {
+      const existing = sessions.get(remote.id);
+      if (!existing || existing.updatedAt < remote.updatedAt) {
+        sessions.set(remote.id, remote);
+        await withStore('readwrite', store => store.put(remote));
+      }
+    }
+  }
+
+  return [...sessions.values()].map(normalizeSession).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getSession(walletAddress: string, id: string): Promise<ChatSession | null> {
+  const session = await withStore<ChatSession | undefined>('readonly', store => store.get(id));
+  if (session) {
+    return session.walletAddress === walletAddress ? normalizeSession(session) : null;
+  }
+  if (!syncEnabled) return null;
+  return (await listSessions(walletAddress)).find(remote => remote.id === id) || null;
+}
+
+export async function saveSession(session: ChatSession): Promise<void> {
+  // Streaming drafts are never persisted half-written
+  const stored: ChatSession = {
+    ...session,
+    messages: session.messages.map(message => (message.streaming ? { ...message, streaming: false } : message))
+  };
+  await withStore('readwrite', store => store.put(stored));
+  notifySessionsChanged(session.walletAddress);
+  if (syncEnabled) await pushRemote('PUT', session.walletAddress, session.id, stored);
+}
+
+export async function renameSession(walletAddress: string, id: string, title: string): Promise<void> {
+  const session = await getSession(walletAddress, id);
+  if (!session) return;
+  await saveSession({ ...session, title: title.trim() || session.title, updatedAt: Date.now() });
+}
+
+export async function deleteSession(walletAddress: string, id: string): Promise<void> {
+  const session = await getSession(walletAddress, id);
+  if (!session) return;
+  await withStore('readwrite', store => store.delete(id));
+  notifySessionsChanged(walletAddress);
+  if (syncEnabled) await pushRemote('DELETE', walletAddress, id);
+}
@@ -0,0 +1,277 @@
+import { parseAmountExpression } from '@/lib/llm/amounts';
+import { LLMResponse } from './types';
+
+// Slot filling for intents that cannot run until certain fields are known.
+// The machine is pure: chat-interface feeds it events and acts on the outcome.
+//
+//   idle --intent with missing slots--> awaiting --answer fills slots--> idle (ready)
+//   awaiting --answer still incomplete--> awaiting (ask again)
+//   awaiting --unrelated question--> awaiting (answered; the question stays open)
+//   awaiting --cancel--> idle (cancelled)
+//   awaiting --tick past expiresAt--> idle (timed_out)
+//   awaiting --different intent--> handled as a fresh intent
+
+export type SlotFillableIntent = "buy_sol" | "buy_token" | "swap" | "sell" | "explore_yield" | "analyze_token" | "token_info" | "set_alert";
+export type SlotName = "amount" | "token" | "outputToken";
+
+export const REQUIRED_SLOTS: Record<SlotFillableIntent, SlotName[]> = {
+  buy_sol: ["amount"],
+  buy_token: ["amount", "token"],
+  swap: ["amount", "token", "outputToken"],
+  // A sell without an amount sells the whole balance
+  sell: ["token"],
+  explore_yield: ["token"],
+  analyze_token: ["token"],
+  token_info: ["token"],
+  // Without a price the token is only watched
+  set_alert: ["token"],
+};
+
+// A pending question is dropped if the user has not answered within this window
+export const SLOT_FILLING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type SlotFillingState =
+  | { status: "idle" }
+  | {
+      status: "awaiting";
+      intent: SlotFillableIntent;
+      filled: LLMResponse;
+      missing: SlotName[];
+      expiresAt: number;
+    };
+
+export type SlotFillingEvent =
+  | { type: "intent"; response: LLMResponse; userMessage: string; now: number }
+  | { type: "cancel" }
+  | { type: "tick"; now: number };
+
+export type SlotFillingOutcome =
+  | { kind: "ready"; response: LLMResponse }
+  | { kind: "ask"; intent: SlotFillableIntent; missing: SlotName[]; prompt: string }
+  | { kind: "passthrough"; response: LLMResponse }
+  | { kind: "cancelled"; intent: SlotFillableIntent }
+  | { kind: "timed_out"; intent: SlotFillableIntent }
+  | { kind: "none" };
+
+export const IDLE_SLOT_FILLING: SlotFillingState = { status: "idle" };
+
+const CANCEL_PATTERN = /^\s*(cancel|never\s*mind|nevermind|stop|forget it|no thanks|nope)\b/i;
+
+export function isCancelMessage(text: string): boolean {
+  return CANCEL_PATTERN.test(text);
+}
+
+export function describeSlotFillableIntent(intent: SlotFillableIntent): string {
+  switch (intent) {
+    case "buy_sol":
+      return "SOL purchase";
+    case "buy_token":
+      return "token purchase";
+    case "swap":
+      return "swap";
+    case "sell":
+      return "sale";
+    case "explore_yield":
+      return "lending search";
+    case "analyze_token":
+      return "token safety check";
+    case "token_info":
+      return "token lookup";
+    case "set_alert":
+      return "price alert";
+  }
+}
+
+function isSlotFillable(intent: LLMResponse["intent"]): intent is SlotFillableIntent {
+  return intent in REQUIRED_SLOTS;
+}
+
+function isSlotFilled(response: LLMResponse, slot: SlotName): boolean {
+  switch (slot) {
+    case "amount":
+      return Boolean(response.relativeAmount) ||
+        [response.amount, response.dollarAmount, response.solAmount]
+          .some(value => typeof value === "number" && value > 0);
+    case "token":
+      return Boolean(response.token && response.token.trim());
+    case "outputToken":
+      return Boolean(response.outputToken && response.outputToken.trim());
+  }
+}
+
+export function missingSlots(response: LLMResponse): SlotName[] {
+  if (!isSlotFillable(response.intent)) return [];
+  return REQUIRED_SLOTS[response.intent].filter(slot => !isSlotFilled(response, slot));
+}
+
+export function promptForMissing(intent: SlotFillableIntent, missing: SlotName[], filled: LLMResponse): string {
+  if (intent === "explore_yield") {
+    return "Which token would you like to explore lending options for?";
+  }
+  if (intent === "buy_sol") {
+    return "How much SOL would you like to buy?";
+  }
+  if (intent === "analyze_token") {
+    return "Which token would you like me to check?";
+  }
+  if (intent === "token_info") {
+    return "Which token would you like to know about?";
+  }
+  if (intent === "set_alert") {
+    return filled.alertPrice
+      ? `Which token should I alert you about at $${filled.alertPrice}?`
+      : "Which token would you like to watch?";
+  }
+  if (intent === "sell") {
+    return "Which token would you like to sell?";
+  }
+  if (intent === "swap") {
+    return promptForSwap(missing, filled);
+  }
+  if (missing.length === 2) {
+    return "Which token would you like to buy, and how much of it?";
+  }
+  if (missing[0] === "amount") {
+    return `How much ${filled.token} would you like to buy?`;
+  }
+  return filled.amount
+    ? `Which token would you like to buy ${filled.amount} of?`
+    : "Which token would you like to buy?";
+}
+
+function promptForSwap(missing: SlotName[], filled: LLMResponse): string {
+  if (missing.includes("token")) {
+    return filled.outputToken
+      ? `Which token would you like to swap into ${filled.outputToken}, and how much of it?`
+      : "Which token would you like to swap, how much of it, and into what?";
+  }
+  if (missing.includes("outputToken")) {
+    return `Which token would you like to receive for your ${filled.token}?`;
+  }
+  return `How much ${filled.token} would you like to swap?`;
+}
+
+// Short answers like "2" or "bonk" often come back from the model as
+// out_of_scope, so read them directly against the slots we asked for.
+function readBareAnswer(userMessage: string, missing: SlotName[]): Partial<LLMResponse> {
+  const answer = userMessage.trim();
+  const numeric = answer.match(/^(\d+(?:\.\d+)?)(?:\s+([a-z][a-z0-9]*))?$/i);
+  const fields: Partial<LLMResponse> = {};
+  const expression = missing.includes("amount") ? parseAmountExpression(answer) : null;
+
+  if (expression?.kind === "fiat") {
+    fields.dollarAmount = expression.amount;
+    fields.fiatCurrency = expression.currency;
+  } else if (expression?.kind === "relative") {
+    fields.relativeAmount = { fraction: expression.fraction, token: expression.token };
+  } else if (numeric && missing.includes("amount")) {
+    fields.amount = parseFloat(numeric[1]);
+    if (numeric[2] && missing.includes("token")) {
+      fields.token = numeric[2].toUpperCase();
+    }
+  } else if (/^[a-z][a-z0-9]{1,15}$/i.test(answer) && missing.includes("token")) {
+    fields.token = answer.toUpperCase();
+  } else if (/^[a-z][a-z0-9]{1,15}$/i.test(answer) && missing.includes("outputToken")) {
+    fields.outputToken = answer.toUpperCase();
+  }
+  return fields;
+}
+
+function definedFields(response: LLMResponse): Partial<LLMResponse> {
+  const fields: Partial<LLMResponse> = {};
+  if (response.amount !== null && response.amount !== undefined) fields.amount = response.amount;
+  if (response.token) fields.token = response.token;
+  if (response.outputToken) fields.outputToken = response.outputToken;
+  if (response.currency) fields.currency = response.currency;
+  if (response.dollarAmount !== undefined) fields.dollarAmount = response.dollarAmount;
+  if (response.fiatCurrency) fields.fiatCurrency = response.fiatCurrency;
+  if (response.relativeAmount) fields.relativeAmount = response.relativeAmount;
+  if (response.solAmount !== undefined) fields.solAmount = response.solAmount;
+  if (response.alertPrice !== undefined) fields.alertPrice = response.alertPrice;
+  if (response.alertDirection) fields.alertDirection = response.alertDirection;
+  return fields;
+}
+
+function begin(response: LLMResponse, now: number): { state: SlotFillingState; outcome: SlotFillingOutcome } {
+  if (!isSlotFillable(response.intent)) {
+    return { state: IDLE_SLOT_FILLING, outcome: { kind: "passthrough", response } };
+  }
+
+  const missing = missingSlots(response);
+  if (missing.length === 0) {
+    return { state: IDLE_SLOT_FILLING, outcome: { kind: "ready", response } };
+  }
+
+  const intent = response.intent;
+  return {
+    state: { status: "awaiting", intent, filled: response, missing, expiresAt: now + SLOT_FILLING_TIMEOUT_MS },
+    outcome: { kind: "ask", intent, missing, prompt: promptForMissing(intent, missing, response) }
+  };
+}
+
+export function advanceSlotFilling(
+  state: SlotFillingState,
+  event: SlotFillingEvent
+): { state: SlotFillingState; outcome: SlotFillingOutcome } {
+  if (event.type === "cancel") {
+    return state.status === "awaiting"
+      ? { state: IDLE_SLOT_FILLING, outcome: { kind: "cancelled", intent: state.intent } }
+      : { state, outcome: { kind: "none" } };
+  }
+
+  if (event.type === "tick") {
+    return state.status === "awaiting" && event.now >= state.expiresAt
+      ? { state: IDLE_SLOT_FILLING, outcome: { kind: "timed_out", intent: state.intent } }
+      : { state, outcome: { kind: "none" } };
+  }
+
+  const { response, userMessage, now } = event;
+
+  if (state.status === "idle" || now >= state.expiresAt) {
+    return begin(response, now);
+  }
+
+  // A different actionable intent means the user moved on; start over with it
+  const answersPending = response.intent === state.intent || response.intent === "out_of_scope";
+  if (!answersPending) {
+    return begin(response, now);
+  }
+
+  const supplied = response.intent === state.intent
+    ? definedFields(response)
+    : readBareAnswer(userMessage, state.missing);
+
+  if (Object.keys(supplied).length === 0) {
+    // Something the model answered on its own ("what's a slippage?"): reply to it
+    // and leave our question open for when the user gets back to it
+    if (response.intent === "out_of_scope") {
+      return { state, outcome: { kind: "passthrough", response } };
+    }
+    // Nothing usable in the answer: ask again rather than losing the intent
+    return {
+      state: { ...state, expiresAt: now + SLOT_FILLING_TIMEOUT_MS },
+      outcome: {
+        kind: "ask",
+        intent: state.intent,
+        missing: state.missing,
+        prompt: promptForMissing(state.intent, state.missing, state.filled)
+      }
+    };
+  }
+
+  const merged: LLMResponse = { ...state.filled, ...supplied, intent: state.intent };
+  const stillMissing = missingSlots(merged);
+  if (stillMissing.length === 0) {
+    return { state: IDLE_SLOT_FILLING, outcome: { kind: "ready", response: merged } };
+  }
+
+  return {
+    state: { ...state, filled: merged, missing: stillMissing, expiresAt: now + SLOT_FILLING_TIMEOUT_MS },
+    outcome: {
+      kind: "ask",
+      intent: state.intent,
+      missing: stillMissing,
+      prompt: promptForMissing(state.intent, stillMissing, merged)
+    }
+  };
+}
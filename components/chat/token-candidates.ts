@@ -0,0 +1,25 @@
+import { TokenLookup } from '@/lib/tokens/registry';
+import { TokenCandidate } from './types';
+
+// The picker only shows this many of the equally ranked tokens, chosen by
+// liquidity from at most MAX_LIQUIDITY_LOOKUPS of them
+const MAX_CANDIDATES = 5;
+const MAX_LIQUIDITY_LOOKUPS = 10;
+
+async function fetchLiquidity(mint: string): Promise<number | null> {
+  const birdeyeService = (await import('@/src/services/BirdeyeService')).default;
+  const result = await birdeyeService.getTokenLiquidity(mint);
+  return result.success ? result.liquidity : null;
+}
+
+// The tokens an ambiguous name could mean, deepest liquidity first (unknown
+// liquidity last, otherwise in registry order)
+export async function loadTokenCandidates(lookup: TokenLookup): Promise<TokenCandidate[]> {
+  const candidates = await Promise.all(lookup.contenders.slice(0, MAX_LIQUIDITY_LOOKUPS).map(async token => ({
+    ...token,
+    liquidity: await fetchLiquidity(token.address)
+  })));
+  return candidates
+    .sort((a, b) => (b.liquidity ?? -1) - (a.liquidity ?? -1))
+    .slice(0, MAX_CANDIDATES);
+}
@@ -1,43 +1,207 @@
 import { VersionedTransaction } from "@solana/web3.js";
+import type { UndeliveredPayment } from "@/lib/payments/payment-status";
+import type { TokenInfo } from "@/lib/tokens/registry";
+import type { TokenRiskReport } from "@/lib/tokens/risk";
+import type { TokenMarketInfo } from "@/lib/market";
 
 export interface PassiveIncomeOption {
   choice: string;
   action: string;
 }
 
+// A message is a list of typed parts, each rendered by its own component in
+// ChatMessage. Nothing in a message is ever rendered as raw HTML.
 export interface Message {
-  role: string;
-  content: string;
-  messageId?: string;
-  options?: YieldOption[];
-  passiveIncomeOptions?: PassiveIncomeOption[];
+  role: "user" | "assistant";
+  messageId: string;
+  parts: MessagePart[];
+  // Set while the reply text is still streaming in
+  streaming?: boolean;
+}
+
+export type MessagePart =
+  | TextPart
+  | ProgressPart
+  | TransactionLinkPart
+  | QuotePart
+  | PoolListPart
+  | YieldOptionsPart
+  | PassiveIncomePart
+  | PortfolioPart
+  | UndeliveredPaymentPart
+  | TokenPickerPart
+  | TokenRiskPart
+  | TokenInfoPart;
+
+// Markdown text
+export interface TextPart {
+  type: "text";
+  text: string;
+}
+
+export type ProgressStepStatus = "pending" | "active" | "done" | "error";
+
+export interface ProgressStep {
+  label: string;
+  status: ProgressStepStatus;
+}
+
+// A spinner with a label, optionally broken down into steps
+export interface ProgressPart {
+  type: "progress";
+  label: string;
+  steps?: ProgressStep[];
+}
+
+export interface TransactionLinkPart {
+  type: "transaction-link";
+  // Transaction signature, or a full explorer URL from the backend
+  signature: string;
+  label?: string;
+}
+
+// A swap quote; it is actionable while it is still the pending swap
+export interface QuotePart {
+  type: "quote";
+  quote: SwapQuoteWidget;
+}
+
+// Lending pools for a token; selectable while that token's lending flow is open
+export interface PoolListPart {
+  type: "pool-list";
+  tokenSymbol: string;
+  pools: SolendPool[];
+}
+
+export interface YieldOptionsPart {
+  type: "yield-options";
+  options: YieldOption[];
+}
+
+// Yes/no buttons, live only while the message is the current prompt
+export interface PassiveIncomePart {
+  type: "passive-income";
+  options: PassiveIncomeOption[];
+}
+
+export interface PortfolioPart {
+  type: "portfolio";
+  portfolio: PortfolioSnapshot;
+}
+
+// A paid purchase that failed to deliver, with a button to try again
+export interface UndeliveredPaymentPart {
+  type: "undelivered-payment";
+  payment: UndeliveredPayment;
+}
+
+// Tokens that fit what the user typed equally well; pickable while it is the
+// open question
+export interface TokenPickerPart {
+  type: "token-picker";
+  query: string;
+  candidates: TokenCandidate[];
+}
+
+// A token safety report; when it gates a purchase it asks whether to go ahead
+// while that purchase is still waiting
+export interface TokenRiskPart {
+  type: "token-risk";
+  report: TokenRiskReport;
+  gated?: boolean;
+}
+
+// Price, market figures and a day of hourly candles for a token
+export interface TokenInfoPart {
+  type: "token-info";
+  info: TokenMarketInfo;
 }
 
 export interface LLMResponse {
-  intent: "buy_sol" | "buy_token" | "explore_yield" | "view_portfolio" | "out_of_scope";
+  intent: "buy_sol" | "buy_token" | "swap" | "sell" | "explore_yield" | "view_portfolio" | "analyze_token" | "token_info" | "set_alert" | "out_of_scope";
   amount?: number | null;
   currency?: string;
   token?: string;
+  // Token received by a swap or sell; `token` is the one paid with
+  outputToken?: string;
   message: string;
+  // Fiat amount to spend, in `fiatCurrency` units (the user's preferred currency when unset)
   dollarAmount?: number;
+  fiatCurrency?: string;
   solAmount?: number;
+  // "half my SOL" style amounts, resolved against the wallet balance
+  relativeAmount?: RelativeAmount;
+  // set_alert: the USD price to alert at, and which way it has to cross it.
+  // Without a price the token is added to the watchlist instead.
+  alertPrice?: number;
+  alertDirection?: "above" | "below";
+}
+
+export interface RelativeAmount {
+  fraction: number;
+  token: string;
+}
+
+// What a buy flow should charge for: a token quantity, a fiat amount or a SOL amount
+export interface PurchaseAmount {
+  tokenAmount?: number;
+  dollarAmount?: number;
+  fiatCurrency?: string;
+  solAmount?: number;
+}
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Facts carried between turns so follow-ups like "make it 2 instead" resolve
+export interface ConversationSlots {
+  lastIntent?: LLMResponse["intent"];
+  lastToken?: string;
+  lastAmount?: number;
+  // Set while the assistant is waiting for the user to supply missing fields
+  pendingIntent?: LLMResponse["intent"];
+  missingSlots?: string[];
+  // Mint the user picked for an ambiguous token name, keyed by the lowercased name
+  tokenChoices?: Record<string, string>;
+}
+
+export interface ConversationContext {
+  turns: ConversationTurn[];
+  slots: ConversationSlots;
 }
 
 export interface OnrampQuote {
+  // Display name; `providerId` picks the implementation in lib/onramp
   provider: string;
+  providerId?: string;
   inputAmount: number;
   inputCurrency: string;
   outputAmount: number;
   outputCurrency: string;
+  // In `inputCurrency`. The route fee is priced into the exchange rate; the
+  // others come out of the payment before it is converted.
   fees: {
     provider: number;
     network: number;
+    priority?: number;
+    route?: number;
+    spread?: number;
     total: number;
   };
   estimatedProcessingTime: string;
   exchangeRate: number;
   network: string;
   redirectUrl?: string;
+  // Per output unit: all-in, and before any fees
+  effectivePrice?: number;
+  marketPrice?: number;
+  // Set on server-issued quotes that lock the price until `expiresAt`
+  quoteId?: string;
+  expiresAt?: string;
+  slippageBps?: number;
+  minOutputAmount?: number;
 }
 
 export interface SwapQuoteWidget {
@@ -104,3 +268,27 @@ export interface Token {
   logoURI: string;
   coingeckoId: string;
 } 
+
+// A possible match for an ambiguous token name
+export interface TokenCandidate extends TokenInfo {
+  // USD across the token's markets; null when unknown
+  liquidity: number | null;
+}
+
+export interface PortfolioHolding {
+  mint: string;
+  symbol: string;
+  name: string;
+  amount: number;
+  // Null when no price source knows the token
+  price: number | null;
+  value: number | null;
+  logoURI?: string;
+}
+
+export interface PortfolioSnapshot {
+  walletAddress: string;
+  holdings: PortfolioHolding[];
+  totalValue: number;
+  fetchedAt: number;
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bell, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAlerts } from "@/hooks/useAlerts"
+import { formatUnitPrice } from "@/lib/currency"
+import { AlertDirection, describeAlert, notificationsSupported, requestAlertNotifications } from "@/lib/alerts"
+import { tokenRegistry } from "@/lib/tokens/registry"
+
+// A symbol or mint typed into the form, as the token it names. A symbol several
+// mints share has to be given by mint instead.
+async function resolveAlertToken(query: string) {
+  const lookup = await tokenRegistry.resolve(query)
+  if (!lookup.token) throw new Error(`Couldn't find the token "${query}"`)
+  if (lookup.ambiguous) throw new Error(`Several tokens are called ${query.toUpperCase()}; enter its mint address instead`)
+  return { mint: lookup.token.address, symbol: lookup.token.symbol }
+}
+
+// Price alerts and watchlist of the connected wallet, managed from Settings
+export function PriceAlertsCard({ walletAddress }: { walletAddress: string | null }) {
+  const { alerts, watchlist, loading, error, addAlert, removeAlert, addToWatchlist, removeFromWatchlist } = useAlerts(walletAddress)
+  const [tokenQuery, setTokenQuery] = useState("")
+  const [direction, setDirection] = useState<AlertDirection>("below")
+  const [price, setPrice] = useState("")
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [permission, setPermission] = useState<NotificationPermission | null>(null)
+
+  useEffect(() => {
+    if (notificationsSupported()) setPermission(Notification.permission)
+  }, [])
+
+  const submit = async (watchOnly: boolean) => {
+    const targetPrice = parseFloat(price)
+    if (!tokenQuery.trim()) return setFormError("Enter a token symbol or mint address")
+    if (!watchOnly && !(targetPrice > 0)) return setFormError("Enter a price above zero")
+
+    setSaving(true)
+    try {
+      const token = await resolveAlertToken(tokenQuery)
+      if (watchOnly) {
+        await addToWatchlist(token)
+      } else {
+        await addAlert(token, targetPrice, direction)
+        setPermission(await requestAlertNotifications())
+      }
+      setTokenQuery("")
+      setPrice("")
+      setFormError(null)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Could not save")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!walletAddress) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Price Alerts & Watchlist</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-gray-600">Connect a wallet to set price alerts.</CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Price Alerts & Watchlist</CardTitle>
+        <CardDescription>
+          Prices are checked in the background. A triggered alert appears in the chat and, if you allow it, as a browser notification.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Token, e.g. SOL"
+            value={tokenQuery}
+            onChange={event => setTokenQuery(event.target.value)}
+            className="sm:w-40"
+          />
+          <Select value={direction} onValueChange={value => setDirection(value as AlertDirection)}>
+            <SelectTrigger className="sm:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="below">Drops below</SelectItem>
+              <SelectItem value="above">Rises above</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Price (USD)"
+            value={price}
+            onChange={event => setPrice(event.target.value)}
+            className="sm:w-32"
+          />
+          <Button variant="purple" className="text-white" disabled={saving} onClick={() => submit(false)}>
+            Add alert
+          </Button>
+          <Button variant="outline" disabled={saving} onClick={() => submit(true)}>
+            Watch
+          </Button>
+        </div>
+        {(formError || error) && <p className="text-rose-600">{formError || error}</p>}
+
+        {permission === "default" && (
+          <Button variant="outline" onClick={async () => setPermission(await requestAlertNotifications())}>
+            <Bell className="h-4 w-4 mr-2" />
+            Enable browser notifications
+          </Button>
+        )}
+        {permission === "denied" && (
+          <p className="text-gray-600">Browser notifications are blocked for this site; alerts will only appear in the chat.</p>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-black">Alerts</h4>
+          {alerts.length === 0 ? (
+            <p className="text-gray-600">{loading ? "Loading..." : "No alerts yet. Try asking \"tell me when SOL drops below $120\" in the chat."}</p>
+          ) : alerts.map(alert => (
+            <div key={alert.id} className="flex items-center justify-between gap-2 rounded-md border border-gray-200 p-2">
+              <div>
+                <div className="text-black">When {describeAlert(alert)}</div>
+                <div className="text-xs text-gray-600">
+                  {alert.status === "triggered" && alert.triggeredAt
+                    ? `Triggered ${new Date(alert.triggeredAt).toLocaleString()} at ${formatUnitPrice(alert.triggeredPrice ?? alert.targetPrice, "usd")}`
+                    : alert.currentPrice != null ? `Now ${formatUnitPrice(alert.currentPrice, "usd")}` : "Waiting for a price"}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={alert.status === "triggered" ? "secondary" : "default"}>
+                  {alert.status === "triggered" ? "Triggered" : "Active"}
+                </Badge>
+                {alert.status === "active" && (
+                  <button
+                    title="Cancel alert"
+                    onClick={() => removeAlert(alert.id).catch(() => undefined)}
+                    className="p-1 text-gray-500 hover:text-rose-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-black">Watchlist</h4>
+          {watchlist.length === 0 ? (
+            <p className="text-gray-600">{loading ? "Loading..." : "No tokens on your watchlist."}</p>
+          ) : watchlist.map(token => (
+            <div key={token.mint} className="flex items-center justify-between gap-2 rounded-md border border-gray-200 p-2">
+              <span className="text-black">{token.symbol}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-600">{token.price !== null ? formatUnitPrice(token.price, "usd") : "Waiting for a price"}</span>
+                <button
+                  title="Remove from watchlist"
+                  onClick={() => removeFromWatchlist(token.mint).catch(() => undefined)}
+                  className="p-1 text-gray-500 hover:text-rose-500"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,6 +18,11 @@ interface PrivyAuthContextType {
   signMessage: (message: Uint8Array) => Promise<Uint8Array>
   sendTransaction: (transaction: any, connection: Connection) => Promise<string>
   isWalletInitialized: boolean
+  // Email linked to the Privy account; Privy only links one after its code is entered
+  email: string | null
+  verifyEmail: () => void
+  // Bearer token the backend checks to tell who is buying
+  getAccessToken: () => Promise<string | null>
 }
 
 // Create the context with default values
@@ -32,6 +37,9 @@ const PrivyAuthContext = createContext<PrivyAuthContextType>({
   signMessage: async () => new Uint8Array(),
   sendTransaction: async () => "",
   isWalletInitialized: false,
+  email: null,
+  verifyEmail: () => {},
+  getAccessToken: async () => null,
 })
 
 // Hook to use the Privy auth context
@@ -42,7 +50,7 @@ interface PrivyAuthProviderProps {
 }
 
 export const PrivyAuthProvider: FC<PrivyAuthProviderProps> = ({ children }) => {
-  const { ready, authenticated, login, logout, user } = usePrivy()
+  const { ready, authenticated, login, logout, user, linkEmail, getAccessToken } = usePrivy()
   const { wallets, createWallet } = useSolanaWallets()
   const { sendTransaction: privySendTransaction } = useSendTransaction()
   const [isAuthenticating, setIsAuthenticating] = useState(false)
@@ -194,6 +202,9 @@ export const PrivyAuthProvider: FC<PrivyAuthProviderProps> = ({ children }) => {
         signMessage,
         sendTransaction,
         isWalletInitialized,
+        email: user?.email?.address ?? null,
+        verifyEmail: linkEmail,
+        getAccessToken,
       }}
     >
       {children}
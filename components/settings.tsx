@@ -0,0 +1,86 @@
+"use client"
+
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PageContainer } from "@/components/page-container"
+import { PriceAlertsCard } from "@/components/price-alerts-card"
+import { usePrivyAuth } from "@/components/privy/privy-auth-provider"
+import { useCurrencyPreference } from "@/hooks/useCurrencyPreference"
+import { usePurchaseAllowance } from "@/hooks/usePurchaseAllowance"
+import { FiatCurrency, SUPPORTED_CURRENCIES, currencyName, formatCurrency } from "@/lib/currency"
+
+// Preferences of the connected wallet
+export function Settings() {
+  const { walletAddress, email, verifyEmail } = usePrivyAuth()
+  const { publicKey } = useWallet()
+  const activeWalletAddress = walletAddress || publicKey?.toString() || null
+  const { currency, setCurrency } = useCurrencyPreference(activeWalletAddress)
+  const { allowance, error: allowanceError } = usePurchaseAllowance(activeWalletAddress, currency)
+
+  return (
+    <PageContainer title="Settings" subtitle="Preferences for this wallet.">
+      <div className="p-4 space-y-4 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Currency</CardTitle>
+            <CardDescription>
+              Purchases that don&apos;t name a currency are charged in this one, and token amounts are quoted in it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Select value={currency} onValueChange={value => setCurrency(value as FiatCurrency)}>
+              <SelectTrigger className="w-full sm:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>
+                    {code.toUpperCase()} · {currencyName(code)} ({formatCurrency(1, code)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Purchase Limits</CardTitle>
+            <CardDescription>
+              Card purchases are limited per day and per 30 days. Verifying an email raises the limits.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {allowance ? (
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Tier</span>
+                  <span>{allowance.tier === "email_verified" ? `Verified (${email})` : "Unverified"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Left today</span>
+                  <span>{formatCurrency(allowance.remainingToday, currency)} of {formatCurrency(allowance.dailyLimit, currency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Left this month</span>
+                  <span>{formatCurrency(allowance.remainingThisMonth, currency)} of {formatCurrency(allowance.monthlyLimit, currency)}</span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-gray-600">{allowanceError || (activeWalletAddress ? "Loading..." : "Connect a wallet to see your limits.")}</p>
+            )}
+            {allowance?.verifiedDailyLimit != null && (
+              <Button variant="purple" className="text-white" onClick={verifyEmail}>
+                Verify email to raise your daily limit to {formatCurrency(allowance.verifiedDailyLimit, currency)}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <PriceAlertsCard walletAddress={activeWalletAddress} />
+      </div>
+    </PageContainer>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Download, ExternalLink, FileText, RefreshCw } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { PageContainer } from "@/components/page-container"
+import { usePrivyAuth } from "@/components/privy/privy-auth-provider"
+import { useTransactionHistory } from "@/hooks/useTransactionHistory"
+import { formatCurrency, formatFee, formatTokenAmount, formatUnitPrice } from "@/lib/currency"
+import { HistoryEntry, HistoryEntryStatus, downloadHistoryFile, historyCsvUrl, isFiatCurrency, receiptPdfUrl } from "@/lib/history"
+
+const STATUS_BADGES: Record<HistoryEntryStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  completed: { label: "Completed", variant: "default" },
+  pending: { label: "Pending", variant: "secondary" },
+  refunded: { label: "Refunded", variant: "outline" },
+  failed: { label: "Failed", variant: "destructive" }
+}
+
+// Fiat amounts in the user's locale, token amounts with their symbol
+function formatPaid(amount: number, currency: string) {
+  return isFiatCurrency(currency) ? formatCurrency(amount, currency) : `${formatTokenAmount(amount)} ${currency}`
+}
+
+function HistoryRow({ entry, onReceipt }: { entry: HistoryEntry; onReceipt: (entry: HistoryEntry) => void }) {
+  const badge = STATUS_BADGES[entry.status]
+  const fiat = isFiatCurrency(entry.paid.currency)
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3 text-sm">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="font-semibold text-black">{entry.description}</div>
+            <div className="text-gray-600">
+              {new Date(entry.timestamp).toLocaleString()} · {entry.provider}
+            </div>
+          </div>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+        </div>
+
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <div>
+            <dt className="text-gray-600">Paid</dt>
+            <dd>{formatPaid(entry.paid.amount, entry.paid.currency)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600">Received</dt>
+            <dd>{entry.received ? `${formatTokenAmount(entry.received.amount)} ${entry.received.symbol}` : "-"}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600">Effective price</dt>
+            <dd>
+              {entry.effectivePrice != null && entry.received
+                ? `${fiat ? formatUnitPrice(entry.effectivePrice, entry.paid.currency) : `${formatTokenAmount(entry.effectivePrice)} ${entry.paid.currency}`} / ${entry.received.symbol}`
+                : "-"}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-600">Fees</dt>
+            <dd>
+              {entry.fees
+                ? isFiatCurrency(entry.fees.currency)
+                  ? formatFee(entry.fees.amount, entry.fees.currency)
+                  : `${formatTokenAmount(entry.fees.amount, 9)} ${entry.fees.currency}`
+                : "-"}
+            </dd>
+          </div>
+        </dl>
+
+        {entry.refundReason && <p className="text-gray-600">{entry.refundReason}</p>}
+
+        <div className="flex flex-wrap gap-3">
+          {entry.explorerLinks.map(link => (
+            <a
+              key={link.url}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-brand-purple hover:underline"
+            >
+              {link.label}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          ))}
+          <button
+            type="button"
+            onClick={() => onReceipt(entry)}
+            className="inline-flex items-center gap-1 text-brand-purple hover:underline"
+          >
+            <FileText className="h-3 w-3" />
+            Receipt (PDF)
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Every purchase, swap and Solend deposit the connected wallet made through the app
+export function TransactionHistory() {
+  const { walletAddress, getAccessToken } = usePrivyAuth()
+  const { publicKey } = useWallet()
+  const activeWalletAddress = walletAddress || publicKey?.toString() || null
+  const { entries, loading, error, refresh } = useTransactionHistory(activeWalletAddress)
+  const [downloadError, setDownloadError] = useState<string | null>(null)
+
+  // The files need the wallet's sign-in, so they are fetched rather than linked
+  const download = async (url: string, filename: string) => {
+    try {
+      await downloadHistoryFile(url, filename, await getAccessToken())
+      setDownloadError(null)
+    } catch (err) {
+      console.error("Error downloading history file:", err)
+      setDownloadError(err instanceof Error ? err.message : "Could not download the file")
+    }
+  }
+  const downloadReceipt = (entry: HistoryEntry) =>
+    activeWalletAddress && download(receiptPdfUrl(activeWalletAddress, entry.id), `how3-receipt-${entry.id.slice(0, 16)}.pdf`)
+
+  return (
+    <PageContainer
+      title="Transaction History"
+      subtitle="Purchases, swaps and deposits made through the app."
+      rightHeaderContent={activeWalletAddress && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="purple"
+            size="sm"
+            className="text-white"
+            onClick={() => download(historyCsvUrl(activeWalletAddress), "how3-history.csv")}
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+        </div>
+      )}
+    >
+      <div className="p-4 space-y-3 max-w-4xl">
+        {downloadError && <p className="text-rose-500">{downloadError}</p>}
+        {!activeWalletAddress ? (
+          <p className="text-gray-600">Connect a wallet to see its history.</p>
+        ) : error ? (
+          <p className="text-rose-500">{error}</p>
+        ) : loading && !entries.length ? (
+          <p className="text-gray-600">Loading...</p>
+        ) : !entries.length ? (
+          <p className="text-gray-600">Nothing here yet. Purchases, swaps and deposits you make in the chat will show up here.</p>
+        ) : (
+          entries.map(entry => <HistoryRow key={entry.id} entry={entry} onReceipt={downloadReceipt} />)
+        )}
+      </div>
+    </PageContainer>
+  )
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import { usePrivyAuth } from '@/components/privy/privy-auth-provider';
+import {
+  AlertDirection,
+  AlertToken,
+  PriceAlert,
+  WatchedToken,
+  cancelAlert,
+  createAlert,
+  fetchAlerts,
+  unwatchToken,
+  watchToken
+} from '@/lib/alerts';
+
+// The wallet's price alerts and watchlist, with the actions that change them.
+// Each action reloads the lists so they show the backend's view.
+export function useAlerts(walletAddress: string | null) {
+  const { getAccessToken } = usePrivyAuth();
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [watchlist, setWatchlist] = useState<WatchedToken[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      setAlerts([]);
+      setWatchlist([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    getAccessToken()
+      .then(accessToken => fetchAlerts(walletAddress, accessToken, controller.signal))
+      .then(next => {
+        setAlerts(next.alerts);
+        setWatchlist(next.watchlist);
+        setError(null);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading price alerts:', err);
+        setError(err instanceof Error ? err.message : 'Could not load alerts');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [walletAddress, version, getAccessToken]);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  // Runs a change, then reloads; a failure is kept in `error` and rethrown
+  const change = useCallback(async (action: (wallet: string, accessToken: string | null) => Promise<unknown>) => {
+    if (!walletAddress) throw new Error('Connect a wallet to manage alerts');
+    try {
+      await action(walletAddress, await getAccessToken());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update alerts');
+      throw err;
+    } finally {
+      refresh();
+    }
+  }, [walletAddress, refresh, getAccessToken]);
+
+  const addAlert = useCallback((token: AlertToken, targetPrice: number, direction?: AlertDirection) =>
+    change((wallet, accessToken) => createAlert(wallet, token, targetPrice, direction, accessToken)), [change]);
+  const removeAlert = useCallback((alertId: number) =>
+    change((wallet, accessToken) => cancelAlert(wallet, alertId, accessToken)), [change]);
+  const addToWatchlist = useCallback((token: AlertToken) =>
+    change((wallet, accessToken) => watchToken(wallet, token, accessToken)), [change]);
+  const removeFromWatchlist = useCallback((mint: string) =>
+    change((wallet, accessToken) => unwatchToken(wallet, mint, accessToken)), [change]);
+
+  return { alerts, watchlist, loading, error, refresh, addAlert, removeAlert, addToWatchlist, removeFromWatchlist };
+}
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  FiatCurrency,
+  getCurrencyPreference,
+  setCurrencyPreference,
+  subscribeToCurrencyPreference
+} from '@/lib/currency';
+
+// The wallet's preferred fiat currency, kept in sync across components
+export function useCurrencyPreference(walletAddress?: string | null) {
+  const [currency, setCurrency] = useState<FiatCurrency>(() => getCurrencyPreference(walletAddress));
+
+  useEffect(() => {
+    setCurrency(getCurrencyPreference(walletAddress));
+    return subscribeToCurrencyPreference(() => setCurrency(getCurrencyPreference(walletAddress)));
+  }, [walletAddress]);
+
+  const updateCurrency = useCallback((next: FiatCurrency) => {
+    setCurrencyPreference(walletAddress, next);
+  }, [walletAddress]);
+
+  return { currency, setCurrency: updateCurrency };
+}
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { usePrivyAuth } from '@/components/privy/privy-auth-provider';
 import { useWallet } from '@solana/wallet-adapter-react';
+import { getAlchemyConnection } from '@/components/chat/utils';
+import { tokenRegistry } from '@/lib/tokens/registry';
 
 // SOL token mint address
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
@@ -22,7 +24,7 @@ interface RouteInfo {
   percent: number;
 }
 
-interface OrderResponse {
+export interface OrderResponse {
   requestId: string;
   inAmount: string;
   outAmount: string;
@@ -46,15 +48,27 @@ interface SwapResult {
   outputAmountResult?: string;
 }
 
+export type SwapMode = 'ExactIn' | 'ExactOut';
+
+interface OrderOptions {
+  // Mint being paid with; defaults to SOL
+  inputMint?: string;
+  // ExactOut fixes `amount` of the output token, ExactIn fixes `amount` of the input token
+  swapMode?: SwapMode;
+  // Decimals of the token `amount` is denominated in; read from its mint when omitted
+  amountDecimals?: number;
+}
+
 interface UseJupiterReturn {
   isLoading: boolean;
   orderResponse: OrderResponse | null;
   swapResult: SwapResult | null;
   error: string | null;
-  getOrder: (outputMint: string, amount: number) => Promise<OrderResponse | null>;
+  getOrder: (outputMint: string, amount: number, options?: OrderOptions) => Promise<OrderResponse | null>;
   executeSwap: (signedTransaction: string) => Promise<SwapResult | null>;
   clearOrder: () => void;
   clearResult: () => void;
+  restoreOrder: (order: OrderResponse) => void;
 }
 
 export function useJupiter(): UseJupiterReturn {
@@ -66,7 +80,8 @@ export function useJupiter(): UseJupiterReturn {
   const [error, setError] = useState<string | null>(null);
 
   // Get order directly with transaction included
-  const getOrder = async (outputMint: string, amount: number): Promise<OrderResponse | null> => {
+  const getOrder = async (outputMint: string, amount: number, options: OrderOptions = {}): Promise<OrderResponse | null> => {
+    const { inputMint = SOL_MINT, swapMode = 'ExactOut' } = options;
     const userAddress = walletAddress || publicKey?.toString();
 
     if (!userAddress) {
@@ -78,28 +93,22 @@ export function useJupiter(): UseJupiterReturn {
     setError(null);
 
     try {
-      // Find token decimals based on the token
-      let outputDecimals = 6; // Default for most tokens like USDC
-      if (outputMint === 'sctmXxs6Mh9SepYstbVmGzA5saD3GrMLpJ55uTVBVtY'){
-        outputDecimals = 9; // For TRUMP
-      } else if (outputMint === 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263') {
-        outputDecimals = 5; // For BONK
-      } else if (outputMint === '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R') {
-        outputDecimals = 8; // For DOGE
-      }
-      
-      // Convert the requested output amount to the appropriate decimal representation
-      const rawAmount = Math.floor(amount * Math.pow(10, outputDecimals));
+      // The amount is denominated in whichever side the swap mode fixes
+      const amountMint = swapMode === 'ExactIn' ? inputMint : outputMint;
+
+      const amountDecimals = options.amountDecimals ?? await tokenRegistry.decimals(amountMint, getAlchemyConnection());
+
+      // Convert the requested amount to the appropriate decimal representation
+      const rawAmount = Math.floor(amount * Math.pow(10, amountDecimals));
       
       // Call directly to /order endpoint with query parameters
       const orderUrl = new URL(`${JUPITER_API_BASE}/order`);
       
-      // Add query parameters for ExactOut swap mode
-      orderUrl.searchParams.append('inputMint', SOL_MINT);
+      orderUrl.searchParams.append('inputMint', inputMint);
       orderUrl.searchParams.append('outputMint', outputMint);
       orderUrl.searchParams.append('amount', rawAmount.toString());
       orderUrl.searchParams.append('slippageBps', '100'); // 1% slippage
-      orderUrl.searchParams.append('swapMode', 'ExactOut'); // Specify we want exact output amount
+      orderUrl.searchParams.append('swapMode', swapMode);
       orderUrl.searchParams.append('taker', userAddress);
       
       console.log("Jupiter API order URL:", orderUrl.toString());
@@ -200,6 +209,12 @@ export function useJupiter(): UseJupiterReturn {
     setError(null);
   };
 
+  // Put back an order saved with a chat session so it can still be executed
+  const restoreOrder = (order: OrderResponse) => {
+    setOrderResponse(order);
+    setError(null);
+  };
+
   return {
     isLoading,
     orderResponse,
@@ -209,5 +224,6 @@ export function useJupiter(): UseJupiterReturn {
     executeSwap,
     clearOrder,
     clearResult,
+    restoreOrder,
   };
 } 
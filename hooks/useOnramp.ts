@@ -3,57 +3,72 @@ import { useWallet } from '@solana/wallet-adapter-react';
 import { usePrivyAuth } from '@/components/privy/privy-auth-provider';
 import axios from 'axios';
 import config from '@/lib/config';
+import { OnrampQuote } from '@/components/chat/types';
+import {
+  BelowMinimumError,
+  OnrampCheckout,
+  OnrampQuoteComparison,
+  QuoteExpiredError,
+  compareOnrampQuotes,
+  getOnrampProvider
+} from '@/lib/onramp';
 
-interface OnrampQuote {
-  provider: string;
-  inputAmount: number;
-  inputCurrency: string;
-  outputAmount: number;
-  outputCurrency: string;
-  fees: {
-    provider: number;
-    network: number;
-    total: number;
-  };
-  estimatedProcessingTime: string;
-  exchangeRate: number;
-  network: string;
-  redirectUrl?: string;
+import { PurchaseAllowance, PurchaseLimitError, authHeaders, fetchPurchaseAllowance } from '@/lib/payments/purchase-limits';
+
+export { BelowMinimumError, QuoteExpiredError } from '@/lib/onramp';
+export { PurchaseLimitError } from '@/lib/payments/purchase-limits';
+
+interface CheckoutSession {
+  url: string;
+  solAmount: number;
+  fiatAmount: number;
+  fiatCurrency: string;
+  sessionId: string;
+  isTokenSwap: boolean;
+  tokenSymbol: string | null;
+  tokenAmount: number | null;
+}
+
+export interface LockedQuoteParams {
+  tokenSymbol: string;
+  tokenAddress: string;
+  dollarAmount?: number;
+  fiatCurrency?: string;
+  tokenAmount?: number;
 }
 
 interface UseOnrampReturn {
   isProcessing: boolean;
+  // Every provider's quote for the purchase, and the one the user picked
+  quotes: OnrampQuote[];
   currentQuote: OnrampQuote | null;
   error: string | null;
-  getQuote: (amount: number) => Promise<void>;
-  confirmPurchase: () => Promise<void>;
+  getQuotes: (params: LockedQuoteParams) => Promise<OnrampQuoteComparison>;
+  selectQuote: (quote: OnrampQuote) => void;
+  confirmPurchase: () => Promise<OnrampCheckout>;
+  // What the connected buyer can still spend, in `currency`
+  getAllowance: (currency?: string) => Promise<PurchaseAllowance>;
   cancelPurchase: () => void;
   handleSuccess: () => void;
   handleCancel: () => void;
   proceedToCheckout: (params?: { 
     dollarAmount?: number; 
+    fiatCurrency?: string;
     solAmount?: number;
     tokenSymbol?: string;
     tokenAddress?: string;
     tokenAmount?: number;
-  }) => Promise<{
-    url: string;
-    solAmount: number;
-    fiatAmount: number;
-    fiatCurrency: string;
-    sessionId: string;
-    isTokenSwap: boolean;
-    tokenSymbol: string | null;
-    tokenAmount: number | null;
-  }>;
+    quoteId?: string;
+  }) => Promise<CheckoutSession>;
 }
 
 // const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:4000';
 
 export function useOnramp(): UseOnrampReturn {
   const { publicKey } = useWallet();
-  const { isAuthenticated, walletAddress } = usePrivyAuth();
+  const { isAuthenticated, walletAddress, getAccessToken } = usePrivyAuth();
   const [isProcessing, setIsProcessing] = useState(false);
+  const [quotes, setQuotes] = useState<OnrampQuote[]>([]);
   const [currentQuote, setCurrentQuote] = useState<OnrampQuote | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null);
@@ -61,11 +76,13 @@ export function useOnramp(): UseOnrampReturn {
   // Helper function to directly create a Stripe checkout session
   const proceedToCheckout = async (params?: { 
     dollarAmount?: number; 
+    fiatCurrency?: string;
     solAmount?: number;
     tokenSymbol?: string;
     tokenAddress?: string;
     tokenAmount?: number;
-  }) => {
+    quoteId?: string;
+  }): Promise<CheckoutSession> => {
     try {
       // Check for either Solana wallet adapter or Privy wallet
       const userWalletAddress = publicKey?.toString() || walletAddress;
@@ -85,6 +102,10 @@ export function useOnramp(): UseOnrampReturn {
         body.dollarAmount = params.dollarAmount;
       }
       
+      if (params?.fiatCurrency) {
+        body.currency = params.fiatCurrency;
+      }
+
       if (params?.solAmount !== undefined && typeof params.solAmount === 'number' && params.solAmount > 0) {
         body.solAmount = params.solAmount;
       }
@@ -102,16 +123,24 @@ export function useOnramp(): UseOnrampReturn {
         body.tokenAmount = params.tokenAmount;
       }
 
+      // A locked quote replaces the amounts above on the backend
+      if (params?.quoteId) {
+        body.quoteId = params.quoteId;
+      }
+
       console.log('Creating checkout session with parameters:', body);
       
       const response = await fetch(`${config.apiUrl}/api/create-checkout-session`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders(await getAccessToken()) },
         body: JSON.stringify(body),
       });
 
       const data = await response.json();
       
+      if (data.code === 'quote_expired') throw new QuoteExpiredError();
+      if (data.code === 'below_minimum') throw new BelowMinimumError(data.error, data.minimum, data.currency);
+      if (data.code === 'limit_exceeded') throw new PurchaseLimitError(data.error, data.reason, data.allowance);
       if (data.error) throw new Error(data.error);
       
       console.log('Checkout session created:', {
@@ -131,102 +160,99 @@ export function useOnramp(): UseOnrampReturn {
     }
   };
 
-  // Create a quote for the specified amount
-  const getQuote = async (amount: number) => {
+  // Quote the purchase with every onramp provider. The best one (most tokens)
+  // is selected until the user picks another.
+  const getQuotes = async (params: LockedQuoteParams): Promise<OnrampQuoteComparison> => {
     // Check for either Solana wallet adapter or Privy wallet
     const userAddress = publicKey?.toString() || walletAddress;
 
     if (!userAddress) {
-      setError('Please connect your wallet first');
-      return;
-    }
-
-    if (!amount || amount <= 0) {
-      setError('Invalid amount. Please specify a positive number.');
-      return;
+      throw new Error('Please connect your wallet first');
     }
 
     setIsProcessing(true);
     setError(null);
 
     try {
-      // Create a dynamic quote based on the specified amount
-      const response = await fetch(`${config.apiUrl}/api/create-checkout-session`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          walletAddress: userAddress,
-          dollarAmount: amount
-        }),
-      });
+      const comparison = await compareOnrampQuotes({ ...params, walletAddress: userAddress });
+      setQuotes(comparison.quotes);
+      setCurrentQuote(comparison.quotes[0]);
+      return comparison;
+    } catch (error) {
+      console.error('Error in getQuotes:', error);
+      setError(error instanceof Error ? error.message : 'Failed to get a quote');
+      throw error;
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-      const data = await response.json();
-      
-      if (data.error) throw new Error(data.error);
-      
-      // Create a quote from the response
-      const quote: OnrampQuote = {
-        provider: "Stripe",
-        inputAmount: data.fiatAmount,
-        inputCurrency: data.fiatCurrency.toUpperCase(),
-        outputAmount: data.solAmount,
-        outputCurrency: 'SOL',
-        fees: {
-          provider: 0,
-          network: 0,
-          total: 0
-        },
-        estimatedProcessingTime: "1-2 minutes",
-        exchangeRate: data.fiatAmount / data.solAmount,
-        network: 'mainnet',
-        redirectUrl: data.url
-      };
+  const selectQuote = (quote: OnrampQuote) => {
+    setCurrentQuote(quote);
+  };
+
+  // Open the chosen provider's checkout for the current quote. All the quotes
+  // are spent either way; an expired one has to be requested again.
+  const confirmPurchase = async (): Promise<OnrampCheckout> => {
+    const userAddress = publicKey?.toString() || walletAddress;
+    if (!currentQuote) {
+      throw new Error('There is no quote to confirm');
+    }
+    if (!userAddress) {
+      throw new Error('Please connect your wallet first');
+    }
 
-      console.log('Created quote:', quote);
-      setCurrentQuote(quote);
+    setIsProcessing(true);
+    try {
+      return await getOnrampProvider(currentQuote.providerId).checkout(currentQuote, {
+        walletAddress: userAddress,
+        accessToken: await getAccessToken()
+      });
     } catch (error) {
-      console.error('Error in getQuote:', error);
-      setError(error instanceof Error ? error.message : 'Failed to create checkout session');
+      setError(error instanceof Error ? error.message : 'Failed to process payment');
+      throw error;
     } finally {
+      setQuotes([]);
+      setCurrentQuote(null);
       setIsProcessing(false);
     }
   };
 
-  const confirmPurchase = async () => {
-    if (currentQuote) {
-      const purchaseParams = {
-        dollarAmount: currentQuote.inputAmount,
-      };
-      
-      try {
-        await proceedToCheckout(purchaseParams);
-      } catch (error) {
-        setError(error instanceof Error ? error.message : 'Failed to process payment');
-      }
+  const getAllowance = async (currency: string = 'usd'): Promise<PurchaseAllowance> => {
+    const userAddress = publicKey?.toString() || walletAddress;
+    if (!userAddress) {
+      throw new Error('Please connect your wallet first');
     }
+    return fetchPurchaseAllowance(userAddress, currency, await getAccessToken());
   };
 
   const cancelPurchase = () => {
+    setQuotes([]);
     setCurrentQuote(null);
     setError(null);
   };
 
   const handleSuccess = () => {
+    setQuotes([]);
     setCurrentQuote(null);
     setError(null);
   };
 
   const handleCancel = () => {
+    setQuotes([]);
     setCurrentQuote(null);
     setError(null);
   };
 
   return {
     isProcessing,
+    quotes,
     currentQuote,
     error,
-    getQuote,
+    getQuotes,
+    selectQuote,
     confirmPurchase,
+    getAllowance,
     cancelPurchase,
     handleSuccess,
     handleCancel,
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { usePrivyAuth } from '@/components/privy/privy-auth-provider';
+import { PurchaseAllowance, fetchPurchaseAllowance } from '@/lib/payments/purchase-limits';
+
+// The wallet's remaining purchase allowance in `currency`, fetched again once the
+// user verifies an email
+export function usePurchaseAllowance(walletAddress: string | null, currency: string) {
+  const { email, getAccessToken } = usePrivyAuth();
+  const [allowance, setAllowance] = useState<PurchaseAllowance | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      setAllowance(null);
+      return;
+    }
+
+    let cancelled = false;
+    getAccessToken()
+      .then(accessToken => fetchPurchaseAllowance(walletAddress, currency, accessToken))
+      .then(next => {
+        if (cancelled) return;
+        setAllowance(next);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading purchase allowance:', err);
+        setError(err instanceof Error ? err.message : 'Could not load purchase limits');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress, currency, email, getAccessToken]);
+
+  return { allowance, error };
+}
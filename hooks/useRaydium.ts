@@ -12,6 +12,7 @@ import {
 } from '@raydium-io/raydium-sdk-v2';
 import BN from 'bn.js';
 import Decimal from 'decimal.js';
+import { tokenRegistry } from '@/lib/tokens/registry';
 
 // For devnet RPC endpoint
 const DEVNET_RPC_ENDPOINT = 'https://api.devnet.solana.com';
@@ -163,22 +164,7 @@ export function useRaydium(): UseRaydiumReturn {
         disableLoadToken: true,
       });
       
-      // Get token decimals
-      // First check if we have this token in our token.json
-      // For now, handle common decimals - this should be replaced with a proper token lookup
-      let outputDecimals = 6; // Default for most tokens
-      
-      if (outputMint === 'bVfhihtqyopGwZTMYZRm14NW9ZveFQkxWBeoEFPLv9h') {
-        outputDecimals = 9; // WALLET token
-      } else if (outputMint === '4pqFVT2emoqUPH76Nf9TSRxRce7EZCMaMzt4RX3Y3Hz5') {
-        outputDecimals = 9; // FAME token
-      } else if (outputMint === 'sctmXxs6Mh9SepYstbVmGzA5saD3GrMLpJ55uTVBVtY') {
-        outputDecimals = 9; // TRUMP token
-      } else if (outputMint === 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263') {
-        outputDecimals = 5; // BONK token
-      } else if (outputMint === '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R') {
-        outputDecimals = 8; // DOGE token
-      }
+      const outputDecimals = await tokenRegistry.decimals(outputMint, conn);
       
       // Convert desired token amount to lamports (or equivalent smallest unit)
       const outputAmount = new BN(Math.floor(amount * Math.pow(10, outputDecimals)));
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { usePrivyAuth } from '@/components/privy/privy-auth-provider';
+import { HistoryEntry, fetchHistory } from '@/lib/history';
+
+// The wallet's purchases, swaps and deposits, newest first
+export function useTransactionHistory(walletAddress: string | null) {
+  const { getAccessToken } = usePrivyAuth();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to load again, e.g. once pending entries may have settled
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      setEntries([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    getAccessToken()
+      .then(accessToken => fetchHistory(walletAddress, accessToken, controller.signal))
+      .then(next => {
+        setEntries(next);
+        setError(null);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading transaction history:', err);
+        setError(err instanceof Error ? err.message : 'Could not load history');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [walletAddress, getAccessToken, version]);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  return { entries, loading, error, refresh };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { usePrivyAuth } from '@/components/privy/privy-auth-provider';
+import { PriceAlert, acknowledgeAlerts, fetchTriggeredAlerts, notifyTriggeredAlert } from '@/lib/alerts';
+
+// How often the app asks the backend for alerts it has triggered
+const TRIGGERED_POLL_INTERVAL_MS = 30 * 1000;
+
+// Hands each alert the backend triggers for the wallet to `onTriggered` once,
+// shows it as a browser notification, then acknowledges it. An alert whose
+// acknowledgement fails is handed over again on the next poll.
+export function useTriggeredAlerts(walletAddress: string | null, onTriggered: (alerts: PriceAlert[]) => void) {
+  const { getAccessToken } = usePrivyAuth();
+  const onTriggeredRef = useRef(onTriggered);
+  onTriggeredRef.current = onTriggered;
+
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        // Only the wallet's Privy user can read its alerts
+        const accessToken = await getAccessToken();
+        if (!accessToken) return;
+        const alerts = await fetchTriggeredAlerts(walletAddress, accessToken);
+        if (cancelled || alerts.length === 0) return;
+        onTriggeredRef.current(alerts);
+        alerts.forEach(notifyTriggeredAlert);
+        await acknowledgeAlerts(walletAddress, alerts.map(alert => alert.id), accessToken);
+      } catch (error) {
+        console.error('Error checking price alerts:', error);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, TRIGGERED_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [walletAddress, getAccessToken]);
+}
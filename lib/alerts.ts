@@ -0,0 +1,126 @@
+import config from './config';
+import { formatUnitPrice } from './currency';
+import { authHeaders } from './payments/purchase-limits';
+
+// Typed client for the backend's /api/alerts: price alerts and the watchlist of
+// a wallet. The backend polls prices and triggers alerts; the app collects the
+// triggered ones and acknowledges them once they have been shown. Every call
+// needs the Privy access token of the user the wallet is linked to.
+
+export type AlertDirection = 'above' | 'below';
+
+export type AlertStatus = 'active' | 'triggered';
+
+export interface PriceAlert {
+  id: number;
+  mint: string;
+  symbol: string;
+  direction: AlertDirection;
+  // USD
+  targetPrice: number;
+  status: AlertStatus;
+  createdAt: string;
+  triggeredAt: string | null;
+  triggeredPrice: number | null;
+  // Last price the backend read for the token, when it has one
+  currentPrice?: number | null;
+}
+
+export interface WatchedToken {
+  mint: string;
+  symbol: string;
+  addedAt: string;
+  // Null until the backend has read a price for the token
+  price: number | null;
+  priceUpdatedAt: string | null;
+}
+
+export interface AlertToken {
+  mint: string;
+  symbol: string;
+}
+
+const alertsUrl = (walletAddress: string) => `${config.apiUrl}/api/alerts/${encodeURIComponent(walletAddress)}`;
+
+async function request<T>(url: string, accessToken: string | null | undefined, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { ...init.headers, ...authHeaders(accessToken) } });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Alerts error: ${response.status}`);
+  }
+  return data as T;
+}
+
+const postJson = (body: unknown): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+export function fetchAlerts(
+  walletAddress: string,
+  accessToken?: string | null,
+  signal?: AbortSignal
+): Promise<{ alerts: PriceAlert[]; watchlist: WatchedToken[] }> {
+  return request(alertsUrl(walletAddress), accessToken, { signal });
+}
+
+// Without a direction the backend picks the one that lies ahead of the current price
+export function createAlert(
+  walletAddress: string,
+  token: AlertToken,
+  targetPrice: number,
+  direction?: AlertDirection,
+  accessToken?: string | null
+): Promise<PriceAlert> {
+  return request(alertsUrl(walletAddress), accessToken, postJson({ ...token, targetPrice, direction }));
+}
+
+export async function cancelAlert(walletAddress: string, alertId: number, accessToken?: string | null): Promise<void> {
+  await request(`${alertsUrl(walletAddress)}/${alertId}`, accessToken, { method: 'DELETE' });
+}
+
+export async function watchToken(walletAddress: string, token: AlertToken, accessToken?: string | null): Promise<WatchedToken[]> {
+  const data = await request<{ watchlist: WatchedToken[] }>(`${alertsUrl(walletAddress)}/watchlist`, accessToken, postJson(token));
+  return data.watchlist;
+}
+
+export async function unwatchToken(walletAddress: string, mint: string, accessToken?: string | null): Promise<void> {
+  await request(`${alertsUrl(walletAddress)}/watchlist/${encodeURIComponent(mint)}`, accessToken, { method: 'DELETE' });
+}
+
+// Alerts that triggered since the app last acknowledged them, oldest first
+export async function fetchTriggeredAlerts(walletAddress: string, accessToken?: string | null): Promise<PriceAlert[]> {
+  const data = await request<{ alerts: PriceAlert[] }>(`${alertsUrl(walletAddress)}/triggered`, accessToken);
+  return data.alerts;
+}
+
+export async function acknowledgeAlerts(walletAddress: string, ids: number[], accessToken?: string | null): Promise<void> {
+  await request(`${alertsUrl(walletAddress)}/triggered/ack`, accessToken, postJson({ ids }));
+}
+
+export function describeAlert(alert: Pick<PriceAlert, 'symbol' | 'direction' | 'targetPrice'>): string {
+  return `${alert.symbol} ${alert.direction === 'above' ? 'rises above' : 'drops below'} ${formatUnitPrice(alert.targetPrice, 'usd')}`;
+}
+
+export function describeTriggeredAlert(alert: PriceAlert): string {
+  const price = alert.triggeredPrice !== null ? formatUnitPrice(alert.triggeredPrice, 'usd') : 'its target';
+  return `${alert.symbol} ${alert.direction === 'above' ? 'rose above' : 'dropped below'} ${formatUnitPrice(alert.targetPrice, 'usd')} and is now at ${price}.`;
+}
+
+// Browser notifications for triggered alerts. They are only shown once the user
+// has allowed them; the chat message is shown either way.
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export async function requestAlertNotifications(): Promise<NotificationPermission | null> {
+  if (!notificationsSupported()) return null;
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export function notifyTriggeredAlert(alert: PriceAlert): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  new Notification(`${alert.symbol} price alert`, { body: describeTriggeredAlert(alert), tag: `price-alert-${alert.id}` });
+}
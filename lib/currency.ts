@@ -0,0 +1,95 @@
+// Fiat currencies purchases can be charged in (mirrors backend/currency.js) and
+// the per-wallet preference used when a buy request doesn't name one.
+
+export const SUPPORTED_CURRENCIES = ['usd', 'eur', 'gbp', 'inr', 'cad', 'aud', 'sgd', 'chf'] as const;
+
+export type FiatCurrency = typeof SUPPORTED_CURRENCIES[number];
+
+const PREFERENCE_KEY_PREFIX = 'how3:currency:';
+const PREFERENCE_CHANGED_EVENT = 'currency-preference-changed';
+
+const REGION_CURRENCIES: Record<string, FiatCurrency> = {
+  IN: 'inr',
+  GB: 'gbp',
+  CA: 'cad',
+  AU: 'aud',
+  SG: 'sgd',
+  CH: 'chf',
+};
+const EURO_REGIONS = ['AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'];
+
+export function isSupportedCurrency(currency: string): currency is FiatCurrency {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+}
+
+// "$20.00", "€1,234.50", "₹500.00" in the user's locale
+export function formatCurrency(amount: number, currency: string, locale?: string): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount);
+}
+
+export function currencyName(currency: string, locale?: string): string {
+  try {
+    return new Intl.DisplayNames(locale, { type: 'currency' }).of(currency.toUpperCase()) || currency.toUpperCase();
+  } catch {
+    return currency.toUpperCase();
+  }
+}
+
+// Guess from the browser locale's region, USD when we don't charge in theirs
+export function defaultCurrency(): FiatCurrency {
+  if (typeof navigator === 'undefined') return 'usd';
+  const region = navigator.language.split('-')[1]?.toUpperCase();
+  if (!region) return 'usd';
+  if (EURO_REGIONS.includes(region)) return 'eur';
+  return REGION_CURRENCIES[region] || 'usd';
+}
+
+export function getCurrencyPreference(walletAddress?: string | null): FiatCurrency {
+  if (typeof window === 'undefined') return 'usd';
+  const stored = window.localStorage.getItem(`${PREFERENCE_KEY_PREFIX}${walletAddress || 'anonymous'}`);
+  return stored && isSupportedCurrency(stored) ? stored : defaultCurrency();
+}
+
+export function setCurrencyPreference(walletAddress: string | null | undefined, currency: FiatCurrency): void {
+  window.localStorage.setItem(`${PREFERENCE_KEY_PREFIX}${walletAddress || 'anonymous'}`, currency);
+  window.dispatchEvent(new CustomEvent(PREFERENCE_CHANGED_EVENT, { detail: { walletAddress, currency } }));
+}
+
+export function subscribeToCurrencyPreference(handler: () => void): () => void {
+  window.addEventListener(PREFERENCE_CHANGED_EVENT, handler);
+  return () => window.removeEventListener(PREFERENCE_CHANGED_EVENT, handler);
+}
+
+// Token amounts with the same locale grouping, trimmed to `maximumFractionDigits`
+export function formatTokenAmount(amount: number, maximumFractionDigits: number = 6, locale?: string): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits }).format(amount);
+}
+
+// Fees can be fractions of a cent; show those as "< $0.01" rather than "$0.00"
+export function formatFee(amount: number, currency: string, locale?: string): string {
+  if (amount > 0 && amount < 0.01) return `< ${formatCurrency(0.01, currency, locale)}`;
+  return formatCurrency(amount, currency, locale);
+}
+
+// Large figures like market caps, e.g. "$1.4B"
+export function formatCompactCurrency(amount: number, currency: string, locale?: string): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+// Price of one unit of a token, with enough significant digits for cheap tokens
+export function formatUnitPrice(amount: number, currency: string, locale?: string): string {
+  if (amount >= 1) return formatCurrency(amount, currency, locale);
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    maximumSignificantDigits: 4,
+  }).format(amount);
+}
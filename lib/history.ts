@@ -0,0 +1,94 @@
+import config from './config';
+import { authHeaders } from './payments/purchase-limits';
+
+// Typed client for the backend's /api/history: fiat purchases from the payment
+// store, plus the swaps and Solend deposits the app reports after signing them.
+
+export type HistoryEntryKind = 'fiat_purchase' | 'swap' | 'solend_deposit';
+
+export type HistoryEntryStatus = 'completed' | 'pending' | 'failed' | 'refunded';
+
+export interface HistoryEntry {
+  // Payment session id, or the transaction signature for swaps and deposits
+  id: string;
+  kind: HistoryEntryKind;
+  timestamp: string;
+  status: HistoryEntryStatus;
+  description: string;
+  provider: string;
+  // Fiat currencies are lowercase codes, tokens are symbols
+  paid: { amount: number; currency: string };
+  received: { amount: number; symbol: string } | null;
+  // `paid.currency` per unit received
+  effectivePrice: number | null;
+  fees: { amount: number; currency: string } | null;
+  explorerLinks: { label: string; url: string }[];
+  refundReason: string | null;
+}
+
+// Only the labels of a reported transaction; the backend reads what it paid and
+// received from the chain
+export type ReportedActivity =
+  | { kind: 'swap'; signature: string; details: { inputToken: string; outputToken: string } }
+  | { kind: 'solend_deposit'; signature: string; details: { tokenSymbol: string; apy?: number } };
+
+const historyUrl = (walletAddress: string) => `${config.apiUrl}/api/history/${encodeURIComponent(walletAddress)}`;
+
+export async function fetchHistory(
+  walletAddress: string,
+  accessToken?: string | null,
+  signal?: AbortSignal
+): Promise<HistoryEntry[]> {
+  const response = await fetch(historyUrl(walletAddress), { headers: authHeaders(accessToken), signal });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `History error: ${response.status}`);
+  }
+  return data.entries as HistoryEntry[];
+}
+
+// Add a transaction the wallet paid for to its history. The backend waits for it
+// to confirm and only records it for the wallet that paid its fee.
+export async function reportActivity(
+  walletAddress: string,
+  activity: ReportedActivity,
+  accessToken?: string | null
+): Promise<void> {
+  const response = await fetch(historyUrl(walletAddress), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(accessToken) },
+    body: JSON.stringify(activity)
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `History error: ${response.status}`);
+  }
+}
+
+export function historyCsvUrl(walletAddress: string): string {
+  return `${historyUrl(walletAddress)}/export.csv`;
+}
+
+export function receiptPdfUrl(walletAddress: string, entryId: string): string {
+  return `${historyUrl(walletAddress)}/${encodeURIComponent(entryId)}/receipt.pdf`;
+}
+
+// The export and receipts need the sign-in header, so they can't be plain
+// links: fetch the file and hand it to the browser as a download.
+export async function downloadHistoryFile(url: string, filename: string, accessToken?: string | null): Promise<void> {
+  const response = await fetch(url, { headers: authHeaders(accessToken) });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `History error: ${response.status}`);
+  }
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
+export function isFiatCurrency(currency: string): boolean {
+  return /^[a-z]{3}$/.test(currency);
+}
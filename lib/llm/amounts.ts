@@ -0,0 +1,121 @@
+import { LLMResponse } from '@/components/chat/types';
+
+// Deterministic reading of amount expressions in buy requests. The model is
+// asked for the same fields, but currency symbols and "half my X" phrasing are
+// easy to get wrong, so the parsed values take precedence when present.
+
+export type AmountExpression =
+  | { kind: 'fiat'; amount: number; currency: string }
+  | { kind: 'relative'; fraction: number; token: string };
+
+const SYMBOL_CURRENCIES: Record<string, string> = {
+  '$': 'usd',
+  '₹': 'inr',
+  '€': 'eur',
+  '£': 'gbp',
+};
+
+const WORD_CURRENCIES: Record<string, string> = {
+  usd: 'usd',
+  dollar: 'usd',
+  dollars: 'usd',
+  bucks: 'usd',
+  inr: 'inr',
+  rs: 'inr',
+  'rs.': 'inr',
+  rupee: 'inr',
+  rupees: 'inr',
+  eur: 'eur',
+  euro: 'eur',
+  euros: 'eur',
+  gbp: 'gbp',
+  pound: 'gbp',
+  pounds: 'gbp',
+};
+
+const FRACTION_WORDS: Record<string, number> = {
+  all: 1,
+  everything: 1,
+  half: 0.5,
+  'a half': 0.5,
+  'a third': 1 / 3,
+  third: 1 / 3,
+  'a quarter': 0.25,
+  quarter: 0.25,
+};
+
+const NUMBER = '(\\d[\\d,]*(?:\\.\\d+)?)\\s*(k)?';
+
+function toNumber(digits: string, thousands?: string): number {
+  const value = parseFloat(digits.replace(/,/g, ''));
+  return thousands ? value * 1000 : value;
+}
+
+export function parseAmountExpression(text: string): AmountExpression | null {
+  // "$20", "₹ 500", "€1,000"
+  const symbolMatch = text.match(new RegExp(`([$₹€£])\\s?${NUMBER}`, 'i'));
+  if (symbolMatch) {
+    return { kind: 'fiat', amount: toNumber(symbolMatch[2], symbolMatch[3]), currency: SYMBOL_CURRENCIES[symbolMatch[1]] };
+  }
+
+  // "rs 500", "INR 500"
+  const prefixMatch = text.match(new RegExp(`\\b(rs\\.?|inr|usd|eur|gbp)\\s?${NUMBER}`, 'i'));
+  if (prefixMatch) {
+    return { kind: 'fiat', amount: toNumber(prefixMatch[2], prefixMatch[3]), currency: WORD_CURRENCIES[prefixMatch[1].toLowerCase()] };
+  }
+
+  // "20 dollars", "500 rupees", "10 usd"
+  const suffixMatch = text.match(new RegExp(`${NUMBER}\\s*(usd|dollars?|bucks|inr|rupees?|rs\\.?|eur|euros?|gbp|pounds?)(?![a-z])`, 'i'));
+  if (suffixMatch) {
+    return { kind: 'fiat', amount: toNumber(suffixMatch[1], suffixMatch[2]), currency: WORD_CURRENCIES[suffixMatch[3].toLowerCase()] };
+  }
+
+  // "half my SOL", "all of my USDC", "25% of my BONK"
+  const relativeMatch = text.match(
+    /\b(all|everything|a half|half|a third|third|a quarter|quarter|(\d{1,3}(?:\.\d+)?)\s?%)\s+(?:of\s+)?my\s+([a-z][a-z0-9]*)/i
+  );
+  if (relativeMatch) {
+    const fraction = relativeMatch[2]
+      ? parseFloat(relativeMatch[2]) / 100
+      : FRACTION_WORDS[relativeMatch[1].toLowerCase()];
+    if (fraction > 0 && fraction <= 1) {
+      return { kind: 'relative', fraction, token: relativeMatch[3].toUpperCase() };
+    }
+  }
+
+  return null;
+}
+
+// Fold a parsed amount expression into a validated buy, swap or sell intent. A
+// fiat amount replaces any token quantity the model guessed from the same number.
+// Swaps and sells spend tokens already held, so only relative amounts apply there.
+export function applyAmountExpression(response: LLMResponse, userMessage: string): LLMResponse {
+  const isBuy = response.intent === 'buy_sol' || response.intent === 'buy_token';
+  const isSpend = response.intent === 'swap' || response.intent === 'sell';
+  if (!isBuy && !isSpend) {
+    return response;
+  }
+
+  const expression = parseAmountExpression(userMessage);
+  if (!expression || (isSpend && expression.kind !== 'relative')) {
+    return response;
+  }
+
+  if (expression.kind === 'fiat') {
+    return {
+      ...response,
+      amount: undefined,
+      dollarAmount: expression.amount,
+      fiatCurrency: expression.currency,
+      relativeAmount: undefined
+    };
+  }
+
+  return {
+    ...response,
+    amount: undefined,
+    dollarAmount: undefined,
+    fiatCurrency: undefined,
+    relativeAmount: { fraction: expression.fraction, token: expression.token }
+  };
+}
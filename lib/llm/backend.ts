@@ -0,0 +1,132 @@
+// Model backends used by the /api/chat route. Everything in this module runs on
+// the server only, so the API keys never reach the browser bundle.
+
+import { readSSE } from './sse';
+
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface ModelBackend {
+  name: string;
+  complete: (messages: ChatCompletionMessage[], options?: CompletionOptions) => Promise<string>;
+  // Yields the completion as content deltas. Backends without it are only
+  // used through complete().
+  stream?: (messages: ChatCompletionMessage[], options?: CompletionOptions) => AsyncIterable<string>;
+}
+
+// Raised when the backend rejects our credentials, so the route can answer with
+// a configuration message instead of a generic connection error.
+export class ModelBackendAuthError extends Error {
+  constructor(message = 'Model backend rejected the API key') {
+    super(message);
+    this.name = 'ModelBackendAuthError';
+  }
+}
+
+export class ModelBackendConfigError extends Error {
+  constructor(message = 'Model backend is not configured') {
+    super(message);
+    this.name = 'ModelBackendConfigError';
+  }
+}
+
+const TOGETHER_API_URL = 'https://api.together.xyz/v1/chat/completions';
+const DEFAULT_MODEL = 'mistralai/Mixtral-8x7B-Instruct-v0.1';
+
+export interface OpenAICompatibleBackendConfig {
+  url: string;
+  apiKey?: string;
+  model: string;
+  name?: string;
+}
+
+// Any endpoint speaking the OpenAI chat-completions protocol works here:
+// Together AI in production, or a local stub server in development and tests.
+export function createOpenAICompatibleBackend(config: OpenAICompatibleBackendConfig): ModelBackend {
+  const request = async (messages: ChatCompletionMessage[], options: CompletionOptions, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        temperature: options.temperature ?? 0.1,
+        max_tokens: options.maxTokens ?? 500,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new ModelBackendAuthError();
+      }
+      throw new Error(`Model backend error: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    name: config.name || 'openai-compatible',
+    async complete(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('Model backend returned no completion content');
+      }
+      return content;
+    },
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+      if (!response.body) {
+        throw new Error('Model backend returned no response body');
+      }
+
+      for await (const { data } of readSSE(response.body)) {
+        if (data === '[DONE]') return;
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
+
+// Resolve the backend from the environment. LLM_API_URL lets us point the route
+// at a local stub server; without it we talk to Together AI.
+export function getModelBackend(env: NodeJS.ProcessEnv = process.env): ModelBackend {
+  const url = env.LLM_API_URL || TOGETHER_API_URL;
+  const apiKey = env.LLM_API_KEY || env.TOGETHER_API_KEY;
+  const model = env.LLM_MODEL || DEFAULT_MODEL;
+
+  if (!env.LLM_API_URL && !apiKey) {
+    return {
+      name: 'unconfigured',
+      async complete() {
+        throw new ModelBackendConfigError('TOGETHER_API_KEY is not set');
+      },
+    };
+  }
+
+  return createOpenAICompatibleBackend({
+    url,
+    apiKey,
+    model,
+    name: env.LLM_API_URL ? 'custom' : 'together',
+  });
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server"
+import { ConversationContext, LLMResponse } from "@/components/chat/types"
+import { ModelBackend, getModelBackend } from "./backend"
+import { conversationContextSchema, trimConversationContext } from "./context"
+import { resolveIntent } from "./intent"
+import { encodeSSE } from "./sse"
+
+// Build the POST handler for /api/chat. The backend is resolved per request so a
+// test harness can swap in a stub backend (or point LLM_API_URL at a stub server).
+export function createChatHandler(getBackend: () => ModelBackend = () => getModelBackend()) {
+  return async function POST(req: Request) {
+    let message: unknown
+    let rawContext: unknown
+    let stream: unknown
+    try {
+      ({ message, context: rawContext, stream } = await req.json())
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+
+    if (typeof message !== "string" || !message.trim()) {
+      return NextResponse.json({ error: "message is required" }, { status: 400 })
+    }
+
+    // A malformed context is dropped rather than failing the request, and the
+    // budget is enforced here too since the client cannot be trusted with it
+    const parsedContext = conversationContextSchema.safeParse(rawContext)
+    const context = parsedContext.success ? trimConversationContext(parsedContext.data) : undefined
+
+    if (stream === true) {
+      return streamIntent(message, getBackend(), context, req.signal)
+    }
+
+    try {
+      const response: LLMResponse = await resolveIntent(message, getBackend(), context)
+      return NextResponse.json(response)
+    } catch (error) {
+      console.error("Chat API Error:", error)
+      return NextResponse.json(
+        { error: "Failed to process chat request" },
+        { status: 500 }
+      )
+    }
+  }
+}
+
+// Server-sent events: "delta" frames carry the reply text as it is generated and
+// a final "intent" frame carries the validated LLMResponse. Aborting the request
+// aborts the upstream completion too.
+function streamIntent(
+  message: string,
+  backend: ModelBackend,
+  context: ConversationContext | undefined,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeSSE(event, data)))
+      }
+
+      try {
+        const response = await resolveIntent(message, backend, context, {
+          onMessageDelta: text => send("delta", { text }),
+          signal
+        })
+        send("intent", response)
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error("Chat API Error:", error)
+          send("error", { error: "Failed to process chat request" })
+        }
+      }
+
+      if (!closed) {
+        closed = true
+        controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  })
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import {
+  ConversationContext,
+  ConversationSlots,
+  ConversationTurn,
+  LLMResponse,
+  Message
+} from '@/components/chat/types';
+import { messageText } from '@/components/chat/messages';
+import { ChatCompletionMessage } from './backend';
+
+// Rough budget for the history we send along with each request. The estimate is
+// ~4 characters per token, which is close enough for Mixtral-style tokenizers.
+export const CONTEXT_TOKEN_BUDGET = 1200;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function slotsSummary(slots: ConversationSlots): string | null {
+  const parts: string[] = [];
+  if (slots.lastIntent) parts.push(`last intent: ${slots.lastIntent}`);
+  if (slots.lastToken) parts.push(`last token: ${slots.lastToken}`);
+  if (slots.lastAmount !== undefined) parts.push(`last amount: ${slots.lastAmount}`);
+  if (slots.pendingIntent && slots.missingSlots?.length) {
+    parts.push(`waiting for ${slots.missingSlots.join(' and ')} to complete ${slots.pendingIntent}`);
+  }
+  return parts.length ? `Conversation state (${parts.join(', ')}).` : null;
+}
+
+// Drop the oldest turns until the context fits the budget. Slots are always
+// kept since they are what follow-ups resolve against.
+export function trimConversationContext(
+  context: ConversationContext,
+  budget: number = CONTEXT_TOKEN_BUDGET
+): ConversationContext {
+  let remaining = budget - estimateTokens(slotsSummary(context.slots) || '');
+  const kept: ConversationTurn[] = [];
+
+  for (let i = context.turns.length - 1; i >= 0 && remaining > 0; i--) {
+    const cost = estimateTokens(context.turns[i].content);
+    if (cost > remaining) break;
+    kept.unshift(context.turns[i]);
+    remaining -= cost;
+  }
+
+  return { turns: kept, slots: context.slots };
+}
+
+export function buildConversationContext(
+  messages: Message[],
+  slots: ConversationSlots,
+  budget: number = CONTEXT_TOKEN_BUDGET
+): ConversationContext {
+  const turns: ConversationTurn[] = messages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => ({
+      role: message.role as ConversationTurn['role'],
+      content: messageText(message).replace(/\s+/g, ' ').trim()
+    }))
+    .filter(turn => turn.content.length > 0);
+
+  return trimConversationContext({ turns, slots }, budget);
+}
+
+// Carry the resolved intent forward so the next turn can refer back to it
+export function updateConversationSlots(slots: ConversationSlots, response: LLMResponse): ConversationSlots {
+  if (response.intent === 'out_of_scope') {
+    return slots;
+  }
+
+  return {
+    lastIntent: response.intent,
+    lastToken: response.token || (response.intent === 'buy_sol' ? 'SOL' : slots.lastToken),
+    lastAmount: response.amount ?? slots.lastAmount,
+    tokenChoices: slots.tokenChoices
+  };
+}
+
+export const conversationContextSchema: z.ZodType<ConversationContext, z.ZodTypeDef, unknown> = z.object({
+  turns: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string()
+  })),
+  slots: z.object({
+    lastIntent: z.enum(["buy_sol", "buy_token", "swap", "sell", "explore_yield", "view_portfolio", "analyze_token", "token_info", "set_alert", "out_of_scope"]).optional(),
+    lastToken: z.string().optional(),
+    lastAmount: z.number().optional(),
+    pendingIntent: z.enum(["buy_sol", "buy_token", "swap", "sell", "explore_yield", "view_portfolio", "analyze_token", "token_info", "set_alert", "out_of_scope"]).optional(),
+    missingSlots: z.array(z.string()).optional()
+  })
+});
+
+// Render the context as chat messages placed between the system prompt and the
+// new user message
+export function contextToPromptMessages(context: ConversationContext): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = [];
+  const summary = slotsSummary(context.slots);
+  if (summary) {
+    messages.push({ role: 'system', content: summary });
+  }
+  for (const turn of context.turns) {
+    messages.push({ role: turn.role, content: turn.content });
+  }
+  return messages;
+}
@@ -0,0 +1,37 @@
+// Structured record of every intent-resolution failure. Each failure is logged
+// as a single JSON line and counted by reason so we can watch the rates.
+
+export type IntentFailureReason =
+  | 'backend_unconfigured'
+  | 'backend_error'
+  | 'invalid_json'
+  | 'schema_violation'
+  | 'repairs_exhausted';
+
+export interface IntentFailure {
+  reason: IntentFailureReason;
+  backend: string;
+  attempt: number;
+  detail?: string;
+}
+
+const failureCounts = new Map<IntentFailureReason, number>();
+
+export function recordIntentFailure(failure: IntentFailure): void {
+  failureCounts.set(failure.reason, (failureCounts.get(failure.reason) || 0) + 1);
+  console.warn('[intent-failure]', JSON.stringify({ ...failure, timestamp: new Date().toISOString() }));
+}
+
+export function getIntentFailureCounts(): Record<IntentFailureReason, number> {
+  return {
+    backend_unconfigured: failureCounts.get('backend_unconfigured') || 0,
+    backend_error: failureCounts.get('backend_error') || 0,
+    invalid_json: failureCounts.get('invalid_json') || 0,
+    schema_violation: failureCounts.get('schema_violation') || 0,
+    repairs_exhausted: failureCounts.get('repairs_exhausted') || 0,
+  };
+}
+
+export function resetIntentFailureCounts(): void {
+  failureCounts.clear();
+}
@@ -0,0 +1,168 @@
+import { ConversationContext, LLMResponse } from '@/components/chat/types';
+import { extractTokenSymbolFromYieldQuery } from '@/components/chat/utils';
+import { ChatCompletionMessage, ModelBackend, ModelBackendAuthError, ModelBackendConfigError } from './backend';
+import { applyAmountExpression } from './amounts';
+import { contextToPromptMessages } from './context';
+import { recordIntentFailure } from './failures';
+import { SYSTEM_PROMPT } from './prompt';
+import { validateLLMOutput } from './schema';
+
+// How many times we re-prompt the model with its validation error before giving up
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const YIELD_KEYWORDS = ['lending', 'lend', 'yield', 'earn', 'deposit', 'stake', 'interest'];
+
+const FALLBACK_RESPONSE: LLMResponse = {
+  intent: "out_of_scope",
+  message: "Sorry, I didn't quite get that. You can ask me to buy SOL, buy a token, or explore lending options."
+};
+
+function isYieldQuery(text: string): boolean {
+  const lower = text.toLowerCase();
+  return YIELD_KEYWORDS.some(keyword => lower.includes(keyword));
+}
+
+function yieldResponse(userMessage: string): LLMResponse {
+  const tokenSymbol = extractTokenSymbolFromYieldQuery(userMessage);
+  return {
+    intent: "explore_yield",
+    token: tokenSymbol || undefined,
+    message: tokenSymbol
+      ? `Looking up yield options for ${tokenSymbol}...`
+      : "Which token would you like to explore lending options for?"
+  };
+}
+
+// The model streams the whole JSON reply, but only its "message" field is meant
+// for the user. Decode as much of that string as has arrived so far.
+function extractPartialMessage(partialJson: string): string {
+  const start = partialJson.match(/"message"\s*:\s*"/);
+  if (!start || start.index === undefined) return '';
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '', '"': '"', '\\': '\\', '/': '/' };
+  let text = '';
+  for (let i = start.index + start[0].length; i < partialJson.length; i++) {
+    const char = partialJson[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+    // Wait for the rest of an escape sequence before decoding it
+    const next = partialJson[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = partialJson.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+  return text;
+}
+
+function repairPrompt(error: string): string {
+  return `Your previous reply could not be used: ${error}. ` +
+    'Reply again with only the JSON object described in the instructions, with no other text.';
+}
+
+export interface ResolveIntentOptions {
+  // Receives the user-facing message text as the first completion streams in
+  onMessageDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// Stream the completion when the caller wants deltas and the backend can
+// stream, forwarding each new piece of the "message" field as it arrives
+async function streamCompletion(
+  messages: ChatCompletionMessage[],
+  backend: ModelBackend,
+  options: ResolveIntentOptions
+): Promise<string> {
+  if (!options.onMessageDelta || !backend.stream) {
+    return backend.complete(messages, { signal: options.signal });
+  }
+
+  let content = '';
+  let emitted = 0;
+  for await (const delta of backend.stream(messages, { signal: options.signal })) {
+    content += delta;
+    const message = extractPartialMessage(content);
+    if (message.length > emitted) {
+      options.onMessageDelta(message.slice(emitted));
+      emitted = message.length;
+    }
+  }
+  return content;
+}
+
+// Resolve a user message into a structured intent using the given model backend.
+// Invalid model output is repaired by re-prompting with the validation error;
+// only when the repairs run out do we fall back to a safe out_of_scope reply.
+// Earlier turns in `context` let follow-ups resolve against what came before.
+// Only the first attempt streams; repairs are never shown to the user.
+export async function resolveIntent(
+  userMessage: string,
+  backend: ModelBackend,
+  context?: ConversationContext,
+  options: ResolveIntentOptions = {}
+): Promise<LLMResponse> {
+  // Check for known yield/lending patterns without LLM call to avoid any misclassification
+  if (isYieldQuery(userMessage)) {
+    return yieldResponse(userMessage);
+  }
+
+  const messages: ChatCompletionMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    ...(context ? contextToPromptMessages(context) : []),
+    { role: 'user', content: userMessage }
+  ];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let content: string;
+    try {
+      content = attempt === 0
+        ? await streamCompletion(messages, backend, options)
+        : await backend.complete(messages, { signal: options.signal });
+    } catch (error) {
+      // The caller went away; there is nobody to answer
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      if (error instanceof ModelBackendConfigError || error instanceof ModelBackendAuthError) {
+        recordIntentFailure({ reason: 'backend_unconfigured', backend: backend.name, attempt, detail: error.message });
+        return {
+          intent: "out_of_scope",
+          message: "The AI service is not properly configured. Please check your environment settings."
+        };
+      }
+      recordIntentFailure({
+        reason: 'backend_error',
+        backend: backend.name,
+        attempt,
+        detail: error instanceof Error ? error.message : String(error)
+      });
+      return {
+        intent: "out_of_scope",
+        message: "I'm having trouble connecting to the AI service. Please try again later."
+      };
+    }
+
+    const result = validateLLMOutput(content);
+    if (result.success) {
+      return applyAmountExpression(result.data, userMessage);
+    }
+
+    recordIntentFailure({ reason: result.reason, backend: backend.name, attempt, detail: result.error });
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: repairPrompt(result.error) }
+    );
+  }
+
+  recordIntentFailure({ reason: 'repairs_exhausted', backend: backend.name, attempt: MAX_REPAIR_ATTEMPTS });
+  return FALLBACK_RESPONSE;
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { LLMResponse } from '@/components/chat/types';
+
+// Models often emit `null` for fields that do not apply; treat it as absent.
+const optionalString = z.string().trim().min(1).nullish().transform(value => value ?? undefined);
+const optionalPositive = z.number().positive().nullish().transform(value => value ?? undefined);
+
+export const llmResponseSchema: z.ZodType<LLMResponse, z.ZodTypeDef, unknown> = z.object({
+  intent: z.enum(["buy_sol", "buy_token", "swap", "sell", "explore_yield", "view_portfolio", "analyze_token", "token_info", "set_alert", "out_of_scope"]),
+  amount: z.number().positive().nullable().optional(),
+  currency: optionalString,
+  token: optionalString.transform(value => value?.toUpperCase()),
+  outputToken: optionalString.transform(value => value?.toUpperCase()),
+  message: z.string().trim().min(1),
+  dollarAmount: optionalPositive,
+  fiatCurrency: optionalString.transform(value => value?.toLowerCase()),
+  solAmount: optionalPositive,
+  relativeAmount: z.object({
+    fraction: z.number().positive().max(1),
+    token: z.string().trim().min(1).transform(value => value.toUpperCase()),
+  }).nullish().transform(value => value ?? undefined),
+  alertPrice: optionalPositive,
+  alertDirection: z.enum(["above", "below"]).nullish().transform(value => value ?? undefined),
+});
+
+export type ValidationResult =
+  | { success: true; data: LLMResponse }
+  | { success: false; reason: 'invalid_json' | 'schema_violation'; error: string };
+
+// Pull the JSON object out of a completion. Models sometimes wrap it in a
+// markdown fence or add a sentence before it, which is recoverable.
+function extractJsonObject(content: string): string | null {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1].trim() : trimmed;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  return candidate.slice(start, end + 1);
+}
+
+function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+export function validateLLMOutput(content: string): ValidationResult {
+  const json = extractJsonObject(content);
+  if (!json) {
+    return { success: false, reason: 'invalid_json', error: 'No JSON object found in the reply' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      reason: 'invalid_json',
+      error: error instanceof Error ? error.message : 'Reply is not valid JSON'
+    };
+  }
+
+  const result = llmResponseSchema.safeParse(parsed);
+  if (!result.success) {
+    return { success: false, reason: 'schema_violation', error: formatZodError(result.error) };
+  }
+  return { success: true, data: result.data };
+}
@@ -0,0 +1,51 @@
+// Minimal server-sent events framing. The model backend reads the upstream
+// completion stream with it and the chat client reads /api/chat with it.
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseBlock(block: string): SSEEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+  return data.length ? { event, data: data.join('\n') } : null;
+}
+
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const parsed = parseBlock(block);
+        if (parsed) yield parsed;
+      }
+    }
+
+    const parsed = parseBlock(buffer + decoder.decode());
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
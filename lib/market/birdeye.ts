@@ -0,0 +1,44 @@
+import { MarketDataProvider } from './types';
+
+const CANDLE_INTERVAL = '1H';
+const CANDLE_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Birdeye's token overview and OHLCV endpoints, through BirdeyeService. The
+// price falls back to BirdeyeService's Jupiter quote when the overview has none.
+export const birdeyeProvider: MarketDataProvider = {
+  id: 'birdeye',
+  name: 'Birdeye',
+  tokenInfo: async token => {
+    const birdeyeService = (await import('@/src/services/BirdeyeService')).default;
+    const to = Math.floor(Date.now() / 1000);
+    const [overviewResult, ohlcResult] = await Promise.all([
+      birdeyeService.getTokenOverview(token.address),
+      birdeyeService.getTokenOhlc(token.address, CANDLE_INTERVAL, to - CANDLE_WINDOW_SECONDS, to)
+    ]);
+
+    const overview = overviewResult.overview;
+    let price = overview?.price ?? null;
+    if (price === null) {
+      const priceResult = await birdeyeService.getTokenPrice(token.address);
+      price = priceResult.success ? priceResult.price : null;
+    }
+    if (price === null && !ohlcResult.candles.length) {
+      throw new Error(overviewResult.error || `No market data for ${token.symbol}`);
+    }
+
+    return {
+      mint: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      logoURI: token.logoURI,
+      price,
+      priceChange24h: overview?.priceChange24h ?? null,
+      marketCap: overview?.marketCap ?? null,
+      liquidity: overview?.liquidity ?? null,
+      holders: overview?.holders ?? null,
+      candles: ohlcResult.candles,
+      source: 'Birdeye',
+      fetchedAt: Date.now()
+    };
+  }
+};
@@ -0,0 +1,51 @@
+import fixtures from './fixtures/token-markets.json';
+import { MarketDataProvider } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface MarketFixture {
+  price: number;
+  priceChange24h: number;
+  marketCap: number;
+  liquidity: number;
+  holders: number;
+  // Hourly [open, high, low, close], oldest first, ending in the current hour
+  candles: number[][];
+}
+
+const MARKETS: Record<string, MarketFixture> = fixtures.markets;
+
+// Canned markets from fixtures/token-markets.json, keyed by symbol. Candles are
+// dated back from now so the chart always looks current.
+export const fixtureProvider: MarketDataProvider = {
+  id: 'fixture',
+  name: 'Fixture',
+  tokenInfo: async token => {
+    const market = MARKETS[token.symbol.toUpperCase()];
+    if (!market) {
+      throw new Error(`No fixture market data for ${token.symbol}`);
+    }
+
+    const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+    return {
+      mint: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      logoURI: token.logoURI,
+      price: market.price,
+      priceChange24h: market.priceChange24h,
+      marketCap: market.marketCap,
+      liquidity: market.liquidity,
+      holders: market.holders,
+      candles: market.candles.map(([open, high, low, close], index) => ({
+        time: currentHour - (market.candles.length - 1 - index) * HOUR_MS,
+        open,
+        high,
+        low,
+        close
+      })),
+      source: 'Fixture',
+      fetchedAt: Date.now()
+    };
+  }
+};
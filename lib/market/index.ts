@@ -0,0 +1,18 @@
+import { MarketDataProvider, MarketDataProviderId } from './types';
+import { birdeyeProvider } from './birdeye';
+import { fixtureProvider } from './fixture';
+
+export * from './types';
+
+const PROVIDERS: Record<MarketDataProviderId, MarketDataProvider> = {
+  birdeye: birdeyeProvider,
+  fixture: fixtureProvider,
+};
+
+export function getMarketDataProvider(
+  id: string = process.env.NEXT_PUBLIC_MARKET_DATA_PROVIDER || 'birdeye'
+): MarketDataProvider {
+  const provider = PROVIDERS[id as MarketDataProviderId];
+  if (!provider) throw new Error(`Unknown market data provider: ${id}`);
+  return provider;
+}
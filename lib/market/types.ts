@@ -0,0 +1,40 @@
+import { TokenInfo } from '../tokens/registry';
+
+// Market data for the token info card: a snapshot of the token's market and
+// its recent price candles. Providers are picked by NEXT_PUBLIC_MARKET_DATA_PROVIDER;
+// "fixture" serves canned data for tests and local development.
+
+export type MarketDataProviderId = 'birdeye' | 'fixture';
+
+export interface OhlcCandle {
+  // Candle open time, unix milliseconds
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// USD figures; any of them is null when the provider doesn't know it
+export interface TokenMarketInfo {
+  mint: string;
+  symbol: string;
+  name: string;
+  logoURI?: string;
+  price: number | null;
+  // Percent, e.g. -3.2 for a 3.2% drop
+  priceChange24h: number | null;
+  marketCap: number | null;
+  liquidity: number | null;
+  holders: number | null;
+  // Hourly over the last day, oldest first
+  candles: OhlcCandle[];
+  source: string;
+  fetchedAt: number;
+}
+
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  name: string;
+  tokenInfo: (token: TokenInfo) => Promise<TokenMarketInfo>;
+}
@@ -0,0 +1,117 @@
+import config from '../config';
+import { OnrampQuote } from '@/components/chat/types';
+import { fetchPaymentStatus } from '../payments/payment-status';
+import { PurchaseLimitError, authHeaders } from '../payments/purchase-limits';
+import { BelowMinimumError, OnrampCheckout, OnrampProvider, OnrampProviderId, OnrampQuoteRequest, QuoteExpiredError, RampWidgetConfig } from './types';
+
+// Shared plumbing for the backend's /api/onramp routes
+
+export async function postOnramp<T>(path: string, body: unknown, accessToken?: string | null): Promise<T> {
+  const response = await fetch(`${config.apiUrl}/api/onramp${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(accessToken) },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+
+  if (data.code === 'quote_expired') throw new QuoteExpiredError();
+  if (data.code === 'below_minimum') throw new BelowMinimumError(data.error, data.minimum, data.currency);
+  if (data.code === 'limit_exceeded') throw new PurchaseLimitError(data.error, data.reason, data.allowance);
+  if (!response.ok || data.error) throw new Error(data.error || `Onramp error: ${response.status}`);
+  return data as T;
+}
+
+function quoteBody(request: OnrampQuoteRequest) {
+  return {
+    walletAddress: request.walletAddress,
+    tokenSymbol: request.tokenSymbol,
+    tokenAddress: request.tokenAddress,
+    dollarAmount: request.dollarAmount,
+    tokenAmount: request.tokenAmount,
+    currency: request.fiatCurrency || 'usd'
+  };
+}
+
+// A quote as backend/onramp issues it
+interface IssuedQuote {
+  quoteId: string;
+  provider: OnrampProviderId;
+  providerName: string;
+  fiatAmount: number;
+  fiatCurrency: string;
+  tokenSymbol: string;
+  tokenAmount: number;
+  minTokenAmount?: number;
+  pricePerToken: number;
+  marketPricePerToken?: number;
+  fees: { provider: number; network: number; priority?: number; route?: number; spread?: number; total: number };
+  slippageBps?: number;
+  estimatedProcessingTime: string;
+  expiresAt: string;
+}
+
+// Checkouts may carry provider-specific fields, like Ramp's widget config
+export type BackendCheckout = OnrampCheckout & { widget?: RampWidgetConfig };
+
+// In the shape the quote widgets show
+export function toOnrampQuote(data: IssuedQuote): OnrampQuote {
+  return {
+    provider: data.providerName,
+    providerId: data.provider,
+    inputAmount: data.fiatAmount,
+    inputCurrency: data.fiatCurrency.toUpperCase(),
+    outputAmount: data.tokenAmount,
+    outputCurrency: data.tokenSymbol,
+    fees: {
+      provider: data.fees.provider,
+      network: data.fees.network,
+      priority: data.fees.priority,
+      route: data.fees.route,
+      spread: data.fees.spread,
+      total: data.fees.total
+    },
+    estimatedProcessingTime: data.estimatedProcessingTime,
+    exchangeRate: data.tokenAmount / data.fiatAmount,
+    network: 'mainnet',
+    effectivePrice: data.pricePerToken,
+    marketPrice: data.marketPricePerToken,
+    quoteId: data.quoteId,
+    expiresAt: data.expiresAt,
+    slippageBps: data.slippageBps,
+    minOutputAmount: data.minTokenAmount
+  };
+}
+
+export interface OnrampQuoteComparison {
+  // Most tokens first
+  quotes: OnrampQuote[];
+  unavailable: { provider: OnrampProviderId; providerName: string; error: { error: string } }[];
+}
+
+// Quote the same purchase with every provider the backend has enabled
+export async function compareOnrampQuotes(request: OnrampQuoteRequest): Promise<OnrampQuoteComparison> {
+  const data = await postOnramp<{ quotes: IssuedQuote[]; unavailable: OnrampQuoteComparison['unavailable'] }>('/quotes', quoteBody(request));
+  return { quotes: data.quotes.map(toOnrampQuote), unavailable: data.unavailable };
+}
+
+// A provider whose quotes and checkouts go through the backend; `open` shows
+// the provider's payment page once the checkout exists
+export function backendProvider(
+  id: OnrampProviderId,
+  name: string,
+  open: (checkout: BackendCheckout) => Promise<void> | void
+): OnrampProvider {
+  return {
+    id,
+    name,
+    async quote(request) {
+      return toOnrampQuote(await postOnramp<IssuedQuote>(`/${id}/quote`, quoteBody(request)));
+    },
+    async checkout(quote, { walletAddress, accessToken }) {
+      const checkout = await postOnramp<BackendCheckout>(`/${id}/checkout`, { quoteId: quote.quoteId, walletAddress }, accessToken);
+      await open(checkout);
+      return checkout;
+    },
+    status: fetchPaymentStatus
+  };
+}
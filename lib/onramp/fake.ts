@@ -0,0 +1,4 @@
+import { backendProvider } from './client';
+
+// The backend's test provider settles on its own, so there is nothing to open
+export const fakeProvider = backendProvider('fake', 'Test Provider', () => {});
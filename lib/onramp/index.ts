@@ -0,0 +1,21 @@
+import { OnrampProvider, OnrampProviderId } from './types';
+import { stripeProvider } from './stripe';
+import { rampProvider } from './ramp';
+import { fakeProvider } from './fake';
+
+export * from './types';
+export { compareOnrampQuotes } from './client';
+export type { OnrampQuoteComparison } from './client';
+
+const PROVIDERS: Record<OnrampProviderId, OnrampProvider> = {
+  stripe: stripeProvider,
+  ramp: rampProvider,
+  fake: fakeProvider,
+};
+
+// Quotes from before providers were pluggable are Stripe's
+export function getOnrampProvider(id: string = 'stripe'): OnrampProvider {
+  const provider = PROVIDERS[id as OnrampProviderId];
+  if (!provider) throw new Error(`Unknown onramp provider: ${id}`);
+  return provider;
+}
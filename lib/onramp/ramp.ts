@@ -0,0 +1,8 @@
+import { backendProvider } from './client';
+
+// Ramp Network sells in its own widget and sends the tokens itself. The backend
+// hands back the widget config, including the webhook Ramp reports the purchase to.
+export const rampProvider = backendProvider('ramp', 'Ramp Network', async checkout => {
+  const { RampInstantSDK } = await import('@ramp-network/ramp-instant-sdk');
+  new RampInstantSDK({ ...checkout.widget, variant: 'auto' }).show();
+});
@@ -0,0 +1,7 @@
+import { backendProvider } from './client';
+
+// Stripe Checkout opens in a new tab; our backend delivers the tokens once
+// Stripe's webhook confirms the payment
+export const stripeProvider = backendProvider('stripe', 'Stripe', checkout => {
+  if (checkout.url) window.open(checkout.url, '_blank');
+});
@@ -0,0 +1,78 @@
+import { OnrampQuote } from '@/components/chat/types';
+import { PaymentSessionStatus } from '../payments/payment-status';
+
+// The browser half of an onramp provider. Each one is backed by a provider in
+// backend/onramp, which also handles its webhooks; here a provider quotes,
+// opens its checkout and reports the status of the payment session.
+
+export type OnrampProviderId = 'stripe' | 'ramp' | 'fake';
+
+export interface OnrampQuoteRequest {
+  walletAddress: string;
+  tokenSymbol: string;
+  tokenAddress: string;
+  dollarAmount?: number;
+  fiatCurrency?: string;
+  tokenAmount?: number;
+}
+
+// Who is paying; the access token lets the backend apply verified-email limits
+export interface OnrampBuyer {
+  walletAddress: string;
+  accessToken?: string | null;
+}
+
+export interface OnrampCheckout {
+  provider: OnrampProviderId;
+  sessionId: string;
+  fiatAmount: number;
+  fiatCurrency: string;
+  isTokenSwap: boolean;
+  tokenSymbol: string | null;
+  tokenAmount: number | null;
+  solAmount?: number;
+  url?: string | null;
+}
+
+// What backend/onramp/ramp.js hands the browser to open Ramp's widget with
+export interface RampWidgetConfig {
+  hostAppName: string;
+  hostLogoUrl: string;
+  hostApiKey: string;
+  swapAsset: string;
+  fiatValue: string;
+  fiatCurrency: string;
+  userAddress: string;
+  userEmailAddress?: string;
+  webhookStatusUrl: string;
+}
+
+export interface OnrampProvider {
+  id: OnrampProviderId;
+  name: string;
+  quote: (request: OnrampQuoteRequest) => Promise<OnrampQuote>;
+  // Opens the provider's payment page or widget for a quote
+  checkout: (quote: OnrampQuote, buyer: OnrampBuyer) => Promise<OnrampCheckout>;
+  status: (sessionId: string, signal?: AbortSignal, accessToken?: string | null) => Promise<PaymentSessionStatus>;
+}
+
+// Checkout was attempted with a quote the backend no longer honours
+export class QuoteExpiredError extends Error {
+  constructor() {
+    super('This quote has expired');
+    this.name = 'QuoteExpiredError';
+  }
+}
+
+// The amount is under the minimum Stripe charges in that currency
+export class BelowMinimumError extends Error {
+  minimum: number;
+  currency: string;
+
+  constructor(message: string, minimum: number, currency: string) {
+    super(message);
+    this.name = 'BelowMinimumError';
+    this.minimum = minimum;
+    this.currency = currency;
+  }
+}
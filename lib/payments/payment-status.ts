@@ -0,0 +1,144 @@
+import config from '../config';
+import { authHeaders } from './purchase-limits';
+
+// Typed client for the backend's /api/payment-status/:sessionId. Statuses follow
+// the transition table in backend/payment-store.js. The backend only answers the
+// Privy user the session's wallet is linked to, so each call takes their access token.
+
+export type PaymentStatus =
+  | 'created'
+  | 'payment_completed'
+  | 'sol_transferred'
+  | 'sol_received'
+  | 'token_swap_completed'
+  | 'refunded'
+  | 'error';
+
+export interface PaymentSessionStatus {
+  id: string;
+  status: PaymentStatus;
+  walletAddress: string;
+  message: string;
+  // Charged amount in the smallest unit of `currency`, for stored sessions
+  amount?: number;
+  currency?: string;
+  timestamp?: string;
+  solAmount?: number | string;
+  isTokenSwap?: boolean;
+  tokenSymbol?: string | null;
+  tokenAmount?: number | string | null;
+  explorerLink?: string | null;
+  error?: string;
+  // Failed deliveries so far; the payment is refunded after maxDeliveryAttempts
+  deliveryAttempts?: number;
+  maxDeliveryAttempts?: number;
+  deliveryInProgress?: boolean;
+}
+
+const TERMINAL_STATUSES: PaymentStatus[] = ['sol_transferred', 'token_swap_completed', 'refunded', 'error'];
+
+const POLL_INTERVAL_MS = 3000;
+// Stripe checkout pages stay open a long time; stop watching after this
+const POLL_TIMEOUT_MS = 30 * 60 * 1000;
+
+export function isTerminalPaymentStatus(status: PaymentStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export async function fetchPaymentStatus(sessionId: string, signal?: AbortSignal, accessToken?: string | null): Promise<PaymentSessionStatus> {
+  const response = await fetch(`${config.apiUrl}/api/payment-status/${encodeURIComponent(sessionId)}`, {
+    signal,
+    headers: authHeaders(accessToken)
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Payment status error: ${response.status}`);
+  }
+  return data as PaymentSessionStatus;
+}
+
+// A paid purchase that hasn't reached the wallet yet
+export interface UndeliveredPayment extends PaymentSessionStatus {
+  amount: number;
+  currency: string;
+  timestamp: string;
+}
+
+export async function fetchUndeliveredPayments(walletAddress: string, accessToken?: string | null): Promise<UndeliveredPayment[]> {
+  const response = await fetch(`${config.apiUrl}/api/recovery/${encodeURIComponent(walletAddress)}`, {
+    headers: authHeaders(accessToken)
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Recovery error: ${response.status}`);
+  }
+  return data.payments as UndeliveredPayment[];
+}
+
+export interface FulfilmentResult extends UndeliveredPayment {
+  // The purchase had already been delivered before this request
+  alreadyFulfilled: boolean;
+}
+
+// Ask the backend to retry delivery. It reconciles its ledger against the chain
+// first, so this never sends a purchase twice, and refunds a session that is out
+// of delivery attempts instead.
+export async function requestFulfilment(sessionId: string, signal?: AbortSignal, accessToken?: string | null): Promise<FulfilmentResult> {
+  const response = await fetch(`${config.apiUrl}/api/payment-status/${encodeURIComponent(sessionId)}/fulfil`, {
+    method: 'POST',
+    signal,
+    headers: authHeaders(accessToken)
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Fulfilment error: ${response.status}`);
+  }
+  return data as FulfilmentResult;
+}
+
+export interface PollPaymentStatusOptions {
+  // Called whenever the status changes
+  onStatus?: (status: PaymentSessionStatus) => void;
+  // Asked before every poll, since a checkout can outlive an access token
+  getAccessToken?: () => Promise<string | null>;
+  signal?: AbortSignal;
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Polls until the session reaches a terminal status. Resolves to the last status
+// seen, or null if nothing was ever fetched. Transient fetch errors are retried.
+export async function pollPaymentStatus(
+  sessionId: string,
+  { onStatus, getAccessToken, signal, intervalMs = POLL_INTERVAL_MS, timeoutMs = POLL_TIMEOUT_MS }: PollPaymentStatusOptions = {}
+): Promise<PaymentSessionStatus | null> {
+  const deadline = Date.now() + timeoutMs;
+  let last: PaymentSessionStatus | null = null;
+
+  while (!signal?.aborted && Date.now() < deadline) {
+    try {
+      const current = await fetchPaymentStatus(sessionId, signal, await getAccessToken?.());
+      if (!last || last.status !== current.status) {
+        onStatus?.(current);
+      }
+      last = current;
+      if (isTerminalPaymentStatus(current.status)) break;
+    } catch (error) {
+      if (signal?.aborted) break;
+      console.error('Error polling payment status:', error);
+    }
+    await wait(intervalMs, signal);
+  }
+
+  return last;
+}
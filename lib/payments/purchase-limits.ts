@@ -0,0 +1,92 @@
+import config from '../config';
+import { formatCurrency } from '../currency';
+
+// Typed client for the backend's purchase limits (backend/purchase-limits.js).
+// Amounts are in `currency`; verifying an email through Privy moves a buyer to
+// the higher tier.
+
+export type PurchaseTier = 'unverified' | 'email_verified';
+
+export type LimitReason = 'daily' | 'monthly' | 'velocity';
+
+export interface PurchaseAllowance {
+  tier: PurchaseTier;
+  currency: string;
+  dailyLimit: number;
+  monthlyLimit: number;
+  remainingToday: number;
+  remainingThisMonth: number;
+  // The tighter of the two above
+  remaining: number;
+  checkoutsInWindow: number;
+  maxCheckouts: number;
+  // Set while too many checkouts were opened recently
+  velocityResetAt: string | null;
+  // Daily limit an unverified buyer would get by verifying an email
+  verifiedDailyLimit: number | null;
+}
+
+// The backend refused a checkout because it would break a purchase limit
+export class PurchaseLimitError extends Error {
+  reason: LimitReason;
+  allowance: PurchaseAllowance;
+
+  constructor(message: string, reason: LimitReason, allowance: PurchaseAllowance) {
+    super(message);
+    this.name = 'PurchaseLimitError';
+    this.reason = reason;
+    this.allowance = allowance;
+  }
+}
+
+export function authHeaders(accessToken?: string | null): Record<string, string> {
+  return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+}
+
+export async function fetchPurchaseAllowance(
+  walletAddress: string,
+  currency: string = 'usd',
+  accessToken?: string | null
+): Promise<PurchaseAllowance> {
+  const response = await fetch(
+    `${config.apiUrl}/api/purchase-limits/${encodeURIComponent(walletAddress)}?currency=${encodeURIComponent(currency)}`,
+    { headers: authHeaders(accessToken) }
+  );
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Purchase limits error: ${response.status}`);
+  }
+  return data as PurchaseAllowance;
+}
+
+// "You can spend $40.00 more today." plus what verifying an email would unlock
+export function describeAllowance(allowance: PurchaseAllowance): string {
+  const remaining = formatCurrency(allowance.remaining, allowance.currency);
+  const period = allowance.remaining === allowance.remainingToday ? 'today' : 'this month';
+  const upgrade = allowance.verifiedDailyLimit !== null
+    ? ` Verify your email in Settings to raise your daily limit to ${formatCurrency(allowance.verifiedDailyLimit, allowance.currency)}.`
+    : '';
+  return `You can spend ${remaining} more ${period}.${upgrade}`;
+}
+
+// The limit a purchase of `amount` would break, checked in the backend's order
+export function exceededLimit(allowance: PurchaseAllowance, amount: number): LimitReason | null {
+  if (allowance.checkoutsInWindow >= allowance.maxCheckouts) return 'velocity';
+  if (amount > allowance.remainingThisMonth) return 'monthly';
+  if (amount > allowance.remainingToday) return 'daily';
+  return null;
+}
+
+// Why a purchase was refused, and what the buyer can still do
+export function describeLimitRefusal(reason: LimitReason, allowance: PurchaseAllowance): string {
+  if (reason === 'velocity') {
+    const retryAt = allowance.velocityResetAt
+      ? ` after ${new Date(allowance.velocityResetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : ' in a few minutes';
+    return `You've started ${allowance.checkoutsInWindow} purchases in a short time, which is our limit. Please try again${retryAt}.`;
+  }
+
+  const limit = reason === 'daily' ? allowance.dailyLimit : allowance.monthlyLimit;
+  const period = reason === 'daily' ? 'daily' : '30-day';
+  return `This purchase would go over your ${period} limit of ${formatCurrency(limit, allowance.currency)}. ${describeAllowance(allowance)}`;
+}
@@ -0,0 +1,188 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import curatedTokens from './curated.json';
+
+// The one place token metadata comes from. Our curated list (curated.json) is
+// always available; Jupiter's token list is loaded on first use and adds every
+// other token it knows. A symbol can belong to several mints, so lookups return
+// every candidate ranked best first and say when the top ones tie. Decimals used
+// to build transactions are read from the mint account rather than trusted from
+// either list.
+
+const JUPITER_TOKEN_LIST_URL = 'https://token.jup.ag/all';
+
+export interface TokenInfo {
+  symbol: string;
+  name: string;
+  // Mint address
+  address: string;
+  // As listed; use tokenRegistry.decimals() when building transactions
+  decimals: number;
+  logoURI?: string;
+  coingeckoId?: string;
+  // In our curated list
+  curated: boolean;
+  // Verified by Jupiter (curated tokens count as verified)
+  verified: boolean;
+  // On Jupiter's strict list
+  strict: boolean;
+}
+
+export interface TokenLookup {
+  // The best candidate, or null when nothing matched
+  token: TokenInfo | null;
+  candidates: TokenInfo[];
+  // The candidates that rank as high as the best one
+  contenders: TokenInfo[];
+  // More than one mint ranks first for this query; ask the user which one
+  ambiguous: boolean;
+}
+
+interface JupiterListToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  extensions?: { coingeckoId?: string };
+}
+
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// Curated first, then strict, then verified
+function rank(token: TokenInfo): number {
+  if (token.curated) return 3;
+  if (token.strict) return 2;
+  return token.verified ? 1 : 0;
+}
+
+function toLookup(matches: TokenInfo[]): TokenLookup {
+  const candidates = [...matches].sort((a, b) => rank(b) - rank(a));
+  const best = candidates[0] ?? null;
+  const contenders = best ? candidates.filter(candidate => rank(candidate) === rank(best)) : [];
+  return {
+    token: best,
+    candidates,
+    contenders,
+    ambiguous: contenders.length > 1
+  };
+}
+
+export class TokenRegistry {
+  private byAddress = new Map<string, TokenInfo>();
+  private bySymbolKey = new Map<string, TokenInfo[]>();
+  private loading: Promise<void> | null = null;
+  private mintDecimals = new Map<string, number>();
+
+  constructor(curated: Omit<TokenInfo, 'curated' | 'verified' | 'strict'>[]) {
+    curated.forEach(token => this.add({ ...token, curated: true, verified: true, strict: true }));
+  }
+
+  // Later sources never replace what is already known for a mint
+  private add(token: TokenInfo) {
+    if (this.byAddress.has(token.address)) return;
+    this.byAddress.set(token.address, token);
+    const key = token.symbol.toLowerCase();
+    this.bySymbolKey.set(key, [...(this.bySymbolKey.get(key) || []), token]);
+  }
+
+  // Loads Jupiter's list once; if that fails, the curated list still answers
+  ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = fetch(JUPITER_TOKEN_LIST_URL)
+        .then(response => {
+          if (!response.ok) throw new Error(`Failed to fetch Jupiter token list: ${response.status}`);
+          return response.json() as Promise<JupiterListToken[]>;
+        })
+        .then(tokens => {
+          tokens.forEach(token => {
+            if (!token.address || !token.symbol) return;
+            const tags = token.tags || [];
+            this.add({
+              symbol: token.symbol,
+              name: token.name || token.symbol,
+              address: token.address,
+              decimals: token.decimals,
+              logoURI: token.logoURI,
+              coingeckoId: token.extensions?.coingeckoId,
+              curated: false,
+              verified: tags.includes('verified') || tags.includes('strict'),
+              strict: tags.includes('strict')
+            });
+          });
+        })
+        .catch(error => {
+          console.error('[TokenRegistry] Error loading Jupiter token list:', error);
+          // Try again on the next lookup
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  // The tokens we offer by name, in list order
+  curated(): TokenInfo[] {
+    return Array.from(this.byAddress.values()).filter(token => token.curated);
+  }
+
+  byMint(address: string): TokenInfo | null {
+    return this.byAddress.get(address) || null;
+  }
+
+  bySymbol(symbol: string): TokenInfo[] {
+    return toLookup(this.bySymbolKey.get(symbol.toLowerCase()) || []).candidates;
+  }
+
+  // Match a mint address, a symbol or a name against what is loaded so far.
+  // Names are matched exactly, or in part against the curated list only.
+  lookup(query: string): TokenLookup {
+    const trimmed = query.trim();
+    if (SOLANA_ADDRESS.test(trimmed)) {
+      const token = this.byMint(trimmed);
+      if (token) return toLookup([token]);
+    }
+
+    const key = trimmed.toLowerCase();
+    const symbolMatches = this.bySymbolKey.get(key);
+    if (symbolMatches?.length) return toLookup(symbolMatches);
+
+    const tokens = Array.from(this.byAddress.values());
+    const nameMatches = tokens.filter(token => token.name.toLowerCase() === key);
+    if (nameMatches.length) return toLookup(nameMatches);
+
+    return toLookup(this.curated().filter(token => token.name.toLowerCase().includes(key)));
+  }
+
+  async resolve(query: string): Promise<TokenLookup> {
+    await this.ready();
+    return this.lookup(query);
+  }
+
+  // Decimals from the mint account, cached per mint. Falls back to the listed
+  // value when the account can't be read.
+  async decimals(address: string, connection: Connection): Promise<number> {
+    const cached = this.mintDecimals.get(address);
+    if (cached !== undefined) return cached;
+
+    try {
+      const { value } = await connection.getParsedAccountInfo(new PublicKey(address));
+      const data = value?.data;
+      if (data && 'parsed' in data && data.parsed?.type === 'mint') {
+        const decimals = Number(data.parsed.info.decimals);
+        this.mintDecimals.set(address, decimals);
+        return decimals;
+      }
+    } catch (error) {
+      console.error(`[TokenRegistry] Error reading mint ${address}:`, error);
+    }
+
+    await this.ready();
+    const listed = this.byMint(address);
+    if (!listed) {
+      throw new Error(`Unknown token mint: ${address}`);
+    }
+    return listed.decimals;
+  }
+}
+
+export const tokenRegistry = new TokenRegistry(curatedTokens);
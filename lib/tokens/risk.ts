@@ -0,0 +1,405 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TokenInfo } from './registry';
+
+// Rug-pull risk for a token, from what is on chain: who can mint or freeze it,
+// how concentrated its holders are, whether the liquidity providers can pull
+// its main Raydium pool, how old it is, how deep that pool is and whether its
+// metadata can still be changed. Each check has a weight; failing costs the full
+// weight, and a warning or a check we could not run half of it. The score is
+// what is left of 100. A report with checks we could not run is incomplete.
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskCheckStatus = 'pass' | 'warn' | 'fail' | 'unknown';
+
+export type RiskCheckId =
+  | 'mint_authority'
+  | 'freeze_authority'
+  | 'holder_concentration'
+  | 'lp_lock'
+  | 'token_age'
+  | 'liquidity'
+  | 'metadata';
+
+export interface RiskCheck {
+  id: RiskCheckId;
+  label: string;
+  status: RiskCheckStatus;
+  detail: string;
+  weight: number;
+}
+
+export interface TokenRiskReport {
+  mint: string;
+  symbol: string;
+  name: string;
+  // 0 (avoid) to 100 (no red flags found)
+  score: number;
+  level: RiskLevel;
+  // Some checks could not run, so the score may be too kind
+  incomplete: boolean;
+  checks: RiskCheck[];
+  analyzedAt: number;
+}
+
+export interface RiskOptions {
+  // Values a SOL-paired pool in USD; without it such pools report no depth
+  solPrice?: number | null;
+}
+
+const CHECK_WEIGHTS: Record<RiskCheckId, number> = {
+  mint_authority: 20,
+  freeze_authority: 15,
+  holder_concentration: 20,
+  lp_lock: 15,
+  token_age: 10,
+  liquidity: 15,
+  metadata: 5
+};
+
+const LOW_RISK_SCORE = 75;
+const MEDIUM_RISK_SCORE = 50;
+
+// Complete reports are reused for a while so a buy right after an analysis
+// doesn't redo it
+const REPORT_TTL_MS = 5 * 60 * 1000;
+
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+const QUOTE_MINTS = [WSOL_MINT, USDC_MINT, USDT_MINT];
+
+const RAYDIUM_AMM_PROGRAM = new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
+const RAYDIUM_AMM_AUTHORITY = '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1';
+const METADATA_PROGRAM = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+const BURN_ADDRESS = '1nc1nerator11111111111111111111111111111111';
+
+// Raydium AMM v4 pool accounts are 752 bytes; we read the slice from the base
+// vault through the LP reserve
+const AMM_ACCOUNT_SIZE = 752;
+const AMM_BASE_VAULT_OFFSET = 336;
+const AMM_QUOTE_VAULT_OFFSET = 368;
+const AMM_BASE_MINT_OFFSET = 400;
+const AMM_QUOTE_MINT_OFFSET = 432;
+const AMM_LP_MINT_OFFSET = 464;
+const AMM_LP_RESERVE_OFFSET = 720;
+const AMM_SLICE_LENGTH = AMM_LP_RESERVE_OFFSET + 8 - AMM_BASE_VAULT_OFFSET;
+
+// Holders that are pools or burns rather than people
+const EXCLUDED_HOLDERS = new Set([RAYDIUM_AMM_AUTHORITY, BURN_ADDRESS]);
+const TOP_HOLDERS = 10;
+
+// Signature pages walked back looking for the mint's first transaction
+const MAX_SIGNATURE_PAGES = 3;
+const SIGNATURE_PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reportCache = new Map<string, TokenRiskReport>();
+
+interface MintFacts {
+  supply: number;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+}
+
+interface RaydiumPool {
+  quoteVault: string;
+  // Which side of the pool is the quote token (SOL, USDC or USDT)
+  quoteMint: string;
+  lpMint: string;
+  lpReserve: number;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const percent = (share: number) => `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+
+function check(id: RiskCheckId, label: string, status: RiskCheckStatus, detail: string): RiskCheck {
+  return { id, label, status, detail, weight: CHECK_WEIGHTS[id] };
+}
+
+// The same check when its data could not be read
+function unknownCheck(id: RiskCheckId, label: string, error: unknown): RiskCheck {
+  console.error(`[TokenRisk] ${id} check failed:`, error);
+  return check(id, label, 'unknown', 'Could not be checked right now.');
+}
+
+function readU64(data: Uint8Array, offset: number): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
+
+function readPublicKey(data: Uint8Array, offset: number): string {
+  return new PublicKey(data.slice(offset, offset + 32)).toBase58();
+}
+
+async function readMint(connection: Connection, mint: PublicKey): Promise<MintFacts> {
+  const { value } = await connection.getParsedAccountInfo(mint);
+  const data = value?.data;
+  if (!data || !('parsed' in data) || data.parsed?.type !== 'mint') {
+    throw new Error(`${mint.toBase58()} is not a token mint`);
+  }
+  const info = data.parsed.info;
+  return {
+    supply: Number(info.supply),
+    decimals: Number(info.decimals),
+    mintAuthority: info.mintAuthority ?? null,
+    freezeAuthority: info.freezeAuthority ?? null
+  };
+}
+
+// Issuers of tokens on Jupiter's strict list (USDC, USDT and the like) keep
+// these authorities on purpose, so holding one is only a warning for them
+function authorityCheck(id: 'mint_authority' | 'freeze_authority', authority: string | null, token: TokenInfo): RiskCheck {
+  const label = id === 'mint_authority' ? 'Mint authority' : 'Freeze authority';
+  if (!authority) {
+    return check(id, label, 'pass', id === 'mint_authority'
+      ? 'Revoked: no more tokens can be minted.'
+      : 'Revoked: nobody can freeze holders\' tokens.');
+  }
+  const detail = id === 'mint_authority'
+    ? `${shortAddress(authority)} can mint more tokens at any time.`
+    : `${shortAddress(authority)} can freeze any holder's tokens.`;
+  return token.strict
+    ? check(id, label, 'warn', `${detail} Expected for a listed issuer.`)
+    : check(id, label, 'fail', detail);
+}
+
+async function holderConcentrationCheck(connection: Connection, mint: PublicKey, facts: MintFacts): Promise<RiskCheck> {
+  const label = 'Top holders';
+  try {
+    const { value: largest } = await connection.getTokenLargestAccounts(mint);
+    const accounts = await connection.getMultipleParsedAccounts(largest.map(account => account.address));
+    const held = largest
+      .filter((_, index) => {
+        const data = accounts.value[index]?.data;
+        const owner = data && 'parsed' in data ? data.parsed?.info?.owner : null;
+        return !owner || !EXCLUDED_HOLDERS.has(owner);
+      })
+      .slice(0, TOP_HOLDERS)
+      .reduce((total, account) => total + Number(account.amount), 0);
+
+    if (!facts.supply) {
+      return check('holder_concentration', label, 'unknown', 'The token has no supply.');
+    }
+    const share = held / facts.supply;
+    const detail = `The top ${TOP_HOLDERS} wallets hold ${percent(share)} of the supply, not counting pools and burns.`;
+    if (share > 0.5) return check('holder_concentration', label, 'fail', detail);
+    if (share > 0.25) return check('holder_concentration', label, 'warn', detail);
+    return check('holder_concentration', label, 'pass', detail);
+  } catch (error) {
+    return unknownCheck('holder_concentration', label, error);
+  }
+}
+
+// Raydium AMM v4 pools pairing the token with SOL, USDC or USDT, on either side
+async function findRaydiumPools(connection: Connection, mint: string): Promise<RaydiumPool[]> {
+  const pairs = QUOTE_MINTS
+    .filter(quote => quote !== mint)
+    .flatMap(quote => [[mint, quote], [quote, mint]]);
+
+  const results = await Promise.all(pairs.map(([baseMint, quoteMint]) =>
+    connection.getProgramAccounts(RAYDIUM_AMM_PROGRAM, {
+      dataSlice: { offset: AMM_BASE_VAULT_OFFSET, length: AMM_SLICE_LENGTH },
+      filters: [
+        { dataSize: AMM_ACCOUNT_SIZE },
+        { memcmp: { offset: AMM_BASE_MINT_OFFSET, bytes: baseMint } },
+        { memcmp: { offset: AMM_QUOTE_MINT_OFFSET, bytes: quoteMint } }
+      ]
+    }).then(accounts => accounts.map(({ account }) => {
+      const data = account.data;
+      const at = (offset: number) => offset - AMM_BASE_VAULT_OFFSET;
+      const quoteIsBase = baseMint !== mint;
+      return {
+        quoteVault: readPublicKey(data, at(quoteIsBase ? AMM_BASE_VAULT_OFFSET : AMM_QUOTE_VAULT_OFFSET)),
+        quoteMint: quoteIsBase ? baseMint : quoteMint,
+        lpMint: readPublicKey(data, at(AMM_LP_MINT_OFFSET)),
+        lpReserve: readU64(data, at(AMM_LP_RESERVE_OFFSET))
+      };
+    }))
+  ));
+  return results.flat();
+}
+
+// USD value of each pool's quote side, used to pick the deepest pool
+async function quoteSideValues(connection: Connection, pools: RaydiumPool[], solPrice: number | null): Promise<(number | null)[]> {
+  const balances = await Promise.all(pools.map(pool => connection.getTokenAccountBalance(new PublicKey(pool.quoteVault))));
+  return balances.map(({ value }, index) => {
+    const amount = value.uiAmount ?? 0;
+    if (pools[index].quoteMint !== WSOL_MINT) return amount;
+    return solPrice ? amount * solPrice : null;
+  });
+}
+
+function liquidityCheck(depth: number | null, pool: RaydiumPool | null): RiskCheck {
+  const label = 'Liquidity';
+  if (!pool) {
+    return check('liquidity', label, 'fail', 'No Raydium pool pairs it with SOL, USDC or USDT.');
+  }
+  if (depth === null) {
+    return check('liquidity', label, 'unknown', 'The SOL price is unavailable, so the pool could not be valued.');
+  }
+  // Both sides of a constant-product pool are worth the same
+  const total = depth * 2;
+  const detail = `About $${Math.round(total).toLocaleString()} in its deepest Raydium pool.`;
+  if (total < 10000) return check('liquidity', label, 'fail', detail);
+  if (total < 50000) return check('liquidity', label, 'warn', detail);
+  return check('liquidity', label, 'pass', detail);
+}
+
+// Share of the pool's LP tokens that are burned (or sent to the incinerator),
+// so the liquidity can't be withdrawn. LP tokens locked in a contract we don't
+// recognise count as withdrawable.
+async function lpLockCheck(connection: Connection, pool: RaydiumPool | null): Promise<RiskCheck> {
+  const label = 'Liquidity lock';
+  if (!pool) {
+    return check('lp_lock', label, 'unknown', 'No Raydium pool to check.');
+  }
+  try {
+    const lpMint = new PublicKey(pool.lpMint);
+    const [{ value: supply }, { value: largest }] = await Promise.all([
+      connection.getTokenSupply(lpMint),
+      connection.getTokenLargestAccounts(lpMint)
+    ]);
+    const accounts = await connection.getMultipleParsedAccounts(largest.map(account => account.address));
+    const incinerated = largest
+      .filter((_, index) => {
+        const data = accounts.value[index]?.data;
+        return data && 'parsed' in data && data.parsed?.info?.owner === BURN_ADDRESS;
+      })
+      .reduce((total, account) => total + Number(account.amount), 0);
+
+    const minted = Math.max(pool.lpReserve, Number(supply.amount));
+    const withdrawable = Number(supply.amount) - incinerated;
+    const locked = minted > 0 ? 1 - withdrawable / minted : 0;
+    const detail = `${percent(locked)} of the LP tokens are burned.`;
+    if (locked >= 0.9) return check('lp_lock', label, 'pass', detail);
+    if (locked >= 0.5) return check('lp_lock', label, 'warn', `${detail} The rest can be withdrawn.`);
+    return check('lp_lock', label, 'fail', `${detail} Liquidity providers can pull the pool.`);
+  } catch (error) {
+    return unknownCheck('lp_lock', label, error);
+  }
+}
+
+// Age from the mint's first transaction. Busy tokens have more history than we
+// walk back through; those are at least as old as the oldest one we saw.
+async function tokenAgeCheck(connection: Connection, mint: PublicKey): Promise<RiskCheck> {
+  const label = 'Token age';
+  try {
+    let before: string | undefined;
+    let oldest: number | null = null;
+    let complete = false;
+    for (let page = 0; page < MAX_SIGNATURE_PAGES && !complete; page++) {
+      const signatures = await connection.getSignaturesForAddress(mint, { before, limit: SIGNATURE_PAGE_SIZE });
+      const last = signatures[signatures.length - 1];
+      if (last?.blockTime) oldest = last.blockTime * 1000;
+      before = last?.signature;
+      complete = signatures.length < SIGNATURE_PAGE_SIZE;
+    }
+    if (oldest === null) {
+      return check('token_age', label, 'unknown', 'No transactions found for the mint.');
+    }
+
+    const age = Date.now() - oldest;
+    const days = Math.floor(age / DAY_MS);
+    const since = `${complete ? 'Created' : 'Active since at least'} ${new Date(oldest).toLocaleDateString()}`;
+    if (age >= 7 * DAY_MS) return check('token_age', label, 'pass', `${since} (${days} days).`);
+    if (!complete) return check('token_age', label, 'unknown', `${since}; too busy to find its first transaction.`);
+    if (age >= DAY_MS) return check('token_age', label, 'warn', `${since}, ${days} days ago.`);
+    return check('token_age', label, 'fail', `${since}, less than a day ago.`);
+  } catch (error) {
+    return unknownCheck('token_age', label, error);
+  }
+}
+
+// Metaplex metadata: key, update authority, mint, then name, symbol and uri as
+// length-prefixed strings, seller fee, optional creators, primary sale flag and
+// finally is_mutable
+function metadataIsMutable(data: Uint8Array): boolean {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 1 + 32 + 32;
+  for (let field = 0; field < 3; field++) {
+    offset += 4 + view.getUint32(offset, true);
+  }
+  offset += 2;
+  if (data[offset] === 1) {
+    offset += 1 + 4 + view.getUint32(offset + 1, true) * 34;
+  } else {
+    offset += 1;
+  }
+  return data[offset + 1] === 1;
+}
+
+async function metadataCheck(connection: Connection, mint: PublicKey): Promise<RiskCheck> {
+  const label = 'Metadata';
+  try {
+    const [address] = PublicKey.findProgramAddressSync(
+      [new TextEncoder().encode('metadata'), METADATA_PROGRAM.toBytes(), mint.toBytes()],
+      METADATA_PROGRAM
+    );
+    const account = await connection.getAccountInfo(address);
+    if (!account) {
+      return check('metadata', label, 'warn', 'The token has no Metaplex metadata.');
+    }
+    const data = Uint8Array.from(account.data);
+    return metadataIsMutable(data)
+      ? check('metadata', label, 'warn', `Mutable: ${shortAddress(readPublicKey(data, 1))} can change its name, symbol and image.`)
+      : check('metadata', label, 'pass', 'Immutable.');
+  } catch (error) {
+    return unknownCheck('metadata', label, error);
+  }
+}
+
+export function scoreChecks(checks: RiskCheck[]): { score: number; level: RiskLevel; incomplete: boolean } {
+  const penalty = checks.reduce((total, { status, weight }) =>
+    total + (status === 'fail' ? weight : status === 'pass' ? 0 : weight / 2), 0);
+  const score = Math.max(0, Math.round(100 - penalty));
+  const level = score >= LOW_RISK_SCORE ? 'low' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'high';
+  return { score, level, incomplete: checks.some(check => check.status === 'unknown') };
+}
+
+export async function analyzeTokenRisk(token: TokenInfo, connection: Connection, options: RiskOptions = {}): Promise<TokenRiskReport> {
+  const cached = reportCache.get(token.address);
+  if (cached && Date.now() - cached.analyzedAt < REPORT_TTL_MS) return cached;
+
+  const mint = new PublicKey(token.address);
+  const facts = await readMint(connection, mint);
+
+  let pool: RaydiumPool | null = null;
+  let depth: number | null = null;
+  let poolError: unknown = null;
+  try {
+    const pools = await findRaydiumPools(connection, token.address);
+    const values = await quoteSideValues(connection, pools, options.solPrice ?? null);
+    for (let index = 0; index < pools.length; index++) {
+      if (!pool || (values[index] ?? -1) > (depth ?? -1)) {
+        pool = pools[index];
+        depth = values[index];
+      }
+    }
+  } catch (error) {
+    poolError = error;
+  }
+
+  const checks = await Promise.all([
+    authorityCheck('mint_authority', facts.mintAuthority, token),
+    authorityCheck('freeze_authority', facts.freezeAuthority, token),
+    holderConcentrationCheck(connection, mint, facts),
+    poolError ? unknownCheck('lp_lock', 'Liquidity lock', poolError) : lpLockCheck(connection, pool),
+    tokenAgeCheck(connection, mint),
+    poolError ? unknownCheck('liquidity', 'Liquidity', poolError) : liquidityCheck(depth, pool),
+    metadataCheck(connection, mint)
+  ]);
+
+  const report: TokenRiskReport = {
+    mint: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    ...scoreChecks(checks),
+    checks,
+    analyzedAt: Date.now()
+  };
+  if (!report.incomplete) reportCache.set(token.address, report);
+  return report;
+}
@@ -0,0 +1,99 @@
+// Sends chat requests through the real /api/chat route, served by `next dev`,
+// with LLM_API_URL pointing at the stub model server. Run with `npm test`.
+
+import { spawn } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_STUB_REPLY, startStubLlmServer } from './stub-llm-server.mjs';
+
+const require = createRequire(import.meta.url);
+const NEXT_BIN = require.resolve('next/dist/bin/next');
+const APP_PORT = Number(process.env.CHAT_TEST_PORT) || 3099;
+const APP_URL = `http://127.0.0.1:${APP_PORT}`;
+// The first request compiles the route, which is slow on small machines
+const STARTUP_TIMEOUT_MS = 180000;
+
+let stub;
+let app;
+
+async function waitForApp() {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (app.exitCode !== null) throw new Error(`next dev exited with code ${app.exitCode}`);
+    try {
+      // Any answer means the route is compiled; it only takes POST
+      await fetch(`${APP_URL}/api/chat`);
+      return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+  throw new Error(`next dev did not start within ${STARTUP_TIMEOUT_MS / 1000}s`);
+}
+
+function postChat(body) {
+  return fetch(`${APP_URL}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+before(async () => {
+  stub = await startStubLlmServer();
+  const { TOGETHER_API_KEY, LLM_API_KEY, ...env } = process.env;
+  app = spawn(process.execPath, [NEXT_BIN, 'dev', '-p', String(APP_PORT)], {
+    env: { ...env, LLM_API_URL: stub.url, LLM_MODEL: 'stub-model', NEXT_TELEMETRY_DISABLED: '1' },
+    stdio: ['ignore', 'ignore', 'inherit'],
+    // Its own process group, so stopping it also stops the workers it starts
+    detached: true
+  });
+  await waitForApp();
+}, { timeout: STARTUP_TIMEOUT_MS + 10000 });
+
+after(async () => {
+  if (app && app.exitCode === null) process.kill(-app.pid, 'SIGTERM');
+  await stub?.close();
+});
+
+test('POST /api/chat resolves the intent through LLM_API_URL', { timeout: STARTUP_TIMEOUT_MS }, async () => {
+  const before = stub.requests.length;
+  const response = await postChat({ message: 'buy 1 SOL' });
+  assert.equal(response.status, 200);
+
+  const intent = await response.json();
+  assert.equal(intent.intent, DEFAULT_STUB_REPLY.intent);
+  assert.equal(intent.amount, DEFAULT_STUB_REPLY.amount);
+  assert.equal(intent.message, DEFAULT_STUB_REPLY.message);
+
+  const sent = stub.requests.slice(before);
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].model, 'stub-model');
+  assert.equal(sent[0].stream, false);
+  assert.deepEqual(sent[0].messages.at(-1), { role: 'user', content: 'buy 1 SOL' });
+});
+
+test('POST /api/chat streams the reply, then the intent', { timeout: STARTUP_TIMEOUT_MS }, async () => {
+  const before = stub.requests.length;
+  const response = await postChat({ message: 'buy 1 SOL', stream: true });
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('content-type'), /text\/event-stream/);
+
+  const frames = (await response.text())
+    .split('\n\n')
+    .filter(Boolean)
+    .map(frame => ({
+      event: frame.match(/^event: (.*)$/m)?.[1],
+      data: JSON.parse(frame.match(/^data: (.*)$/m)[1])
+    }));
+  const text = frames.filter(frame => frame.event === 'delta').map(frame => frame.data.text).join('');
+  assert.equal(text, DEFAULT_STUB_REPLY.message);
+  assert.equal(frames.at(-1).event, 'intent');
+  assert.equal(frames.at(-1).data.intent, DEFAULT_STUB_REPLY.intent);
+
+  const sent = stub.requests.slice(before);
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].stream, true);
+});
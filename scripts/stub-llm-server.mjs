@@ -0,0 +1,99 @@
+// A minimal OpenAI-compatible chat-completions server that answers every
+// request with the same reply, streamed or not. Point LLM_API_URL at it to run
+// the chat without a model:
+//
+//   node scripts/stub-llm-server.mjs   # listens on LLM_STUB_PORT (default 4010)
+//   LLM_API_URL=http://localhost:4010/v1/chat/completions npm run dev
+//
+// Tests start it in-process with startStubLlmServer() and read back the
+// requests it received.
+
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+export const DEFAULT_STUB_REPLY = {
+  intent: 'buy_sol',
+  amount: 1,
+  currency: 'SOL',
+  message: 'Sure, let us buy 1 SOL.'
+};
+
+// Streamed replies are split into chunks this long, like a model emitting tokens
+const STREAM_CHUNK_LENGTH = 12;
+
+function completion(model, content) {
+  return {
+    id: 'chatcmpl-stub',
+    object: 'chat.completion',
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+  };
+}
+
+function streamCompletion(res, model, content) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for (let i = 0; i < content.length; i += STREAM_CHUNK_LENGTH) {
+    const chunk = {
+      id: 'chatcmpl-stub',
+      object: 'chat.completion.chunk',
+      model,
+      choices: [{ index: 0, delta: { content: content.slice(i, i + STREAM_CHUNK_LENGTH) }, finish_reason: null }]
+    };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+}
+
+// Resolves once listening. `port` 0 picks a free one; `url` is the endpoint to
+// use as LLM_API_URL.
+export function startStubLlmServer({ port = 0, reply = DEFAULT_STUB_REPLY } = {}) {
+  const requests = [];
+  const content = typeof reply === 'string' ? reply : JSON.stringify(reply);
+
+  const server = createServer((req, res) => {
+    if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Not found' } }));
+      return;
+    }
+
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      let request;
+      try {
+        request = JSON.parse(body);
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Invalid JSON body' } }));
+        return;
+      }
+      requests.push(request);
+
+      if (request.stream) {
+        streamCompletion(res, request.model, content);
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(completion(request.model, content)));
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address();
+      resolve({
+        url: `http://127.0.0.1:${boundPort}/v1/chat/completions`,
+        requests,
+        close: () => new Promise(done => server.close(done))
+      });
+    });
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const stub = await startStubLlmServer({ port: Number(process.env.LLM_STUB_PORT) || 4010 });
+  console.log(`Stub LLM listening at ${stub.url}`);
+}
@@ -1,4 +1,5 @@
 import jupiterService from './JupiterService';
+import { tokenRegistry } from '../../lib/tokens/registry';
 
 
 class AgentService {
@@ -7,82 +8,11 @@ class AgentService {
     this.apiUrl = 'https://api.together.xyz/v1/chat/completions';
     this.conversationContext = new Map();
     this.pendingTransaction = new Map();
+  }
 
-    // Predefined list of common tokens with their correct addresses
-    this.commonTokens = {
-      'SOL': {
-        address: 'So11111111111111111111111111111111111111112',
-        decimals: 9,
-        symbol: 'SOL',
-        name: 'Solana'
-      },
-      'USDC': {
-        address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-        decimals: 6,
-        symbol: 'USDC',
-        name: 'USD Coin'
-      },
-      'USDT': {
-        address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-        decimals: 6,
-        symbol: 'USDT',
-        name: 'Tether USD'
-      },
-      'BONK': {
-        address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
-        decimals: 5,
-        symbol: 'BONK',
-        name: 'Bonk'
-      },
-      'TRUMP': {
-        address: '6p6xgHyF7AeE6TZkSmFsko444wqoP15icUSqi2jfGiPN',
-        decimals: 6,
-        symbol: 'TRUMP',
-        name: 'Trump'
-      },
-      'JUP': {
-        address: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
-        decimals: 6,
-        symbol: 'JUP',
-        name: 'Jupiter'
-      },
-      'WIF': {
-        address: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fHVF28pd1rPBjay7X',
-        decimals: 6,
-        symbol: 'WIF',
-        name: 'Dogwifhat'
-      },
-      'BOME': {
-        address: 'Gz7VkD4MacbEB6yC5XD3HcumEiYx2EtDYYrMnKNx7JG',
-        decimals: 6,
-        symbol: 'BOME',
-        name: 'Book of Meme'
-      },
-      'MSOL': {
-        address: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
-        decimals: 9,
-        symbol: 'MSOL',
-        name: 'Marinade staked SOL'
-      },
-      'WBTC': {
-        address: '9n4nbM75f5Ui33ZbPYXn59EwSgE8CGsHtAeTH5YFeJ9E',
-        decimals: 6,
-        symbol: 'WBTC',
-        name: 'Wrapped Bitcoin (Sollet)'
-      },
-      'WETH': {
-        address: '7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs',
-        decimals: 8,
-        symbol: 'WETH',
-        name: 'Wrapped Ethereum (Sollet)'
-      },
-      'PEPE': {
-        address: 'FDqp7ioPenKRzQqseFv84kxDMUT83CX1qZxgDTQDkwT2',
-        decimals: 6,
-        symbol: 'PEPE',
-        name: 'Pepe'
-      }
-    };
+  // Only tokens on our curated list can be traded from the agent
+  getSupportedToken(symbol) {
+    return tokenRegistry.curated().find(token => token.symbol === symbol) || null;
   }
 
   async getTokenSymbol(userInput) {
@@ -153,8 +83,8 @@ class AgentService {
         return directMappings[normalizedInput];
       }
 
-      // Check if the input exactly matches a key in commonTokens
-      if (this.commonTokens[normalizedInput]) {
+      // Check if the input exactly matches a supported token
+      if (this.getSupportedToken(normalizedInput)) {
         return normalizedInput;
       }
 
@@ -297,14 +227,14 @@ class AgentService {
           console.log('Token symbols extracted:', { fromTokenSymbol, toTokenSymbol });
 
           // Check if tokens are in our supported list
-          if (!this.commonTokens[fromTokenSymbol]) {
+          if (!this.getSupportedToken(fromTokenSymbol)) {
             return {
               type: 'error',
               message: `Sorry, the token '${fromTokenSymbol}' is not supported for trading at this time.`
             };
           }
 
-          if (!this.commonTokens[toTokenSymbol]) {
+          if (!this.getSupportedToken(toTokenSymbol)) {
             return {
               type: 'error',
               message: `Sorry, the token '${toTokenSymbol}' is not supported for trading at this time.`
@@ -330,11 +260,11 @@ class AgentService {
           console.log('Initiating swap with tokens:', {
             from: {
               symbol: fromTokenSymbol,
-              address: this.commonTokens[fromTokenSymbol].address
+              address: this.getSupportedToken(fromTokenSymbol).address
             },
             to: {
               symbol: toTokenSymbol,
-              address: this.commonTokens[toTokenSymbol].address
+              address: this.getSupportedToken(toTokenSymbol).address
             },
             amount: intentData.amount
           });
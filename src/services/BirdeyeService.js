@@ -6,55 +6,20 @@
 
 import jupiterService from './JupiterService';
 import config from '../../lib/config';
+import { tokenRegistry } from '../../lib/tokens/registry';
 
 // Base URLs
 const BIRDEYE_API_BASE = 'https://public-api.birdeye.so';
-const JUPITER_TOKEN_LIST_URL = 'https://token.jup.ag/all';
 
 class BirdeyeService {
-  constructor() {
-    this.tokenMap = new Map();
-    this.initializeTokenMap();
-  }
-
   /**
-   * Initialize the token map from Jupiter API
-   */
-  async initializeTokenMap() {
-    try {
-      const response = await fetch(JUPITER_TOKEN_LIST_URL);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch Jupiter token list: ${response.status}`);
-      }
-
-      const tokens = await response.json();
-      tokens.forEach(token => {
-        // Store tokens by symbol (lowercase for case-insensitive lookup)
-        if (token.symbol) {
-          this.tokenMap.set(token.symbol.toLowerCase(), token);
-        }
-        // Also store by address for direct lookup
-        if (token.address) {
-          this.tokenMap.set(token.address, token);
-        }
-      });
-
-      console.log('[BirdeyeService] Token map initialized with', this.tokenMap.size, 'tokens');
-    } catch (error) {
-      console.error('[BirdeyeService] Error initializing token map:', error);
-    }
-  }
-
-  /**
-   * Get a token from the token map
+   * Get a token from the token registry
    * 
    * @param {string} tokenIdentifier - Token symbol or address
    * @returns {Object|null} - Token data or null if not found
    */
   getToken(tokenIdentifier) {
-    // Normalize the identifier (lowercase for symbols)
-    const normalizedIdentifier = tokenIdentifier.toLowerCase();
-    return this.tokenMap.get(normalizedIdentifier) || null;
+    return tokenRegistry.lookup(tokenIdentifier).token;
   }
 
   /**
@@ -65,6 +30,8 @@ class BirdeyeService {
    */
   async getTokenPrice(tokenIdentifier) {
     try {
+      await tokenRegistry.ready();
+
       // Check if the tokenIdentifier looks like an address
       const isAddress = tokenIdentifier.length > 30; // Simplified check for Solana address
       
@@ -173,6 +140,120 @@ class BirdeyeService {
     }
   }
 
+  /**
+   * Send a GET request to the Birdeye API, with our API key when we have one
+   * 
+   * @param {string} path - Path and query string
+   * @returns {Promise<Object>} - The response's `data` field
+   */
+  async requestBirdeye(path) {
+    const headers = {
+      'Content-Type': 'application/json'
+    };
+
+    if (config.birdeyeApiKey) {
+      headers['X-API-KEY'] = config.birdeyeApiKey;
+    }
+
+    const response = await fetch(`${BIRDEYE_API_BASE}${path}`, {
+      method: 'GET',
+      headers
+    });
+
+    if (!response.ok) {
+      throw new Error(`Birdeye API responded with status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data || !data.data) {
+      throw new Error('Invalid response format from Birdeye API');
+    }
+    return data.data;
+  }
+
+  /**
+   * Get a token's market overview from Birdeye
+   * 
+   * @param {string} tokenAddress - Token address (mint)
+   * @returns {Promise<{success: boolean, overview: {price: number|null, priceChange24h: number|null, marketCap: number|null, liquidity: number|null, holders: number|null}|null, error: string|null}>}
+   */
+  async getTokenOverview(tokenAddress) {
+    try {
+      const data = await this.requestBirdeye(`/defi/token_overview?address=${tokenAddress}`);
+      const number = value => (typeof value === 'number' ? value : null);
+      return {
+        success: true,
+        overview: {
+          price: number(data.price),
+          priceChange24h: number(data.priceChange24hPercent),
+          marketCap: number(data.marketCap ?? data.mc),
+          liquidity: number(data.liquidity),
+          holders: number(data.holder)
+        },
+        error: null
+      };
+    } catch (error) {
+      console.error('[BirdeyeService] Birdeye overview error:', error);
+      return {
+        success: false,
+        overview: null,
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Get a token's liquidity in USD across its markets from Birdeye
+   * 
+   * @param {string} tokenAddress - Token address (mint)
+   * @returns {Promise<{success: boolean, liquidity: number|null, error: string|null}>}
+   */
+  async getTokenLiquidity(tokenAddress) {
+    const result = await this.getTokenOverview(tokenAddress);
+    const liquidity = result.overview ? result.overview.liquidity : null;
+    return {
+      success: liquidity !== null,
+      liquidity,
+      error: result.error || (liquidity === null ? 'Liquidity not reported by Birdeye' : null)
+    };
+  }
+
+  /**
+   * Get OHLC candles for a token from Birdeye, oldest first
+   * 
+   * @param {string} tokenAddress - Token address (mint)
+   * @param {string} interval - Candle size, e.g. '15m', '1H' or '1D'
+   * @param {number} from - Start time, unix seconds
+   * @param {number} to - End time, unix seconds
+   * @returns {Promise<{success: boolean, candles: Array<{time: number, open: number, high: number, low: number, close: number}>, error: string|null}>}
+   */
+  async getTokenOhlc(tokenAddress, interval, from, to) {
+    try {
+      const data = await this.requestBirdeye(
+        `/defi/ohlcv?address=${tokenAddress}&type=${interval}&time_from=${from}&time_to=${to}`
+      );
+      const candles = (data.items || []).map(item => ({
+        time: item.unixTime * 1000,
+        open: item.o,
+        high: item.h,
+        low: item.l,
+        close: item.c
+      }));
+      return {
+        success: true,
+        candles,
+        error: null
+      };
+    } catch (error) {
+      console.error('[BirdeyeService] Birdeye OHLC error:', error);
+      return {
+        success: false,
+        candles: [],
+        error: error.message
+      };
+    }
+  }
+
   /**
    * Get token price by querying Jupiter for a swap quote
    * 
@@ -1,4 +1,5 @@
 import { PublicKey, Transaction, VersionedTransaction, Connection } from '@solana/web3.js';
+import { tokenRegistry } from '../../lib/tokens/registry';
 
 /**
  * RaydiumService (now using Jupiter Aggregator)
@@ -10,143 +11,17 @@ class RaydiumService {
     constructor() {
         // Base endpoint for Jupiter Aggregator API
         this.baseUrl = 'https://quote-api.jup.ag/v6';
-        // Jupiter token list API
-        this.tokenListUrl = 'https://token.jup.ag/all';
-        
-        // Initialize token map
-        this.tokenMap = new Map();
-        this.initializeTokenMap();
-
-        this.commonTokens = {
-            'SOL': {
-                address: 'So11111111111111111111111111111111111111112',
-                decimals: 9,
-                symbol: 'SOL',
-                name: 'Solana'
-            },
-            'USDC': {
-                address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-                decimals: 6,
-                symbol: 'USDC',
-                name: 'USD Coin'
-            },
-            'USDT': {
-                address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-                decimals: 6,
-                symbol: 'USDT',
-                name: 'Tether USD'
-            },
-            'BONK': {
-                address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
-                decimals: 5,
-                symbol: 'BONK',
-                name: 'Bonk'
-            },
-            'TRUMP': {
-                address: '6p6xgHyF7AeE6TZkSmFsko444wqoP15icUSqi2jfGiPN',
-                decimals: 6,
-                symbol: 'TRUMP',    
-                name: 'Trump'
-            },
-            'JUP': {
-                address: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
-                decimals: 6,
-                symbol: 'JUP',
-                name: 'Jupiter'
-            },
-            'WIF': {
-                address: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fHVF28pd1rPBjay7X',
-                decimals: 6,
-                symbol: 'WIF',
-                name: 'Dogwifhat'
-            },
-            'BOME': {
-                address: 'Gz7VkD4MacbEB6yC5XD3HcumEiYx2EtDYYrMnKNx7JG',
-                decimals: 6,
-                symbol: 'BOME',
-                name: 'Book of Meme'
-            },
-            'MSOL': {
-                address: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
-                decimals: 9,
-                symbol: 'MSOL',
-                name: 'Marinade staked SOL'
-            },
-            'WBTC': {
-                address: '9n4nbM75f5Ui33ZbPYXn59EwSgE8CGsHtAeTH5YFeJ9E',
-                decimals: 6,
-                symbol: 'WBTC',
-                name: 'Wrapped Bitcoin (Sollet)'
-            },
-            'WETH': {
-                address: '7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs',
-                decimals: 8,
-                symbol: 'WETH',
-                name: 'Wrapped Ethereum (Sollet)'
-            },
-            'PEPE': {
-                address: 'FDqp7ioPenKRzQqseFv84kxDMUT83CX1qZxgDTQDkwT2',
-                decimals: 6,
-                symbol: 'PEPE',
-                name: 'Pepe'
-            }
-        };
-    }
-
-    async initializeTokenMap() {
-        try {
-            const response = await fetch(this.tokenListUrl);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch token list: ${response.statusText}`);
-            }
-
-            const tokens = await response.json();
-            
-            // First, add our common tokens to ensure they're available
-            Object.entries(this.commonTokens).forEach(([symbol, info]) => {
-                this.tokenMap.set(symbol, info);
-            });
-            
-            // Then add tokens from the API
-            tokens.forEach(token => {
-                this.tokenMap.set(token.symbol.toUpperCase(), {
-                    address: token.address,
-                    decimals: token.decimals,
-                    symbol: token.symbol,
-                    name: token.name
-                });
-            });
-
-            console.log('[Jupiter] Token map initialized with', this.tokenMap.size, 'tokens');
-        } catch (error) {
-            console.error('[Jupiter] Error initializing token map:', error);
-            // Fallback to common tokens if API fails
-            Object.entries(this.commonTokens).forEach(([symbol, info]) => {
-                this.tokenMap.set(symbol, info);
-            });
-            console.log('[Jupiter] Fallback to common tokens:', this.tokenMap.size, 'tokens');
-        }
+        // Reads mint accounts for token decimals
+        this.connection = new Connection(process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL || 'https://api.mainnet-beta.solana.com', 'confirmed');
     }
 
+    // Token metadata from the registry, with decimals read from the mint
     async getTokenBySymbol(symbol) {
-        const normalizedSymbol = symbol.toUpperCase();
-        
-        // Wait for token map to be initialized
-        if (this.tokenMap.size === 0) {
-            await this.initializeTokenMap();
-        }
-
-        // First try to get from common tokens which we know are correct
-        if (this.commonTokens[normalizedSymbol]) {
-            return this.commonTokens[normalizedSymbol];
-        }
-        
-        // Then try the token map
-        const tokenInfo = this.tokenMap.get(normalizedSymbol);
-        if (!tokenInfo) {
+        const { token } = await tokenRegistry.resolve(symbol);
+        if (!token) {
             throw new Error(`Token "${symbol}" not found in token list`);
         }
-        return tokenInfo;
+        return { ...token, decimals: await tokenRegistry.decimals(token.address, this.connection) };
     }
 
     async swap(
@@ -177,22 +52,8 @@ class RaydiumService {
             const normalizedInputSymbol = inputTokenSymbol.toUpperCase();
             const normalizedOutputSymbol = outputTokenSymbol.toUpperCase();
             
-            // First check if these are common tokens - prioritize these over the token map
-            let inputTokenInfo, outputTokenInfo;
-            
-            if (this.commonTokens[normalizedInputSymbol]) {
-                inputTokenInfo = this.commonTokens[normalizedInputSymbol];
-                console.log(`[Jupiter] Using common token for ${normalizedInputSymbol}:`, inputTokenInfo);
-            } else {
-                inputTokenInfo = await this.getTokenBySymbol(normalizedInputSymbol);
-            }
-            
-            if (this.commonTokens[normalizedOutputSymbol]) {
-                outputTokenInfo = this.commonTokens[normalizedOutputSymbol];
-                console.log(`[Jupiter] Using common token for ${normalizedOutputSymbol}:`, outputTokenInfo);
-            } else {
-                outputTokenInfo = await this.getTokenBySymbol(normalizedOutputSymbol);
-            }
+            const inputTokenInfo = await this.getTokenBySymbol(normalizedInputSymbol);
+            const outputTokenInfo = await this.getTokenBySymbol(normalizedOutputSymbol);
 
             if (!inputTokenInfo || !outputTokenInfo) {
                 throw new Error('Token information not found');